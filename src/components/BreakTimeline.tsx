@@ -0,0 +1,209 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Coffee, Edit2, Trash2, Check, X } from 'lucide-react';
+import type { WorkBreak, WorkBreakUpdates } from '@/hooks/useWorkBreaks';
+import { getBreakDurationMs, sortBreaks, type BreakType } from '@/lib/timeEngine';
+import { formatTimeOfDay, toZonedTimeString, withZonedTime, type DisplayPreferences } from '@/lib/datetime';
+
+interface BreakTimelineProps {
+  breaks: WorkBreak[];
+  arrival: Date;
+  now: Date;
+  preferences: DisplayPreferences;
+  onUpdate: (breakId: string, updates: WorkBreakUpdates) => Promise<boolean>;
+  onDelete: (breakId: string) => void;
+}
+
+const BREAK_TYPES: { value: BreakType; label: string }[] = [
+  { value: 'lunch', label: 'Lunch' },
+  { value: 'personal', label: 'Personal' },
+  { value: 'manual', label: 'Manual' },
+];
+
+const BreakTimeline = ({ breaks, arrival, now, preferences, onUpdate, onDelete }: BreakTimelineProps) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editType, setEditType] = useState<BreakType>('personal');
+  const [editStart, setEditStart] = useState('');
+  const [editEnd, setEditEnd] = useState('');
+
+  const formatDuration = (ms: number) => {
+    const totalMinutes = Math.floor(ms / (1000 * 60));
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+    return `${hours}:${minutes.toString().padStart(2, '0')}`;
+  };
+
+  const getTypeBadge = (type: BreakType) => {
+    const baseClasses = "inline-flex items-center px-2 py-1 rounded-full text-xs font-medium";
+    switch (type) {
+      case 'lunch':
+        return `${baseClasses} bg-accent/20 text-accent`;
+      case 'manual':
+        return `${baseClasses} bg-muted text-muted-foreground`;
+      default:
+        return `${baseClasses} bg-orange-500/20 text-orange-600`;
+    }
+  };
+
+  // Breaks are positioned on a bar spanning arrival until now
+  const spanMs = Math.max(1, now.getTime() - arrival.getTime());
+  const getOffsetPercentage = (time: Date) => {
+    return Math.min(100, Math.max(0, ((time.getTime() - arrival.getTime()) / spanMs) * 100));
+  };
+
+  const sortedBreaks = sortBreaks(breaks);
+
+  const startEdit = (workBreak: WorkBreak) => {
+    setEditingId(workBreak.id);
+    setEditType(workBreak.type);
+    setEditStart(toZonedTimeString(workBreak.start_time, preferences.timezone));
+    setEditEnd(workBreak.end_time ? toZonedTimeString(workBreak.end_time, preferences.timezone) : '');
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+  };
+
+  const saveEdit = async (workBreak: WorkBreak) => {
+    if (!editStart) return;
+
+    const updates: WorkBreakUpdates = {
+      type: editType,
+      start_time: withZonedTime(workBreak.start_time, editStart, preferences.timezone).toISOString(),
+    };
+    // An open break keeps running until the timer is resumed
+    if (workBreak.end_time && editEnd) {
+      updates.end_time = withZonedTime(workBreak.end_time, editEnd, preferences.timezone).toISOString();
+    }
+
+    const success = await onUpdate(workBreak.id, updates);
+    if (success) {
+      setEditingId(null);
+    }
+  };
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Coffee className="h-5 w-5 text-orange-500" />
+          Breaks
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Timeline */}
+        <div>
+          <div className="relative w-full bg-primary/20 h-3 rounded-full overflow-hidden">
+            {sortedBreaks.map((workBreak) => {
+              const left = getOffsetPercentage(new Date(workBreak.start_time));
+              const right = getOffsetPercentage(workBreak.end_time ? new Date(workBreak.end_time) : now);
+              return (
+                <div
+                  key={workBreak.id}
+                  className="absolute top-0 h-full bg-orange-500"
+                  style={{ left: `${left}%`, width: `${Math.max(0.5, right - left)}%` }}
+                />
+              );
+            })}
+          </div>
+          <div className="flex justify-between text-xs text-muted-foreground mt-1 font-mono">
+            <span>{formatTimeOfDay(arrival, preferences)}</span>
+            <span>{formatTimeOfDay(now, preferences)}</span>
+          </div>
+        </div>
+
+        {/* Break List */}
+        {sortedBreaks.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center">
+            No breaks taken yet.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {sortedBreaks.map((workBreak) => (
+              <div key={workBreak.id} className="flex justify-between items-center p-3 rounded-lg bg-muted/30 border border-border/50">
+                {editingId === workBreak.id ? (
+                  <div className="flex flex-wrap gap-2 items-center w-full">
+                    <Select value={editType} onValueChange={(value) => setEditType(value as BreakType)}>
+                      <SelectTrigger className="h-8 w-28 text-sm">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {BREAK_TYPES.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="time"
+                      value={editStart}
+                      onChange={(e) => setEditStart(e.target.value)}
+                      className="h-8 w-28 font-mono text-sm"
+                    />
+                    <span className="text-muted-foreground">–</span>
+                    {workBreak.end_time ? (
+                      <Input
+                        type="time"
+                        value={editEnd}
+                        onChange={(e) => setEditEnd(e.target.value)}
+                        className="h-8 w-28 font-mono text-sm"
+                      />
+                    ) : (
+                      <span className="text-sm text-muted-foreground">now</span>
+                    )}
+                    <div className="flex gap-1 ml-auto">
+                      <Button size="sm" variant="ghost" onClick={() => saveEdit(workBreak)} className="h-8 w-8 p-0">
+                        <Check className="h-4 w-4" />
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={cancelEdit} className="h-8 w-8 p-0">
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <>
+                    <div className="flex items-center gap-3">
+                      <span className={getTypeBadge(workBreak.type)}>
+                        {workBreak.type}
+                      </span>
+                      <span className="font-mono text-sm">
+                        {formatTimeOfDay(workBreak.start_time, preferences)} – {workBreak.end_time ? formatTimeOfDay(workBreak.end_time, preferences) : 'now'}
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono font-semibold text-sm text-orange-600">
+                        {formatDuration(getBreakDurationMs(workBreak, now))}
+                      </span>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => startEdit(workBreak)}
+                        className="h-8 w-8 p-0"
+                      >
+                        <Edit2 className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => onDelete(workBreak.id)}
+                        className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BreakTimeline;
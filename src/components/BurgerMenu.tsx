@@ -1,16 +1,20 @@
 import { useState } from 'react';
-import { Menu, User, LogOut } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { Menu, User, LogOut, LogIn, Scale, Palmtree, Trash2, Download, FileText, Upload } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
 import { useProfile } from '@/hooks/useProfile';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
 import { ProfileDialog } from './ProfileDialog';
+import { ExportDialog } from './ExportDialog';
+import { TimesheetDialog } from './TimesheetDialog';
 
 export const BurgerMenu = () => {
-  const { signOut } = useAuth();
+  const { signOut, isLocalMode } = useAuth();
   const { profile } = useProfile();
   const [isOpen, setIsOpen] = useState(false);
+  const navigate = useNavigate();
 
   const getInitials = (name: string) => {
     return name.split(' ').map(n => n[0]).join('').toUpperCase();
@@ -23,7 +27,7 @@ export const BurgerMenu = () => {
     return 'Good evening';
   };
 
-  const displayName = profile?.display_name || 'User';
+  const displayName = profile?.display_name || (isLocalMode ? 'Guest' : 'User');
   const avatarUrl = profile?.avatar_url;
 
   return (
@@ -52,34 +56,146 @@ export const BurgerMenu = () => {
           </div>
         </SheetHeader>
 
-        {/* Menu Items */}
-        <div className="mt-8 space-y-2">
-          <ProfileDialog>
+        {/* Without an account only what works on local data is offered */}
+        {isLocalMode ? (
+          <div className="mt-8 space-y-2">
+            <ExportDialog>
+              <Button
+                variant="ghost"
+                className="w-full justify-start h-12 text-left"
+                onClick={(e) => e.stopPropagation()}
+              >
+                <Download className="mr-3 h-5 w-5" />
+                Export
+              </Button>
+            </ExportDialog>
+
+            <Button
+              variant="ghost"
+              className="w-full justify-start h-12 text-left"
+              onClick={() => {
+                setIsOpen(false);
+                navigate('/trash');
+              }}
+            >
+              <Trash2 className="mr-3 h-5 w-5" />
+              Trash
+            </Button>
+
+            <Button
+              variant="ghost"
+              className="w-full justify-start h-12 text-left"
+              onClick={() => {
+                setIsOpen(false);
+                navigate('/auth');
+              }}
+            >
+              <LogIn className="mr-3 h-5 w-5" />
+              Sign In & Keep Data
+            </Button>
+            <p className="px-4 text-xs text-muted-foreground">
+              Your workdays are stored in this browser only. After signing in you can move them to your account.
+            </p>
+          </div>
+        ) : (
+          <div className="mt-8 space-y-2">
+            <ProfileDialog>
+              <Button
+                variant="ghost"
+                className="w-full justify-start h-12 text-left"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  // Keep the sheet open while profile dialog is active
+                }}
+              >
+                <User className="mr-3 h-5 w-5" />
+                Profile Settings
+              </Button>
+            </ProfileDialog>
+
+            <Button
+              variant="ghost"
+              className="w-full justify-start h-12 text-left"
+              onClick={() => {
+                setIsOpen(false);
+                navigate('/flextime');
+              }}
+            >
+              <Scale className="mr-3 h-5 w-5" />
+              Flextime Ledger
+            </Button>
+
             <Button
               variant="ghost"
               className="w-full justify-start h-12 text-left"
-              onClick={(e) => {
-                e.stopPropagation();
-                // Keep the sheet open while profile dialog is active
+              onClick={() => {
+                setIsOpen(false);
+                navigate('/absences');
               }}
             >
-              <User className="mr-3 h-5 w-5" />
-              Profile Settings
+              <Palmtree className="mr-3 h-5 w-5" />
+              Absences
             </Button>
-          </ProfileDialog>
 
-          <Button
-            variant="ghost"
-            className="w-full justify-start h-12 text-left text-destructive hover:text-destructive"
-            onClick={() => {
-              setIsOpen(false);
-              signOut();
-            }}
-          >
-            <LogOut className="mr-3 h-5 w-5" />
-            Sign Out
-          </Button>
-        </div>
+            <ExportDialog>
+              <Button
+                variant="ghost"
+                className="w-full justify-start h-12 text-left"
+                onClick={(e) => e.stopPropagation()}
+              >
+                <Download className="mr-3 h-5 w-5" />
+                Export
+              </Button>
+            </ExportDialog>
+
+            <TimesheetDialog>
+              <Button
+                variant="ghost"
+                className="w-full justify-start h-12 text-left"
+                onClick={(e) => e.stopPropagation()}
+              >
+                <FileText className="mr-3 h-5 w-5" />
+                Monthly Timesheet
+              </Button>
+            </TimesheetDialog>
+
+            <Button
+              variant="ghost"
+              className="w-full justify-start h-12 text-left"
+              onClick={() => {
+                setIsOpen(false);
+                navigate('/import');
+              }}
+            >
+              <Upload className="mr-3 h-5 w-5" />
+              Import
+            </Button>
+
+            <Button
+              variant="ghost"
+              className="w-full justify-start h-12 text-left"
+              onClick={() => {
+                setIsOpen(false);
+                navigate('/trash');
+              }}
+            >
+              <Trash2 className="mr-3 h-5 w-5" />
+              Trash
+            </Button>
+
+            <Button
+              variant="ghost"
+              className="w-full justify-start h-12 text-left text-destructive hover:text-destructive"
+              onClick={() => {
+                setIsOpen(false);
+                signOut();
+              }}
+            >
+              <LogOut className="mr-3 h-5 w-5" />
+              Sign Out
+            </Button>
+          </div>
+        )}
       </SheetContent>
     </Sheet>
   );
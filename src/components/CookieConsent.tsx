@@ -1,35 +1,34 @@
 import { useState, useEffect } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Cookie, Shield, X } from 'lucide-react';
+import { Cookie, Shield, HardDrive } from 'lucide-react';
+import { getConsentDecision } from '@/lib/storageMode';
 
 interface CookieConsentProps {
   onAccept: () => void;
+  onDecline: () => void;
 }
 
-const CookieConsent = ({ onAccept }: CookieConsentProps) => {
+// Asks once where timer data may be kept; the decision itself is stored by
+// the handlers
+const CookieConsent = ({ onAccept, onDecline }: CookieConsentProps) => {
   const [isVisible, setIsVisible] = useState(false);
 
   useEffect(() => {
-    const consent = localStorage.getItem('workday-tracker-consent');
-    if (!consent) {
+    if (!getConsentDecision()) {
       setIsVisible(true);
-    } else {
-      onAccept();
     }
-  }, [onAccept]);
+  }, []);
 
   const handleAccept = () => {
-    localStorage.setItem('workday-tracker-consent', 'accepted');
     setIsVisible(false);
     onAccept();
   };
 
+  // Nothing is sent to the server: timer data stays in this browser only
   const handleDecline = () => {
-    localStorage.setItem('workday-tracker-consent', 'declined');
     setIsVisible(false);
-    // Still call onAccept but without storing timer data
-    onAccept();
+    onDecline();
   };
 
   if (!isVisible) return null;
@@ -50,7 +49,7 @@ const CookieConsent = ({ onAccept }: CookieConsentProps) => {
                 Data Storage Consent
               </h2>
               <p className="text-muted-foreground text-sm leading-relaxed">
-                We'd like to store your work timer data locally on your device so you can:
+                We'd like to store your work timer data in your account so you can:
               </p>
               <ul className="text-sm text-muted-foreground text-left space-y-1 mt-3">
                 <li className="flex items-center gap-2">
@@ -59,7 +58,7 @@ const CookieConsent = ({ onAccept }: CookieConsentProps) => {
                 </li>
                 <li className="flex items-center gap-2">
                   <Shield className="h-4 w-4 text-accent" />
-                  View your check-in/check-out history
+                  View your check-in/check-out history on any device
                 </li>
                 <li className="flex items-center gap-2">
                   <Shield className="h-4 w-4 text-accent" />
@@ -67,7 +66,8 @@ const CookieConsent = ({ onAccept }: CookieConsentProps) => {
                 </li>
               </ul>
               <p className="text-xs text-muted-foreground mt-3">
-                All data stays on your device. We don't collect or share any information.
+                If you decline, no account is needed and your timer data stays in this
+                browser only. You can move it to an account later.
               </p>
             </div>
 
@@ -77,7 +77,7 @@ const CookieConsent = ({ onAccept }: CookieConsentProps) => {
                 variant="outline"
                 className="flex-1"
               >
-                <X className="h-4 w-4 mr-2" />
+                <HardDrive className="h-4 w-4 mr-2" />
                 Decline
               </Button>
               <Button
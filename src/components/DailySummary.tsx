@@ -1,12 +1,33 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Calendar } from 'lucide-react';
+import { Calendar, AlertTriangle } from 'lucide-react';
 import { TimeEntry } from './TimeTable';
+import {
+  formatDateKey,
+  getWeekStartKey,
+  shiftDateKey,
+  toZonedDateKey,
+  type DisplayPreferences,
+} from '@/lib/datetime';
+import { evaluateDayCompliance, type BreakRuleSet } from '@/lib/breakRules';
+import { type WeeklySchedule } from '@/lib/schedule';
+import {
+  getOffDayFractions,
+  getTargetMs,
+  getWeekTargetMs,
+  type AbsenceSnapshot,
+} from '@/lib/absences';
+import { createEmptyDaySummary, getDayOffLabel, groupEntriesByDay } from '@/lib/dailySummary';
 
 interface DailySummaryProps {
   entries: TimeEntry[];
+  preferences: DisplayPreferences;
+  breakRules: BreakRuleSet;
+  schedule: WeeklySchedule;
+  absences: AbsenceSnapshot[];
+  holidays: Record<string, string>;
 }
 
-const DailySummary = ({ entries }: DailySummaryProps) => {
+const DailySummary = ({ entries, preferences, breakRules, schedule, absences, holidays }: DailySummaryProps) => {
   const formatDuration = (ms: number) => {
     const totalMinutes = Math.floor(ms / (1000 * 60));
     const hours = Math.floor(totalMinutes / 60);
@@ -14,8 +35,8 @@ const DailySummary = ({ entries }: DailySummaryProps) => {
     return `${hours}h ${minutes}m`;
   };
 
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', {
+  const formatDate = (dateKey: string) => {
+    return formatDateKey(dateKey, preferences, {
       weekday: 'long',
       year: 'numeric',
       month: 'long',
@@ -23,33 +44,31 @@ const DailySummary = ({ entries }: DailySummaryProps) => {
     });
   };
 
-  // Group entries by date and calculate totals
-  const dailySummaries = entries.reduce((acc, entry) => {
-    const dateKey = new Date(entry.date).toDateString();
-    if (!acc[dateKey]) {
-      acc[dateKey] = {
-        date: entry.date,
-        totalWorked: 0,
-        totalPaused: 0,
-        sessions: 0
-      };
-    }
-    acc[dateKey].totalWorked += entry.total_worked_ms;
-    acc[dateKey].totalPaused += entry.total_paused_ms;
-    acc[dateKey].sessions += 1;
-    return acc;
-  }, {} as Record<string, {
-    date: string;
-    totalWorked: number;
-    totalPaused: number;
-    sessions: number;
-  }>);
+  const todayKey = toZonedDateKey(new Date(), preferences.timezone);
+  const yesterdayKey = shiftDateKey(todayKey, -1);
+  const weekStartKey = getWeekStartKey(todayKey, preferences.weekStartsOn);
+  const offFractions = getOffDayFractions(absences, holidays);
 
-  // Convert to array and sort by date (newest first)
+  const dailySummaries = groupEntriesByDay(entries, preferences.timezone);
+
+  // Days off show up even without work, from the first tracked day until today
+  const firstDateKey = Object.keys(dailySummaries).sort()[0] ?? weekStartKey;
+  Object.keys(offFractions)
+    .filter(dateKey => dateKey >= firstDateKey && dateKey <= todayKey && !dailySummaries[dateKey])
+    .forEach(dateKey => {
+      dailySummaries[dateKey] = createEmptyDaySummary(dateKey);
+    });
+
+  // Convert to array and sort by date (newest first); date keys sort lexically
   const sortedSummaries = Object.values(dailySummaries).sort(
-    (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
+    (a, b) => b.date.localeCompare(a.date)
   );
 
+  const totalWorkedThisWeek = sortedSummaries
+    .filter(summary => summary.date >= weekStartKey)
+    .reduce((sum, summary) => sum + summary.totalWorked, 0);
+  const scheduledThisWeek = getWeekTargetMs(schedule, weekStartKey, offFractions);
+
   if (sortedSummaries.length === 0) {
     return (
       <Card className="shadow-lg">
@@ -75,28 +94,55 @@ const DailySummary = ({ entries }: DailySummaryProps) => {
           <Calendar className="h-5 w-5 text-primary" />
           Daily Work Summary
         </CardTitle>
+        {totalWorkedThisWeek > 0 && (
+          <p className="text-sm text-muted-foreground">
+            This week: {formatDuration(totalWorkedThisWeek)}
+            {scheduledThisWeek > 0 && <> of {formatDuration(scheduledThisWeek)} scheduled</>}
+          </p>
+        )}
       </CardHeader>
       <CardContent className="space-y-4">
         {sortedSummaries.slice(0, 7).map((summary, index) => {
-          const isToday = new Date(summary.date).toDateString() === new Date().toDateString();
-          const isYesterday = new Date(summary.date).toDateString() === 
-            new Date(Date.now() - 24 * 60 * 60 * 1000).toDateString();
+          const isToday = summary.date === todayKey;
+          const isYesterday = summary.date === yesterdayKey;
           
           let dateLabel = formatDate(summary.date);
           if (isToday) dateLabel = "Today";
           else if (isYesterday) dateLabel = "Yesterday";
+
+          const compliance = evaluateDayCompliance(breakRules, summary.totalWorked, summary.totalPaused);
+          const scheduledMs = getTargetMs(schedule, summary.date, offFractions);
+          const dayOff = getDayOffLabel(summary.date, absences, holidays);
           
           return (
-            <div key={summary.date} className={`p-4 rounded-lg border ${isToday ? 'bg-primary/5 border-primary/20' : 'bg-muted/50'}`}>
+            <div
+              key={summary.date}
+              className={`p-4 rounded-lg border ${
+                !compliance.isCompliant ? 'border-destructive/50' :
+                isToday ? 'bg-primary/5 border-primary/20' : 'bg-muted/50'
+              }`}
+            >
               <p className="text-sm leading-relaxed">
                 <span className={`font-semibold ${isToday ? 'text-primary' : 'text-foreground'}`}>
                   {dateLabel}
                 </span>
+                {dayOff && (
+                  <span className="ml-2 text-xs font-medium text-accent bg-accent/10 rounded px-2 py-0.5">
+                    {dayOff}
+                  </span>
+                )}
                 {' - '}
-                You worked for{' '}
-                <span className="font-bold text-accent">
-                  {formatDuration(summary.totalWorked)}
-                </span>
+                {summary.sessions === 0 ? 'No work tracked' : 'You worked for'}{' '}
+                {summary.sessions > 0 && (
+                  <span className="font-bold text-accent">
+                    {formatDuration(summary.totalWorked)}
+                  </span>
+                )}
+                {scheduledMs > 0 && (
+                  <span className="text-muted-foreground">
+                    {summary.sessions > 0 ? ' of ' : ', '}{formatDuration(scheduledMs)} scheduled
+                  </span>
+                )}
                 {summary.totalPaused > 0 && (
                   <>
                     {' '}with{' '}
@@ -113,6 +159,12 @@ const DailySummary = ({ entries }: DailySummaryProps) => {
                 )}
                 .
               </p>
+              {!compliance.isCompliant && (
+                <p className="text-xs text-destructive mt-2 flex items-center gap-1">
+                  <AlertTriangle className="h-3 w-3" />
+                  Not compliant with {breakRules.label}: {compliance.issues.map(issue => issue.message).join(', ')}
+                </p>
+              )}
             </div>
           );
         })}
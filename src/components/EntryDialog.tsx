@@ -0,0 +1,158 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Save } from 'lucide-react';
+import { toZonedDateKey, toZonedTimeString, type DisplayPreferences } from '@/lib/datetime';
+import type { ManualEntryInput } from '@/lib/manualEntries';
+import type { TimeEntry } from './TimeTable';
+
+interface EntryDialogProps {
+  children: React.ReactNode;
+  // The entry to correct; without one a new entry is added
+  entry?: TimeEntry;
+  // Times are shown and entered in the user's timezone
+  preferences: DisplayPreferences;
+  onSave: (input: ManualEntryInput) => Promise<boolean>;
+}
+
+const EntryDialog = ({ children, entry, preferences, onSave }: EntryDialogProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [dateKey, setDateKey] = useState('');
+  const [checkIn, setCheckIn] = useState('');
+  const [checkOut, setCheckOut] = useState('');
+  const [pauseHours, setPauseHours] = useState('0');
+  const [pauseMinutes, setPauseMinutes] = useState('0');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from the entry being corrected, or from an empty day
+  const resetFields = () => {
+    if (entry) {
+      const pauseTotalMinutes = Math.round(entry.total_paused_ms / (60 * 1000));
+      setDateKey(toZonedDateKey(entry.check_in, preferences.timezone));
+      setCheckIn(toZonedTimeString(entry.check_in, preferences.timezone));
+      setCheckOut(entry.check_out ? toZonedTimeString(entry.check_out, preferences.timezone) : '');
+      setPauseHours(Math.floor(pauseTotalMinutes / 60).toString());
+      setPauseMinutes((pauseTotalMinutes % 60).toString());
+    } else {
+      setDateKey(toZonedDateKey(new Date(), preferences.timezone));
+      setCheckIn('');
+      setCheckOut('');
+      setPauseHours('0');
+      setPauseMinutes('30');
+    }
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) resetFields();
+    setIsOpen(open);
+  };
+
+  const handleSave = async () => {
+    if (!dateKey || !checkIn || !checkOut) return;
+
+    setIsSaving(true);
+    const success = await onSave({
+      dateKey,
+      checkIn,
+      checkOut,
+      pauseMs: ((parseInt(pauseHours) || 0) * 60 + (parseInt(pauseMinutes) || 0)) * 60 * 1000,
+    });
+    setIsSaving(false);
+
+    if (success) {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle>{entry ? 'Edit Entry Times' : 'Add Entry'}</DialogTitle>
+          <DialogDescription>
+            {entry
+              ? 'Correct check-in, check-out and pause. Totals are recalculated.'
+              : 'Add a day you forgot to track.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="entryDate">Date</Label>
+            <Input
+              id="entryDate"
+              type="date"
+              value={dateKey}
+              onChange={(e) => setDateKey(e.target.value)}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="entryCheckIn">Check In</Label>
+              <Input
+                id="entryCheckIn"
+                type="time"
+                value={checkIn}
+                onChange={(e) => setCheckIn(e.target.value)}
+                className="font-mono"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="entryCheckOut">Check Out</Label>
+              <Input
+                id="entryCheckOut"
+                type="time"
+                value={checkOut}
+                onChange={(e) => setCheckOut(e.target.value)}
+                className="font-mono"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Pause</Label>
+            <div className="flex gap-2 items-center">
+              <Input
+                type="number"
+                min="0"
+                max="23"
+                value={pauseHours}
+                onChange={(e) => setPauseHours(e.target.value)}
+                className="text-center font-mono"
+                aria-label="Pause hours"
+              />
+              <span className="font-mono">:</span>
+              <Input
+                type="number"
+                min="0"
+                max="59"
+                value={pauseMinutes}
+                onChange={(e) => setPauseMinutes(e.target.value)}
+                className="text-center font-mono"
+                aria-label="Pause minutes"
+              />
+            </div>
+            <p className="text-sm text-muted-foreground">
+              A check-out before the check-in is counted on the next day.
+            </p>
+          </div>
+
+          <Button
+            onClick={handleSave}
+            disabled={isSaving || !dateKey || !checkIn || !checkOut}
+            className="w-full"
+          >
+            <Save className="mr-2 h-4 w-4" />
+            {isSaving ? 'Saving...' : entry ? 'Save Changes' : 'Add Entry'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EntryDialog;
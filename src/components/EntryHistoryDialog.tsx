@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ShieldCheck, ShieldAlert } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { useAuditLog } from '@/hooks/useAuditLog';
+import { formatDisplayDate, formatTimeOfDay, type DisplayPreferences } from '@/lib/datetime';
+import { getAuditActionLabel, getAuditChanges, getAuditTableLabel } from '@/lib/audit';
+import type { TimeEntry } from './TimeTable';
+
+interface EntryHistoryDialogProps {
+  children: React.ReactNode;
+  entry: TimeEntry;
+  preferences: DisplayPreferences;
+}
+
+interface EntryHistoryProps {
+  entry: TimeEntry;
+  preferences: DisplayPreferences;
+}
+
+// Mounted only while the dialog is open, so history is loaded on demand
+const EntryHistory = ({ entry, preferences }: EntryHistoryProps) => {
+  const { user } = useAuth();
+  const { records, chainStatus, loading } = useAuditLog([entry.id, entry.session_id]);
+
+  const getActorLabel = (actorId: string | null) => {
+    if (!actorId) return 'System';
+    return actorId === user?.id ? 'You' : 'Another user';
+  };
+
+  // Changes are only recorded for entries stored in an account
+  if (!user) {
+    return (
+      <p className="text-muted-foreground text-center py-4">
+        No change history is kept for entries stored on this device.
+      </p>
+    );
+  }
+
+  if (loading) {
+    return <p className="text-muted-foreground text-center py-4">Loading history...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {chainStatus === 'intact' && (
+        <p className="text-sm text-accent flex items-center gap-2">
+          <ShieldCheck className="h-4 w-4" />
+          History verified: no records have been altered.
+        </p>
+      )}
+      {chainStatus === 'broken' && (
+        <p className="text-sm text-destructive flex items-center gap-2">
+          <ShieldAlert className="h-4 w-4" />
+          Verification failed: the change history has been tampered with.
+        </p>
+      )}
+
+      {records.length === 0 ? (
+        <p className="text-muted-foreground text-center py-4">
+          No recorded changes for this entry.
+        </p>
+      ) : (
+        <ScrollArea className="h-[400px] pr-4">
+          <div className="space-y-3">
+            {records.map((record) => {
+              const changes = getAuditChanges(record, preferences);
+
+              return (
+                <div key={record.id} className="p-3 rounded-lg border bg-muted/50 space-y-1">
+                  <div className="flex justify-between text-sm">
+                    <span className="font-semibold">
+                      {getAuditTableLabel(record.table_name)} {getAuditActionLabel(record.action).toLowerCase()}
+                      <span className="font-normal text-muted-foreground"> by {getActorLabel(record.actor_id)}</span>
+                    </span>
+                    <span className="text-muted-foreground font-mono text-xs">
+                      {formatDisplayDate(record.created_at, preferences, { month: 'short', day: 'numeric' })}{' '}
+                      {formatTimeOfDay(record.created_at, preferences)}
+                    </span>
+                  </div>
+                  {changes.map((change) => (
+                    <div key={change.field} className="text-xs flex gap-2">
+                      <span className="text-muted-foreground w-28 shrink-0">{change.label}</span>
+                      {record.action === 'UPDATE' ? (
+                        <span className="font-mono">
+                          <span className="line-through text-muted-foreground">{change.before}</span>
+                          {' → '}
+                          {change.after}
+                        </span>
+                      ) : (
+                        <span className="font-mono">
+                          {record.action === 'DELETE' ? change.before : change.after}
+                        </span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+      )}
+    </div>
+  );
+};
+
+const EntryHistoryDialog = ({ children, entry, preferences }: EntryHistoryDialogProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>History of Changes</DialogTitle>
+          <DialogDescription>
+            Every change to this entry and its session, as recorded by the server.
+          </DialogDescription>
+        </DialogHeader>
+        {isOpen && <EntryHistory entry={entry} preferences={preferences} />}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EntryHistoryDialog;
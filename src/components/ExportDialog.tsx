@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import { useProfile } from '@/hooks/useProfile';
+import { useWorkEntries } from '@/hooks/useWorkEntries';
+import { toast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download } from 'lucide-react';
+import { getDisplayPreferences, toZonedDateKey } from '@/lib/datetime';
+import {
+  EXPORT_COLUMNS,
+  buildExportFile,
+  buildExportRows,
+  downloadBlob,
+  filterEntriesByRange,
+  type ExportColumnId,
+  type ExportFormat,
+} from '@/lib/export';
+
+interface ExportDialogProps {
+  children: React.ReactNode;
+}
+
+export const ExportDialog = ({ children }: ExportDialogProps) => {
+  const { profile } = useProfile();
+  const { entries } = useWorkEntries();
+  const [isOpen, setIsOpen] = useState(false);
+  const [fromKey, setFromKey] = useState('');
+  const [toKey, setToKey] = useState('');
+  const [columns, setColumns] = useState<ExportColumnId[]>(EXPORT_COLUMNS.map(column => column.id));
+  const [format, setFormat] = useState<ExportFormat>('csv');
+
+  const preferences = getDisplayPreferences(profile);
+
+  // Default to the current month up to today
+  const handleOpenChange = (open: boolean) => {
+    if (open) {
+      const todayKey = toZonedDateKey(new Date(), preferences.timezone);
+      setFromKey(`${todayKey.slice(0, 8)}01`);
+      setToKey(todayKey);
+    }
+    setIsOpen(open);
+  };
+
+  const toggleColumn = (columnId: ExportColumnId, checked: boolean) => {
+    // Keep the order of EXPORT_COLUMNS regardless of click order
+    setColumns(prev => EXPORT_COLUMNS
+      .map(column => column.id)
+      .filter(id => (id === columnId ? checked : prev.includes(id))));
+  };
+
+  const isRangeValid = !!fromKey && !!toKey && fromKey <= toKey;
+
+  const handleExport = () => {
+    if (!isRangeValid || columns.length === 0) return;
+
+    const rangeEntries = filterEntriesByRange(entries, fromKey, toKey, preferences.timezone);
+    const rows = buildExportRows(rangeEntries, columns, preferences);
+    const blob = buildExportFile(rows, format, `${fromKey} – ${toKey}`);
+    downloadBlob(blob, `timesheet_${fromKey}_${toKey}.${format}`);
+
+    toast({
+      title: "Export Ready",
+      description: `${rangeEntries.length} ${rangeEntries.length === 1 ? 'entry' : 'entries'} exported as ${format.toUpperCase()}.`,
+    });
+    setIsOpen(false);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild onClick={(e) => e.stopPropagation()}>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle>Export Entries</DialogTitle>
+          <DialogDescription>
+            Download your work entries as a spreadsheet.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="exportFrom">From</Label>
+              <Input
+                id="exportFrom"
+                type="date"
+                value={fromKey}
+                onChange={(e) => setFromKey(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="exportTo">To</Label>
+              <Input
+                id="exportTo"
+                type="date"
+                value={toKey}
+                onChange={(e) => setToKey(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Columns</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {EXPORT_COLUMNS.map(column => (
+                <div key={column.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`exportColumn-${column.id}`}
+                    checked={columns.includes(column.id)}
+                    onCheckedChange={(checked) => toggleColumn(column.id, checked === true)}
+                  />
+                  <Label htmlFor={`exportColumn-${column.id}`} className="font-normal">
+                    {column.label}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="csv">CSV</SelectItem>
+                <SelectItem value="xlsx">Excel (XLSX)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Button
+            onClick={handleExport}
+            disabled={!isRangeValid || columns.length === 0}
+            className="w-full"
+          >
+            <Download className="mr-2 h-4 w-4" />
+            Download
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,60 @@
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Scale, ChevronRight } from 'lucide-react';
+import { formatSignedDuration } from '@/lib/flextime';
+
+interface FlextimeBalanceProps {
+  balanceBeforeTodayMs: number;
+  todayDeltaMs: number;
+}
+
+const FlextimeBalance = ({ balanceBeforeTodayMs, todayDeltaMs }: FlextimeBalanceProps) => {
+  const navigate = useNavigate();
+  const currentBalanceMs = balanceBeforeTodayMs + todayDeltaMs;
+
+  const getBalanceColor = (ms: number) => {
+    return ms < 0 ? 'text-destructive' : 'text-accent';
+  };
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <Scale className="h-5 w-5 text-primary" />
+            Flextime Balance
+          </span>
+          <Button variant="ghost" size="sm" onClick={() => navigate('/flextime')}>
+            Ledger
+            <ChevronRight className="ml-1 h-4 w-4" />
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-3 gap-4 text-center">
+          <div>
+            <div className={`text-2xl font-mono font-bold ${getBalanceColor(balanceBeforeTodayMs)}`}>
+              {formatSignedDuration(balanceBeforeTodayMs)}
+            </div>
+            <div className="text-sm text-muted-foreground mt-1">Before today</div>
+          </div>
+          <div>
+            <div className={`text-2xl font-mono font-bold ${getBalanceColor(todayDeltaMs)}`}>
+              {formatSignedDuration(todayDeltaMs)}
+            </div>
+            <div className="text-sm text-muted-foreground mt-1">Today so far</div>
+          </div>
+          <div>
+            <div className={`text-2xl font-mono font-bold ${getBalanceColor(currentBalanceMs)}`}>
+              {formatSignedDuration(currentBalanceMs)}
+            </div>
+            <div className="text-sm text-muted-foreground mt-1">If you leave now</div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FlextimeBalance;
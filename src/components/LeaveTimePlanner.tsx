@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { formatTimeOfDay, type DisplayPreferences } from '@/lib/datetime';
+import { formatSignedDuration, getLeaveEarlyPlan, getPayoffPlan } from '@/lib/flextime';
+
+interface LeaveTimePlannerProps {
+  leaveTime: Date;
+  balanceMs: number;
+  requiredMs: number;
+  preferences: DisplayPreferences;
+}
+
+const SPEND_STEP_MINUTES = 15;
+const DEFAULT_PAYOFF_DAYS = 5;
+
+// Second leave time next to the regular one: leave early on a positive
+// flextime balance, or stay longer to work off a negative one
+const LeaveTimePlanner = ({ leaveTime, balanceMs, requiredMs, preferences }: LeaveTimePlannerProps) => {
+  const [spendMinutes, setSpendMinutes] = useState(0);
+  const [payoffDays, setPayoffDays] = useState(DEFAULT_PAYOFF_DAYS.toString());
+
+  const formatDuration = (ms: number) => {
+    const totalMinutes = Math.floor(ms / (1000 * 60));
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+    return `${hours}:${minutes.toString().padStart(2, '0')}`;
+  };
+
+  if (balanceMs === 0) return null;
+
+  if (balanceMs > 0) {
+    const plan = getLeaveEarlyPlan(leaveTime, balanceMs, requiredMs, spendMinutes * 60 * 1000);
+    const maxMinutes = Math.floor(plan.maxSpendMs / (60 * 1000));
+
+    return (
+      <div className="mt-4 pt-4 border-t space-y-3">
+        <div className="flex items-baseline justify-between">
+          <Label className="text-sm font-medium">Leave early using flextime</Label>
+          <span className="text-2xl font-mono font-bold text-accent">
+            {formatTimeOfDay(plan.leaveTime, preferences)}
+          </span>
+        </div>
+        <Slider
+          min={0}
+          max={maxMinutes}
+          step={Math.min(SPEND_STEP_MINUTES, Math.max(1, maxMinutes))}
+          value={[Math.min(spendMinutes, maxMinutes)]}
+          onValueChange={([value]) => setSpendMinutes(value)}
+          disabled={maxMinutes === 0}
+        />
+        <div className="flex justify-between text-xs text-muted-foreground">
+          <span>Spend {formatDuration(plan.spentMs)}</span>
+          <span>Balance afterwards {formatSignedDuration(plan.remainingBalanceMs)}</span>
+        </div>
+      </div>
+    );
+  }
+
+  const days = parseInt(payoffDays) || 0;
+  const plan = getPayoffPlan(leaveTime, balanceMs, days);
+
+  return (
+    <div className="mt-4 pt-4 border-t space-y-3">
+      <div className="flex items-baseline justify-between">
+        <Label className="text-sm font-medium">Work off {formatSignedDuration(balanceMs)}</Label>
+        <span className="text-2xl font-mono font-bold text-destructive">
+          {formatTimeOfDay(plan.leaveTime, preferences)}
+        </span>
+      </div>
+      <div className="flex items-center gap-2 text-sm">
+        <span className="text-muted-foreground">Over the next</span>
+        <Input
+          type="number"
+          min="1"
+          max="60"
+          value={payoffDays}
+          onChange={(e) => setPayoffDays(e.target.value)}
+          className="w-16 h-8 text-center font-mono"
+        />
+        <span className="text-muted-foreground">days</span>
+      </div>
+      <div className="text-xs text-muted-foreground">
+        {formatDuration(plan.extraPerDayMs)} extra per day
+      </div>
+    </div>
+  );
+};
+
+export default LeaveTimePlanner;
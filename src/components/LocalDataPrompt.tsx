@@ -0,0 +1,83 @@
+import { HardDrive, Upload, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { toast } from '@/hooks/use-toast';
+import { useLocalDataMigration } from '@/hooks/useLocalDataMigration';
+
+interface LocalDataPromptProps {
+  onMoved: () => void;
+}
+
+// Offers to move workdays recorded without an account into the signed-in one
+export const LocalDataPrompt = ({ onMoved }: LocalDataPromptProps) => {
+  const { localSessionCount, migrating, moveToAccount, discardLocalData } = useLocalDataMigration();
+
+  if (localSessionCount === 0) return null;
+
+  const handleMove = async () => {
+    if (await moveToAccount()) {
+      toast({
+        title: "Data moved",
+        description: `${localSessionCount} workday${localSessionCount === 1 ? '' : 's'} moved to your account.`,
+      });
+      onMoved();
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 pt-4">
+      <Alert>
+        <HardDrive className="h-4 w-4" />
+        <AlertTitle>Workdays saved in this browser</AlertTitle>
+        <AlertDescription className="space-y-3">
+          <p>
+            You recorded {localSessionCount} workday{localSessionCount === 1 ? '' : 's'} without an account.
+            Move them to your account to keep them on every device.
+          </p>
+          <div className="flex gap-2">
+            <Button size="sm" onClick={handleMove} disabled={migrating}>
+              <Upload className="mr-2 h-4 w-4" />
+              {migrating ? 'Moving...' : 'Move to Account'}
+            </Button>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button size="sm" variant="outline" disabled={migrating}>
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Discard
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Discard local workdays?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    The workdays saved in this browser are removed permanently.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={discardLocalData}
+                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                  >
+                    Discard
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </AlertDescription>
+      </Alert>
+    </div>
+  );
+};
@@ -1,6 +1,8 @@
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useMemo } from 'react';
 import { useProfile } from '@/hooks/useProfile';
 import { useAuth } from '@/hooks/useAuth';
+import { useAccountData } from '@/hooks/useAccountData';
+import { toast } from '@/hooks/use-toast';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -8,7 +10,35 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Camera, Save, Lock } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Camera, Save, Lock, Globe, Scale, CalendarDays, Download, Trash2 } from 'lucide-react';
+import {
+  DEFAULT_DISPLAY_PREFERENCES,
+  SUPPORTED_LOCALES,
+  WEEKDAY_OPTIONS,
+  formatTimeOfDay,
+  getAvailableTimezones,
+  getDisplayPreferences,
+  type WeekStartsOn,
+} from '@/lib/datetime';
+import { getFlextimeSettings } from '@/lib/flextime';
+import { getOrderedWeekdays, getWeeklySchedule } from '@/lib/schedule';
+import { HOLIDAY_CALENDARS, getHolidayCalendar } from '@/lib/holidays';
+import { BREAK_RULE_SETS, getBreakRuleSet, type BreakRuleSetId } from '@/lib/breakRules';
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
 
 interface ProfileDialogProps {
   children: React.ReactNode;
@@ -17,6 +47,7 @@ interface ProfileDialogProps {
 export const ProfileDialog = ({ children }: ProfileDialogProps) => {
   const { profile, updateProfile, uploadAvatar, changePassword } = useProfile();
   const { user } = useAuth();
+  const { isExporting, isDeleting, downloadPersonalData, deleteAccount } = useAccountData();
   const [displayName, setDisplayName] = useState('');
   const [currentPassword, setCurrentPassword] = useState('');
   const [newPassword, setNewPassword] = useState('');
@@ -25,7 +56,24 @@ export const ProfileDialog = ({ children }: ProfileDialogProps) => {
   const [isUpdating, setIsUpdating] = useState(false);
   const [isChangingPassword, setIsChangingPassword] = useState(false);
   const [isOpen, setIsOpen] = useState(false);
+  const [timezone, setTimezone] = useState(DEFAULT_DISPLAY_PREFERENCES.timezone);
+  const [locale, setLocale] = useState(DEFAULT_DISPLAY_PREFERENCES.locale);
+  const [hour12, setHour12] = useState(DEFAULT_DISPLAY_PREFERENCES.hour12);
+  const [weekStartsOn, setWeekStartsOn] = useState<WeekStartsOn>(DEFAULT_DISPLAY_PREFERENCES.weekStartsOn);
+  const [breakRuleSet, setBreakRuleSet] = useState<BreakRuleSetId>('none');
+  const [isSavingPreferences, setIsSavingPreferences] = useState(false);
+  const [balanceNegative, setBalanceNegative] = useState(false);
+  const [balanceHours, setBalanceHours] = useState('0');
+  const [balanceMinutes, setBalanceMinutes] = useState('0');
+  const [carryOverDate, setCarryOverDate] = useState('');
+  const [isSavingFlextime, setIsSavingFlextime] = useState(false);
+  const [schedule, setSchedule] = useState<{ hours: string; minutes: string }[]>([]);
+  const [holidayCalendar, setHolidayCalendar] = useState('none');
+  const [vacationDays, setVacationDays] = useState('25');
+  const [isSavingSchedule, setIsSavingSchedule] = useState(false);
+  const [deleteConfirmation, setDeleteConfirmation] = useState('');
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const timezones = useMemo(() => getAvailableTimezones(), []);
 
   // Update displayName when profile changes
   useEffect(() => {
@@ -34,6 +82,30 @@ export const ProfileDialog = ({ children }: ProfileDialogProps) => {
     }
   }, [profile]);
 
+  // Sync preference fields with the stored profile
+  useEffect(() => {
+    const preferences = getDisplayPreferences(profile);
+    setTimezone(preferences.timezone);
+    setLocale(preferences.locale);
+    setHour12(preferences.hour12);
+    setWeekStartsOn(preferences.weekStartsOn);
+    setBreakRuleSet(getBreakRuleSet(profile?.break_rule_set).id);
+
+    const flextime = getFlextimeSettings(profile);
+    const totalMinutes = Math.round(Math.abs(flextime.startingBalanceMs) / (60 * 1000));
+    setBalanceNegative(flextime.startingBalanceMs < 0);
+    setBalanceHours(Math.floor(totalMinutes / 60).toString());
+    setBalanceMinutes((totalMinutes % 60).toString());
+    setCarryOverDate(flextime.carryOverDateKey || '');
+
+    setSchedule(getWeeklySchedule(profile).map(minutes => ({
+      hours: Math.floor(minutes / 60).toString(),
+      minutes: (minutes % 60).toString(),
+    })));
+    setHolidayCalendar(getHolidayCalendar(profile?.holiday_calendar)?.id ?? 'none');
+    setVacationDays((profile?.vacation_days_per_year ?? 25).toString());
+  }, [profile]);
+
   const handleAvatarUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     event.stopPropagation();
     const file = event.target.files?.[0];
@@ -69,6 +141,58 @@ export const ProfileDialog = ({ children }: ProfileDialogProps) => {
     }
   };
 
+  const handleSavePreferences = async () => {
+    setIsSavingPreferences(true);
+    const result = await updateProfile({
+      timezone,
+      locale,
+      hour12,
+      week_starts_on: weekStartsOn,
+      break_rule_set: breakRuleSet,
+    });
+    setIsSavingPreferences(false);
+
+    if (result) {
+      setIsOpen(false);
+    }
+  };
+
+  const handleSaveFlextime = async () => {
+    const totalMinutes = (parseInt(balanceHours) || 0) * 60 + (parseInt(balanceMinutes) || 0);
+    const balanceMs = totalMinutes * 60 * 1000 * (balanceNegative ? -1 : 1);
+
+    setIsSavingFlextime(true);
+    const result = await updateProfile({
+      flextime_start_balance_ms: balanceMs,
+      flextime_carry_over_date: carryOverDate || null,
+    });
+    setIsSavingFlextime(false);
+
+    if (result) {
+      setIsOpen(false);
+    }
+  };
+
+  const handleScheduleChange = (weekday: number, field: 'hours' | 'minutes', value: string) => {
+    setSchedule(prev => prev.map((day, index) => index === weekday ? { ...day, [field]: value } : day));
+  };
+
+  const handleSaveSchedule = async () => {
+    setIsSavingSchedule(true);
+    const result = await updateProfile({
+      weekly_schedule_minutes: schedule.map(day =>
+        Math.min(Math.max((parseInt(day.hours) || 0) * 60 + (parseInt(day.minutes) || 0), 0), 24 * 60)
+      ),
+      holiday_calendar: holidayCalendar === 'none' ? null : holidayCalendar,
+      vacation_days_per_year: Math.max(0, parseFloat(vacationDays) || 0),
+    });
+    setIsSavingSchedule(false);
+
+    if (result) {
+      setIsOpen(false);
+    }
+  };
+
   const handleChangePassword = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -88,6 +212,18 @@ export const ProfileDialog = ({ children }: ProfileDialogProps) => {
     setIsChangingPassword(false);
   };
 
+  const handleDeleteAccount = async () => {
+    const success = await deleteAccount();
+    setDeleteConfirmation('');
+    if (success) {
+      setIsOpen(false);
+      toast({
+        title: "Account Deleted",
+        description: "Your account and all your data have been removed.",
+      });
+    }
+  };
+
   const getInitials = (name: string) => {
     return name.split(' ').map(n => n[0]).join('').toUpperCase();
   };
@@ -110,9 +246,13 @@ export const ProfileDialog = ({ children }: ProfileDialogProps) => {
         </DialogHeader>
         
         <Tabs defaultValue="profile" className="w-full">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-6">
             <TabsTrigger value="profile">Profile</TabsTrigger>
+            <TabsTrigger value="preferences">Preferences</TabsTrigger>
+            <TabsTrigger value="schedule">Schedule</TabsTrigger>
+            <TabsTrigger value="flextime">Flextime</TabsTrigger>
             <TabsTrigger value="password">Password</TabsTrigger>
+            <TabsTrigger value="privacy">Privacy</TabsTrigger>
           </TabsList>
           
           <TabsContent value="profile" className="space-y-6">
@@ -187,6 +327,254 @@ export const ProfileDialog = ({ children }: ProfileDialogProps) => {
             </Card>
           </TabsContent>
           
+          <TabsContent value="preferences" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Preferences</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="space-y-2">
+                  <Label htmlFor="timezone">Timezone</Label>
+                  <Select value={timezone} onValueChange={setTimezone}>
+                    <SelectTrigger id="timezone">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {timezones.map((zone) => (
+                        <SelectItem key={zone} value={zone}>
+                          {zone.replace(/_/g, ' ')}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="locale">Language & Region</Label>
+                  <Select value={locale} onValueChange={setLocale}>
+                    <SelectTrigger id="locale">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SUPPORTED_LOCALES.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="weekStartsOn">First Day of Week</Label>
+                  <Select
+                    value={weekStartsOn.toString()}
+                    onValueChange={(value) => setWeekStartsOn(parseInt(value) as WeekStartsOn)}
+                  >
+                    <SelectTrigger id="weekStartsOn">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {WEEKDAY_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value.toString()}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <div className="space-y-1">
+                    <Label htmlFor="hour12">12-hour clock</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Example: {formatTimeOfDay(new Date(), { timezone, locale, hour12, weekStartsOn })}
+                    </p>
+                  </div>
+                  <Switch id="hour12" checked={hour12} onCheckedChange={setHour12} />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="breakRuleSet">Break Rules</Label>
+                  <Select value={breakRuleSet} onValueChange={(value) => setBreakRuleSet(value as BreakRuleSetId)}>
+                    <SelectTrigger id="breakRuleSet">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.values(BREAK_RULE_SETS).map((ruleSet) => (
+                        <SelectItem key={ruleSet.id} value={ruleSet.id}>
+                          {ruleSet.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-sm text-muted-foreground">
+                    Mandatory breaks extend your leave time; the daily maximum triggers a warning.
+                  </p>
+                </div>
+
+                <Button 
+                  onClick={handleSavePreferences} 
+                  disabled={isSavingPreferences}
+                  className="w-full"
+                >
+                  <Globe className="mr-2 h-4 w-4" />
+                  {isSavingPreferences ? 'Saving...' : 'Save Preferences'}
+                </Button>
+              </CardContent>
+            </Card>
+          </TabsContent>
+          
+          <TabsContent value="schedule" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Weekly Schedule</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="space-y-2">
+                  {schedule.length === 7 && getOrderedWeekdays(weekStartsOn).map(weekday => (
+                    <div key={weekday} className="flex gap-2 items-center">
+                      <Label className="w-28">{WEEKDAY_NAMES[weekday]}</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        max="24"
+                        value={schedule[weekday].hours}
+                        onChange={(e) => handleScheduleChange(weekday, 'hours', e.target.value)}
+                        className="text-center font-mono"
+                        aria-label={`${WEEKDAY_NAMES[weekday]} hours`}
+                      />
+                      <span className="font-mono">:</span>
+                      <Input
+                        type="number"
+                        min="0"
+                        max="59"
+                        value={schedule[weekday].minutes}
+                        onChange={(e) => handleScheduleChange(weekday, 'minutes', e.target.value)}
+                        className="text-center font-mono"
+                        aria-label={`${WEEKDAY_NAMES[weekday]} minutes`}
+                      />
+                    </div>
+                  ))}
+                  <p className="text-sm text-muted-foreground">
+                    Required work time per day. Used to prefill new sessions and as the daily and weekly target.
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Public Holidays</Label>
+                  <Select value={holidayCalendar} onValueChange={setHolidayCalendar}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No public holidays</SelectItem>
+                      {Object.values(HOLIDAY_CALENDARS).map((calendar) => (
+                        <SelectItem key={calendar.id} value={calendar.id}>
+                          {calendar.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-sm text-muted-foreground">
+                    Holidays of the selected region need no work.
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="vacationDays">Vacation Days per Year</Label>
+                  <Input
+                    id="vacationDays"
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    value={vacationDays}
+                    onChange={(e) => setVacationDays(e.target.value)}
+                  />
+                </div>
+
+                <Button 
+                  onClick={handleSaveSchedule} 
+                  disabled={isSavingSchedule}
+                  className="w-full"
+                >
+                  <CalendarDays className="mr-2 h-4 w-4" />
+                  {isSavingSchedule ? 'Saving...' : 'Save Schedule'}
+                </Button>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="flextime" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Flextime Balance</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="space-y-2">
+                  <Label>Starting Balance</Label>
+                  <div className="flex gap-2 items-center">
+                    <Select
+                      value={balanceNegative ? 'minus' : 'plus'}
+                      onValueChange={(value) => setBalanceNegative(value === 'minus')}
+                    >
+                      <SelectTrigger className="w-20">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="plus">+</SelectItem>
+                        <SelectItem value="minus">−</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      min="0"
+                      value={balanceHours}
+                      onChange={(e) => setBalanceHours(e.target.value)}
+                      className="text-center font-mono"
+                      aria-label="Hours"
+                    />
+                    <span className="font-mono">:</span>
+                    <Input
+                      type="number"
+                      min="0"
+                      max="59"
+                      value={balanceMinutes}
+                      onChange={(e) => setBalanceMinutes(e.target.value)}
+                      className="text-center font-mono"
+                      aria-label="Minutes"
+                    />
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    Overtime or undertime carried over from before you started tracking.
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="carryOverDate">Carry-over Date</Label>
+                  <Input
+                    id="carryOverDate"
+                    type="date"
+                    value={carryOverDate}
+                    onChange={(e) => setCarryOverDate(e.target.value)}
+                  />
+                  <p className="text-sm text-muted-foreground">
+                    Days before this date are not counted. Leave empty to count all history.
+                  </p>
+                </div>
+
+                <Button 
+                  onClick={handleSaveFlextime} 
+                  disabled={isSavingFlextime}
+                  className="w-full"
+                >
+                  <Scale className="mr-2 h-4 w-4" />
+                  {isSavingFlextime ? 'Saving...' : 'Save Flextime Settings'}
+                </Button>
+              </CardContent>
+            </Card>
+          </TabsContent>
+          
           <TabsContent value="password" className="space-y-6">
             <Card>
               <CardHeader>
@@ -243,6 +631,74 @@ export const ProfileDialog = ({ children }: ProfileDialogProps) => {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="privacy" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Your Data</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  Download everything stored about you: profile, sessions, entries, breaks, absences,
+                  change history and your avatar, as a ZIP archive with a JSON file.
+                </p>
+                <Button
+                  variant="outline"
+                  onClick={downloadPersonalData}
+                  disabled={isExporting}
+                  className="w-full"
+                >
+                  <Download className="mr-2 h-4 w-4" />
+                  {isExporting ? 'Preparing...' : 'Download All My Data'}
+                </Button>
+              </CardContent>
+            </Card>
+
+            <Card className="border-destructive/50">
+              <CardHeader>
+                <CardTitle className="text-destructive">Delete Account</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  Permanently deletes your account with all sessions, entries, absences and your avatar.
+                  This cannot be undone.
+                </p>
+                <AlertDialog onOpenChange={() => setDeleteConfirmation('')}>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="destructive" disabled={isDeleting} className="w-full">
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      {isDeleting ? 'Deleting...' : 'Delete Account'}
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete your account?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        All your data is removed permanently. Download it first if you want to keep a copy.
+                        Type DELETE to confirm.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <Input
+                      value={deleteConfirmation}
+                      onChange={(e) => setDeleteConfirmation(e.target.value)}
+                      placeholder="DELETE"
+                      aria-label="Confirmation"
+                    />
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction
+                        onClick={handleDeleteAccount}
+                        disabled={deleteConfirmation !== 'DELETE'}
+                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                      >
+                        Delete Account
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </CardContent>
+            </Card>
+          </TabsContent>
         </Tabs>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,89 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Save } from 'lucide-react';
+import { formatDisplayDate, formatTimeOfDay, toZonedTimeString, type DisplayPreferences } from '@/lib/datetime';
+import type { TimeEntry } from './TimeTable';
+
+interface StaleSessionDialogProps {
+  // Entries that were closed because nobody checked out
+  entries: TimeEntry[];
+  preferences: DisplayPreferences;
+  // The real check-out as "HH:MM"; before the check-in means the next day
+  onResolve: (entryId: string, checkOut: string) => Promise<boolean>;
+}
+
+// Asks for the real check-out of each workday that was closed automatically
+const StaleSessionDialog = ({ entries, preferences, onResolve }: StaleSessionDialogProps) => {
+  const [dismissedIds, setDismissedIds] = useState<string[]>([]);
+  const [checkOut, setCheckOut] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const entry = entries.find(candidate => !dismissedIds.includes(candidate.id));
+
+  // Start from the estimated check-out, in the zone the text above shows it in
+  useEffect(() => {
+    setCheckOut(entry?.check_out ? toZonedTimeString(entry.check_out, preferences.timezone) : '');
+  }, [entry?.id]);
+
+  if (!entry) return null;
+
+  const dismiss = () => {
+    setDismissedIds(prev => [...prev, entry.id]);
+  };
+
+  const handleSave = async () => {
+    if (!checkOut) return;
+
+    setIsSaving(true);
+    const success = await onResolve(entry.id, checkOut);
+    setIsSaving(false);
+
+    if (success) {
+      dismiss();
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && dismiss()}>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle>When did you check out?</DialogTitle>
+          <DialogDescription>
+            Your workday on {formatDisplayDate(entry.check_in, preferences, { weekday: 'long', month: 'short', day: 'numeric' })} was
+            still running, so it was closed at {entry.check_out ? formatTimeOfDay(entry.check_out, preferences) : 'an estimated time'}.
+            Enter when you actually left to correct it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="staleCheckOut">Check Out</Label>
+          <Input
+            id="staleCheckOut"
+            type="time"
+            value={checkOut}
+            onChange={(e) => setCheckOut(e.target.value)}
+            className="font-mono"
+          />
+          <p className="text-sm text-muted-foreground">
+            Checked in at {formatTimeOfDay(entry.check_in, preferences)}. A check-out before that is counted on the next day.
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={dismiss} disabled={isSaving}>
+            Later
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !checkOut}>
+            <Save className="mr-2 h-4 w-4" />
+            {isSaving ? 'Saving...' : 'Save Check-Out'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StaleSessionDialog;
@@ -0,0 +1,46 @@
+import { AlertTriangle, Cloud, CloudOff, RefreshCw } from 'lucide-react';
+import { useSyncStatus } from '@/hooks/useSyncStatus';
+
+// Whether changes have reached the server, shown in the header
+export const SyncIndicator = () => {
+  const { status, pendingCount, failedCount, dismissFailures } = useSyncStatus();
+
+  if (status === 'offline') {
+    return (
+      <span className="flex items-center gap-1.5 text-sm text-orange-600">
+        <CloudOff className="h-4 w-4" />
+        Offline{pendingCount > 0 && ` · ${pendingCount} pending`}
+      </span>
+    );
+  }
+
+  if (status === 'syncing') {
+    return (
+      <span className="flex items-center gap-1.5 text-sm text-muted-foreground">
+        <RefreshCw className="h-4 w-4 animate-spin" />
+        Syncing
+      </span>
+    );
+  }
+
+  if (status === 'failed') {
+    return (
+      <button
+        type="button"
+        onClick={dismissFailures}
+        title="Dismiss"
+        className="flex items-center gap-1.5 text-sm text-destructive"
+      >
+        <AlertTriangle className="h-4 w-4" />
+        {failedCount} not saved
+      </button>
+    );
+  }
+
+  return (
+    <span className="flex items-center gap-1.5 text-sm text-muted-foreground">
+      <Cloud className="h-4 w-4" />
+      Synced
+    </span>
+  );
+};
@@ -2,11 +2,23 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Clock, Calendar, TrendingUp, Edit2, Trash2, Check, X } from 'lucide-react';
-import { useState } from 'react';
+import { Clock, Calendar, TrendingUp, Edit2, Trash2, Check, X, ChevronDown, ChevronRight, Plus, CalendarClock, History } from 'lucide-react';
+import { Fragment, useState } from 'react';
+import type { WorkSegment } from '@/hooks/useWorkSegments';
+import type { ManualEntryInput } from '@/lib/manualEntries';
+import EntryDialog from './EntryDialog';
+import EntryHistoryDialog from './EntryHistoryDialog';
+import { getSegmentTotals, sortSegments } from '@/lib/timeEngine';
+import {
+  formatDisplayDate,
+  formatTimeOfDay,
+  toZonedDateKey,
+  type DisplayPreferences,
+} from '@/lib/datetime';
 
 export interface TimeEntry {
   id: string;
+  session_id: string;
   name?: string; // Optional custom name for the entry
   date: string;
   check_in: string;
@@ -18,13 +30,18 @@ export interface TimeEntry {
 
 interface TimeTableProps {
   entries: TimeEntry[];
+  segments: WorkSegment[];
+  preferences: DisplayPreferences;
   onRename: (entryId: string, newName: string) => void;
   onDelete: (entryId: string) => void;
+  onCreate: (input: ManualEntryInput) => Promise<boolean>;
+  onEditTimes: (entryId: string, input: ManualEntryInput) => Promise<boolean>;
 }
 
-const TimeTable = ({ entries, onRename, onDelete }: TimeTableProps) => {
+const TimeTable = ({ entries, segments, preferences, onRename, onDelete, onCreate, onEditTimes }: TimeTableProps) => {
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editName, setEditName] = useState<string>('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
   const formatDuration = (ms: number) => {
     const totalMinutes = Math.floor(ms / (1000 * 60));
     const hours = Math.floor(totalMinutes / 60);
@@ -33,15 +50,11 @@ const TimeTable = ({ entries, onRename, onDelete }: TimeTableProps) => {
   };
 
   const formatTime = (timeString: string) => {
-    return new Date(timeString).toLocaleTimeString('en-US', {
-      hour: '2-digit',
-      minute: '2-digit',
-      hour12: false
-    });
+    return formatTimeOfDay(timeString, preferences);
   };
 
   const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', {
+    return formatDisplayDate(dateString, preferences, {
       weekday: 'short',
       month: 'short',
       day: 'numeric'
@@ -57,6 +70,8 @@ const TimeTable = ({ entries, onRename, onDelete }: TimeTableProps) => {
         return `${baseClasses} bg-success-glow/20 text-success-glow`;
       case 'paused':
         return `${baseClasses} bg-orange-500/20 text-orange-600`;
+      case 'auto-closed':
+        return `${baseClasses} bg-destructive/15 text-destructive`;
       default:
         return `${baseClasses} bg-muted text-muted-foreground`;
     }
@@ -80,23 +95,73 @@ const TimeTable = ({ entries, onRename, onDelete }: TimeTableProps) => {
     setEditName('');
   };
 
-  const handleDelete = (entryId: string) => {
-    if (confirm('Are you sure you want to delete this work session?')) {
-      onDelete(entryId);
-    }
+  const getEntrySegments = (entryId: string) => {
+    return sortSegments(segments.filter(segment => segment.entry_id === entryId));
+  };
+
+  const toggleExpanded = (entryId: string) => {
+    setExpandedId(prev => prev === entryId ? null : entryId);
   };
 
+  // Day view: segments in order with the gaps between them shown as breaks
+  const renderDayView = (entrySegments: WorkSegment[]) => {
+    const now = new Date();
+    const { workedMs, breakMs, gaps } = getSegmentTotals(entrySegments, now);
+
+    return (
+      <div className="space-y-1 py-2">
+        {entrySegments.map((segment, index) => (
+          <Fragment key={segment.id}>
+            <div className="flex justify-between text-sm">
+              <span className="font-mono">
+                {formatTime(segment.check_in)} – {segment.check_out ? formatTime(segment.check_out) : 'now'}
+              </span>
+              <span className="font-mono font-semibold">
+                {formatDuration(getSegmentTotals([segment], now).workedMs)}
+              </span>
+            </div>
+            {gaps[index] && (
+              <div className="flex justify-between text-sm text-orange-600 pl-4">
+                <span>Break {formatTime(gaps[index].start.toISOString())} – {formatTime(gaps[index].end.toISOString())}</span>
+                <span className="font-mono">{formatDuration(gaps[index].durationMs)}</span>
+              </div>
+            )}
+          </Fragment>
+        ))}
+        <div className="flex justify-between text-sm text-muted-foreground border-t pt-1 mt-1">
+          <span>{entrySegments.length} segment{entrySegments.length === 1 ? '' : 's'}</span>
+          <span className="font-mono">
+            {formatDuration(workedMs)} worked • {formatDuration(breakMs)} breaks
+          </span>
+        </div>
+      </div>
+    );
+  };
+
+  const todayKey = toZonedDateKey(new Date(), preferences.timezone);
   const totalWorkedToday = entries
-    .filter(entry => new Date(entry.date).toDateString() === new Date().toDateString())
+    .filter(entry => toZonedDateKey(entry.date, preferences.timezone) === todayKey)
     .reduce((sum, entry) => sum + entry.total_worked_ms, 0);
 
+  const addEntryButton = (
+    <EntryDialog preferences={preferences} onSave={onCreate}>
+      <Button size="sm" variant="outline">
+        <Plus className="mr-1 h-4 w-4" />
+        Add Entry
+      </Button>
+    </EntryDialog>
+  );
+
   if (entries.length === 0) {
     return (
       <Card className="shadow-lg">
         <CardHeader>
-          <CardTitle className="text-lg flex items-center gap-2">
-            <Calendar className="h-5 w-5 text-primary" />
-            Work History
+          <CardTitle className="text-lg flex items-center justify-between">
+            <span className="flex items-center gap-2">
+              <Calendar className="h-5 w-5 text-primary" />
+              Work History
+            </span>
+            {addEntryButton}
           </CardTitle>
         </CardHeader>
         <CardContent>
@@ -113,9 +178,12 @@ const TimeTable = ({ entries, onRename, onDelete }: TimeTableProps) => {
   return (
     <Card className="shadow-lg">
       <CardHeader>
-        <CardTitle className="text-lg flex items-center gap-2">
-          <Calendar className="h-5 w-5 text-primary" />
-          Work History
+        <CardTitle className="text-lg flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <Calendar className="h-5 w-5 text-primary" />
+            Work History
+          </span>
+          {addEntryButton}
         </CardTitle>
         {totalWorkedToday > 0 && (
           <div className="flex items-center gap-2 text-sm text-muted-foreground">
@@ -139,77 +207,127 @@ const TimeTable = ({ entries, onRename, onDelete }: TimeTableProps) => {
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {entries.slice(-10).reverse().map((entry) => (
-                  <TableRow key={entry.id}>
-                    <TableCell className="font-medium">
-                      {editingId === entry.id ? (
-                        <div className="flex gap-2 items-center">
-                          <Input
-                            value={editName}
-                            onChange={(e) => setEditName(e.target.value)}
-                            className="h-8 text-sm"
-                            onKeyDown={(e) => {
-                              if (e.key === 'Enter') saveEdit();
-                              if (e.key === 'Escape') cancelEdit();
-                            }}
-                          />
-                          <Button size="sm" variant="ghost" onClick={saveEdit} className="h-8 w-8 p-0">
-                            <Check className="h-4 w-4" />
-                          </Button>
-                          <Button size="sm" variant="ghost" onClick={cancelEdit} className="h-8 w-8 p-0">
-                            <X className="h-4 w-4" />
-                          </Button>
-                        </div>
-                      ) : (
-                        <div>
-                          <div className="font-medium">
-                            {entry.name || `Session ${formatDate(entry.date)}`}
+                {entries.slice(-10).reverse().map((entry) => {
+                  const entrySegments = getEntrySegments(entry.id);
+                  const isExpanded = expandedId === entry.id;
+
+                  return (
+                    <Fragment key={entry.id}>
+                    <TableRow>
+                      <TableCell className="font-medium">
+                        {editingId === entry.id ? (
+                          <div className="flex gap-2 items-center">
+                            <Input
+                              value={editName}
+                              onChange={(e) => setEditName(e.target.value)}
+                              className="h-8 text-sm"
+                              onKeyDown={(e) => {
+                                if (e.key === 'Enter') saveEdit();
+                                if (e.key === 'Escape') cancelEdit();
+                              }}
+                            />
+                            <Button size="sm" variant="ghost" onClick={saveEdit} className="h-8 w-8 p-0">
+                              <Check className="h-4 w-4" />
+                            </Button>
+                            <Button size="sm" variant="ghost" onClick={cancelEdit} className="h-8 w-8 p-0">
+                              <X className="h-4 w-4" />
+                            </Button>
                           </div>
-                          <div className="text-sm text-muted-foreground">
-                            {formatDate(entry.date)}
+                        ) : (
+                          <div className="flex items-start gap-1">
+                            {entrySegments.length > 0 && (
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => toggleExpanded(entry.id)}
+                                className="h-6 w-6 p-0"
+                              >
+                                {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                              </Button>
+                            )}
+                            <div>
+                              <div className="font-medium">
+                                {entry.name || `Session ${formatDate(entry.date)}`}
+                              </div>
+                              <div className="text-sm text-muted-foreground">
+                                {formatDate(entry.date)}
+                              </div>
+                            </div>
                           </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="font-mono">
+                        {formatTime(entry.check_in)}
+                      </TableCell>
+                      <TableCell className="font-mono">
+                        {entry.check_out ? formatTime(entry.check_out) : '-'}
+                      </TableCell>
+                      <TableCell className="font-mono font-semibold">
+                        {formatDuration(entry.total_worked_ms)}
+                      </TableCell>
+                      <TableCell className="font-mono text-orange-600">
+                        {formatDuration(entry.total_paused_ms)}
+                      </TableCell>
+                      <TableCell>
+                        <span className={getStatusBadge(entry.status)}>
+                          {entry.status}
+                        </span>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => startEdit(entry)}
+                            className="h-8 w-8 p-0"
+                          >
+                            <Edit2 className="h-4 w-4" />
+                          </Button>
+                          {entry.check_out && (
+                            <EntryDialog
+                              entry={entry}
+                              preferences={preferences}
+                              onSave={(input) => onEditTimes(entry.id, input)}
+                            >
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                className="h-8 w-8 p-0"
+                              >
+                                <CalendarClock className="h-4 w-4" />
+                              </Button>
+                            </EntryDialog>
+                          )}
+                          <EntryHistoryDialog entry={entry} preferences={preferences}>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-8 w-8 p-0"
+                            >
+                              <History className="h-4 w-4" />
+                            </Button>
+                          </EntryHistoryDialog>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => onDelete(entry.id)}
+                            className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
                         </div>
-                      )}
-                    </TableCell>
-                    <TableCell className="font-mono">
-                      {formatTime(entry.check_in)}
-                    </TableCell>
-                    <TableCell className="font-mono">
-                      {entry.check_out ? formatTime(entry.check_out) : '-'}
-                    </TableCell>
-                    <TableCell className="font-mono font-semibold">
-                      {formatDuration(entry.total_worked_ms)}
-                    </TableCell>
-                    <TableCell className="font-mono text-orange-600">
-                      {formatDuration(entry.total_paused_ms)}
-                    </TableCell>
-                    <TableCell>
-                      <span className={getStatusBadge(entry.status)}>
-                        {entry.status}
-                      </span>
-                    </TableCell>
-                    <TableCell>
-                      <div className="flex gap-1">
-                        <Button
-                          size="sm"
-                          variant="ghost"
-                          onClick={() => startEdit(entry)}
-                          className="h-8 w-8 p-0"
-                        >
-                          <Edit2 className="h-4 w-4" />
-                        </Button>
-                        <Button
-                          size="sm"
-                          variant="ghost"
-                          onClick={() => handleDelete(entry.id)}
-                          className="h-8 w-8 p-0 text-destructive hover:text-destructive"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      </div>
-                    </TableCell>
-                  </TableRow>
-                ))}
+                      </TableCell>
+                    </TableRow>
+                    {isExpanded && (
+                      <TableRow className="bg-muted/30 hover:bg-muted/30">
+                        <TableCell colSpan={7}>
+                          {renderDayView(entrySegments)}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                    </Fragment>
+                  );
+                })}
               </TableBody>
           </Table>
         </div>
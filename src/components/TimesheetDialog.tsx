@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { useProfile } from '@/hooks/useProfile';
+import { useWorkEntries } from '@/hooks/useWorkEntries';
+import { useAbsences } from '@/hooks/useAbsences';
+import { toast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { FileText } from 'lucide-react';
+import { getDisplayPreferences, toZonedDateKey } from '@/lib/datetime';
+import { getHolidayCalendar, getHolidayMap, getYearsToCover } from '@/lib/holidays';
+import { getOffDayFractions } from '@/lib/absences';
+import { getWeeklySchedule } from '@/lib/schedule';
+import { buildDailyTotals, buildFlextimeLedger, getFlextimeSettings } from '@/lib/flextime';
+import { buildMonthlyTimesheet, renderTimesheetPdf } from '@/lib/timesheet';
+import { downloadBlob } from '@/lib/export';
+
+interface TimesheetDialogProps {
+  children: React.ReactNode;
+}
+
+export const TimesheetDialog = ({ children }: TimesheetDialogProps) => {
+  const { profile } = useProfile();
+  const { entries, loading: entriesLoading } = useWorkEntries();
+  const { absences, loading: absencesLoading } = useAbsences();
+  const [isOpen, setIsOpen] = useState(false);
+  const [monthKey, setMonthKey] = useState('');
+
+  const preferences = getDisplayPreferences(profile);
+  const isLoading = entriesLoading || absencesLoading;
+
+  // Default to the current month
+  const handleOpenChange = (open: boolean) => {
+    if (open) {
+      setMonthKey(toZonedDateKey(new Date(), preferences.timezone).slice(0, 7));
+    }
+    setIsOpen(open);
+  };
+
+  const handleDownload = () => {
+    if (!monthKey) return;
+
+    const todayKey = toZonedDateKey(new Date(), preferences.timezone);
+    const holidays = getHolidayMap(
+      getHolidayCalendar(profile?.holiday_calendar),
+      getYearsToCover([...entries.map(entry => entry.date.slice(0, 10)), `${monthKey}-01`, profile?.flextime_carry_over_date].filter(Boolean), todayKey)
+    );
+    const offFractions = getOffDayFractions(absences, holidays);
+    const flextimeSettings = getFlextimeSettings(profile);
+    const dailyTotals = buildDailyTotals(
+      entries,
+      getWeeklySchedule(profile),
+      preferences.timezone,
+      offFractions,
+      flextimeSettings,
+      todayKey
+    );
+    const ledger = buildFlextimeLedger(dailyTotals, flextimeSettings);
+
+    const timesheet = buildMonthlyTimesheet({
+      monthKey,
+      entries,
+      preferences,
+      absences,
+      holidays,
+      dailyTotals,
+      ledger: ledger.days,
+      flextimeSettings,
+    });
+    downloadBlob(
+      renderTimesheetPdf(timesheet, profile?.display_name || 'Employee', preferences),
+      `timesheet_${monthKey}.pdf`
+    );
+
+    toast({
+      title: "Timesheet Ready",
+      description: "Print it and have it signed by you and your manager.",
+    });
+    setIsOpen(false);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild onClick={(e) => e.stopPropagation()}>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle>Monthly Timesheet</DialogTitle>
+          <DialogDescription>
+            A PDF with every day of the month, weekly subtotals, your flextime balance and signature lines.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="timesheetMonth">Month</Label>
+            <Input
+              id="timesheetMonth"
+              type="month"
+              value={monthKey}
+              onChange={(e) => setMonthKey(e.target.value)}
+            />
+          </div>
+
+          <Button
+            onClick={handleDownload}
+            disabled={isLoading || !monthKey}
+            className="w-full"
+          >
+            <FileText className="mr-2 h-4 w-4" />
+            {isLoading ? 'Loading...' : 'Download PDF'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -3,13 +3,59 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Clock, Play, Pause, RotateCcw, Timer, Target, AlertCircle, Plus, Calendar, History } from 'lucide-react';
+import { Clock, Play, Pause, RotateCcw, Timer, Target, AlertCircle, AlertTriangle, Plus, Calendar, History } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { toast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
 import { useAuth } from '@/hooks/useAuth';
 import { useWorkSession } from '@/hooks/useWorkSession';
 import { useWorkEntries, type WorkEntry } from '@/hooks/useWorkEntries';
+import { useProfile } from '@/hooks/useProfile';
+import { useWorkSegments } from '@/hooks/useWorkSegments';
+import { useWorkBreaks, type WorkBreakUpdates } from '@/hooks/useWorkBreaks';
+import { useAbsences } from '@/hooks/useAbsences';
 import TimeTable, { type TimeEntry } from './TimeTable';
 import DailySummary from './DailySummary';
+import BreakTimeline from './BreakTimeline';
+import FlextimeBalance from './FlextimeBalance';
+import LeaveTimePlanner from './LeaveTimePlanner';
+import StaleSessionDialog from './StaleSessionDialog';
+import {
+  calculateSessionStats,
+  completionTransition,
+  createManualBreak,
+  getAutoCloseTime,
+  getSessionTotals,
+  pauseTransition,
+  resolveArrival,
+  resumeTransition,
+  toDurationMs,
+  validateBreak,
+} from '@/lib/timeEngine';
+import { evaluateSessionCompliance, getBreakRuleSet } from '@/lib/breakRules';
+import {
+  formatDisplayDate,
+  formatTimeOfDay,
+  getDisplayPreferences,
+  getRelativeDayLabel,
+  toZonedDateKey,
+  toZonedTimeString,
+} from '@/lib/datetime';
+import { buildDailyTotals, buildFlextimeLedger, getBalanceBefore, getFlextimeSettings } from '@/lib/flextime';
+import { getWeeklySchedule } from '@/lib/schedule';
+import { getHolidayCalendar, getHolidayMap, getYearsToCover } from '@/lib/holidays';
+import { getOffDayFractions, getTargetMs } from '@/lib/absences';
+import {
+  fitSegments,
+  getManualEntryTotals,
+  reconcileBreaks,
+  resolveManualEntry,
+  validateManualEntry,
+  type ManualEntryInput,
+} from '@/lib/manualEntries';
+
+// How often the running entry's stored totals are refreshed
+const TOTALS_HEARTBEAT_MS = 5 * 60 * 1000;
 
 interface TimeInput {
   hours: string;
@@ -28,14 +74,70 @@ interface TimerState {
 
 const WorkdayTracker = () => {
   const { user } = useAuth();
-  const { currentSession, loading: sessionLoading, createSession, updateSession, completeSession } = useWorkSession();
-  const { entries, loading: entriesLoading, createEntry, updateEntry, deleteEntry, renameEntry } = useWorkEntries();
+  const {
+    currentSession,
+    staleSessions,
+    loading: sessionLoading,
+    createSession,
+    createCompletedSession,
+    updateSession,
+    updateSessionById,
+    completeSession,
+    startSessionOnServer,
+    pauseSessionOnServer,
+    resumeSessionOnServer,
+    completeSessionOnServer,
+    closeStaleSessionsOnServer,
+  } = useWorkSession();
+  const {
+    entries,
+    loading: entriesLoading,
+    createEntry,
+    updateEntry,
+    deleteEntry,
+    restoreEntry,
+    renameEntry,
+    refreshEntries,
+  } = useWorkEntries();
+  const {
+    segments,
+    loading: segmentsLoading,
+    createSegment,
+    openSegment,
+    closeOpenSegment,
+    updateSegment,
+    deleteSegment,
+    refreshSegments,
+  } = useWorkSegments();
+  const {
+    breaks,
+    loading: breaksLoading,
+    createBreak,
+    updateBreak,
+    endOpenBreak,
+    deleteBreak,
+    refreshBreaks,
+  } = useWorkBreaks();
+  const { absences } = useAbsences();
+  const { profile } = useProfile();
+  const preferences = getDisplayPreferences(profile);
+  const breakRules = getBreakRuleSet(profile?.break_rule_set);
+  const schedule = getWeeklySchedule(profile);
+  const holidays = getHolidayMap(
+    getHolidayCalendar(profile?.holiday_calendar),
+    getYearsToCover(
+      [...entries.map(entry => entry.date.slice(0, 10)), profile?.flextime_carry_over_date].filter(Boolean),
+      toZonedDateKey(new Date(), preferences.timezone)
+    )
+  );
+  const offFractions = getOffDayFractions(absences, holidays);
   
   const [arrivalTime, setArrivalTime] = useState<TimeInput>({ hours: '', minutes: '' });
   const [requiredWorkTime, setRequiredWorkTime] = useState<TimeInput>({ hours: '8', minutes: '0' });
   const [manualPauseTime, setManualPauseTime] = useState<TimeInput>({ hours: '0', minutes: '0' });
   const [currentTime, setCurrentTime] = useState(new Date());
   const currentEntryId = useRef<string | null>(null);
+  const closingStaleSessions = useRef(false);
 
   // Update current time every second
   useEffect(() => {
@@ -45,6 +147,20 @@ const WorkdayTracker = () => {
     return () => clearInterval(interval);
   }, []);
 
+  // Prefill the required work time from today's entry in the weekly schedule,
+  // less any part of the day taken off
+  useEffect(() => {
+    if (currentSession || !profile) return;
+
+    const scheduledMinutes = Math.round(
+      getTargetMs(schedule, toZonedDateKey(new Date(), preferences.timezone), offFractions) / (60 * 1000)
+    );
+    setRequiredWorkTime({
+      hours: Math.floor(scheduledMinutes / 60).toString(),
+      minutes: (scheduledMinutes % 60).toString().padStart(2, '0'),
+    });
+  }, [currentSession, profile, absences]);
+
   // Initialize arrival time from current session and find current entry
   useEffect(() => {
     if (currentSession) {
@@ -66,9 +182,24 @@ const WorkdayTracker = () => {
           console.log('Found active entry:', activeEntry.id);
         }
       }
+    } else {
+      // The workday may have been completed on another device
+      currentEntryId.current = null;
     }
   }, [currentSession, entries]);
 
+  // Close sessions of earlier shifts that were never checked out of, once
+  // their records are loaded; the user is then asked for the real check-out
+  useEffect(() => {
+    if (staleSessions.length === 0 || entriesLoading || segmentsLoading || breaksLoading) return;
+    if (closingStaleSessions.current) return;
+
+    closingStaleSessions.current = true;
+    closeStaleSessions().finally(() => {
+      closingStaleSessions.current = false;
+    });
+  }, [staleSessions, entriesLoading, segmentsLoading, breaksLoading]);
+
   // Get current timer state from session
   const getTimerState = (): TimerState => {
     if (!currentSession) {
@@ -96,6 +227,12 @@ const WorkdayTracker = () => {
 
   const timer = getTimerState();
   const isSetupComplete = !!currentSession;
+  const sessionSegments = currentSession
+    ? segments.filter(segment => segment.session_id === currentSession.id)
+    : [];
+  const sessionBreaks = currentSession
+    ? breaks.filter(workBreak => workBreak.session_id === currentSession.id)
+    : [];
 
   const updateCurrentEntry = async (entryData: Partial<WorkEntry>) => {
     if (!currentEntryId.current) return;
@@ -105,54 +242,48 @@ const WorkdayTracker = () => {
   // Calculate real-time values
   const calculateCurrentStats = () => {
     if (!isSetupComplete || !currentSession) return null;
+    return calculateSessionStats(currentSession, () => currentTime, sessionBreaks);
+  };
 
-    // Use session data for calculations
-    const sessionArrivalTime = currentSession.arrival_time.split(':');
-    const arrivalHours = parseInt(sessionArrivalTime[0]);
-    const arrivalMinutes = parseInt(sessionArrivalTime[1]);
-    
-    // Calculate arrival time for today
-    const arrivalToday = new Date();
-    arrivalToday.setHours(arrivalHours, arrivalMinutes, 0, 0);
-    
-    // If arrival time is in the future (next day scenario), assume it was yesterday
-    const now = new Date();
-    if (arrivalToday > now) {
-      arrivalToday.setDate(arrivalToday.getDate() - 1);
-    }
-    
-    const requiredMs = (currentSession.required_work_hours * 60 + currentSession.required_work_minutes) * 60 * 1000;
-    
-    // Calculate time worked since arrival (this is what the user wants to see)
-    const timeSinceArrivalMs = now.getTime() - arrivalToday.getTime();
-    
-    // Time worked = time since arrival minus any paused time
-    let totalPausedMs = timer.totalPausedMs;
-    
-    // Add current pause time if timer is paused
-    if (timer.isPaused && timer.pauseStartTime) {
-      totalPausedMs += now.getTime() - timer.pauseStartTime.getTime();
-    }
-    
-    // Total worked time = time since arrival minus paused time
-    const totalWorkedMs = Math.max(0, timeSinceArrivalMs - totalPausedMs);
-    
-    const remainingMs = Math.max(0, requiredMs - totalWorkedMs);
-    
-    // Calculate leave time: arrival + required work + total paused time
-    const leaveTime = new Date(arrivalToday.getTime() + requiredMs + totalPausedMs);
-    const originalLeaveTime = new Date(arrivalToday.getTime() + requiredMs);
+  const stats = calculateCurrentStats();
+  // The running entry's totals are derived on every tick rather than read
+  // from the last write
+  const liveEntries = stats && currentEntryId.current
+    ? entries.map(entry => entry.id === currentEntryId.current
+        ? { ...entry, total_worked_ms: stats.totalWorkedMs, total_paused_ms: stats.totalPausedMs }
+        : entry)
+    : entries;
+  const compliance = stats
+    ? evaluateSessionCompliance(breakRules, {
+        workedMs: stats.totalWorkedMs,
+        requiredMs: stats.requiredMs,
+        breaks: sessionBreaks,
+      }, currentTime)
+    : null;
+  // Flextime: balance carried into today plus today's running difference
+  const flextimeSettings = getFlextimeSettings(profile);
+  const todayKey = toZonedDateKey(currentTime, preferences.timezone);
+  const flextimeLedger = buildFlextimeLedger(
+    buildDailyTotals(liveEntries, schedule, preferences.timezone, offFractions, flextimeSettings, todayKey),
+    flextimeSettings
+  );
+  const balanceBeforeTodayMs = getBalanceBefore(flextimeLedger.days, flextimeSettings, todayKey);
+  const todayDeltaMs = stats
+    ? stats.totalWorkedMs - stats.requiredMs
+    : flextimeLedger.days.find(day => day.dateKey === todayKey)?.deltaMs ?? 0;
 
-    return {
-      totalWorkedMs,
-      totalPausedMs,
-      remainingMs,
-      requiredMs,
-      leaveTime,
-      originalLeaveTime,
-      progressPercentage: Math.min(100, (totalWorkedMs / requiredMs) * 100),
-      isComplete: totalWorkedMs >= requiredMs
-    };
+  // Mandatory breaks not taken yet push the leave time back
+  const leaveTime = stats && compliance
+    ? new Date(stats.leaveTime.getTime() + compliance.leaveTimeExtensionMs)
+    : null;
+
+  // Write the totals derived from the break records back to the session and entry
+  const syncSessionTotals = async (nextBreaks: typeof sessionBreaks) => {
+    if (!currentSession) return;
+
+    const totals = getSessionTotals(currentSession, nextBreaks);
+    await updateSession(totals);
+    await updateCurrentEntry(totals);
   };
 
   const formatDuration = (ms: number) => {
@@ -163,7 +294,7 @@ const WorkdayTracker = () => {
   };
 
   const formatTime = (date: Date) => {
-    return `${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`;
+    return formatTimeOfDay(date, preferences);
   };
 
   const formatTimeInput = (value: string, type: 'hours' | 'minutes') => {
@@ -187,22 +318,42 @@ const WorkdayTracker = () => {
 
     const now = new Date();
     const arrivalTimeString = `${arrivalTime.hours.padStart(2, '0')}:${arrivalTime.minutes.padStart(2, '0')}`;
-    
-    // Calculate arrival time for today
-    const arrivalToday = new Date();
-    arrivalToday.setHours(parseInt(arrivalTime.hours), parseInt(arrivalTime.minutes), 0, 0);
-    
-    // If arrival time is in the future (next day scenario), assume it was yesterday
-    if (arrivalToday > now) {
-      arrivalToday.setDate(arrivalToday.getDate() - 1);
+    // The most recent occurrence of the entered time, so a night shift
+    // entered after midnight resolves to yesterday's date
+    const arrivalAt = resolveArrival(arrivalTimeString, now, preferences.timezone);
+
+    const started = await startSessionOnServer(
+      arrivalAt,
+      parseInt(requiredWorkTime.hours),
+      parseInt(requiredWorkTime.minutes)
+    );
+    if (started === 'rejected') return;
+    if (started === 'applied') {
+      await refreshTimerRecords();
+    } else if (!(await startOnClient(arrivalAt, now))) {
+      return;
     }
-    
+
+    toast({
+      title: "Timer Started!",
+      description: "Work session started. Timer is now running and tracking from your arrival time.",
+    });
+  };
+
+  // Entries, segments and breaks written by a transition on the server
+  const refreshTimerRecords = async () => {
+    await Promise.all([refreshEntries(), refreshSegments(), refreshBreaks()]);
+  };
+
+  // Without an account or a connection, transitions are computed here and
+  // stored (or queued) as plain updates
+  const startOnClient = async (arrivalAt: Date, now: Date) => {
     // Calculate time already worked since arrival
-    const alreadyWorkedMs = Math.max(0, now.getTime() - arrivalToday.getTime());
+    const alreadyWorkedMs = Math.max(0, now.getTime() - arrivalAt.getTime());
     
     // Create work session
     const session = await createSession(
-      arrivalTimeString,
+      arrivalAt,
       parseInt(requiredWorkTime.hours),
       parseInt(requiredWorkTime.minutes)
     );
@@ -213,9 +364,12 @@ const WorkdayTracker = () => {
         description: "Failed to create work session.",
         variant: "destructive",
       });
-      return;
+      return false;
     }
 
+    // The day was started already, e.g. in another tab
+    if (entries.some(entry => entry.session_id === session.id)) return true;
+
     // Update session with already worked time and start timer immediately
     await updateSession({
       total_worked_ms: alreadyWorkedMs,
@@ -226,8 +380,8 @@ const WorkdayTracker = () => {
     // Create time entry with arrival time as check-in
     const entry = await createEntry({
       session_id: session.id,
-      date: arrivalToday.toISOString(),
-      check_in: arrivalToday.toISOString(), // Check in at arrival time
+      date: arrivalAt.toISOString(),
+      check_in: arrivalAt.toISOString(), // Check in at arrival time
       total_worked_ms: alreadyWorkedMs, // Start with already worked time
       total_paused_ms: 0,
       status: 'active'
@@ -235,12 +389,14 @@ const WorkdayTracker = () => {
     
     if (entry) {
       currentEntryId.current = entry.id;
+      // First segment starts at arrival
+      await openSegment({
+        session_id: session.id,
+        entry_id: entry.id,
+        check_in: arrivalAt.toISOString(),
+      });
     }
-    
-    toast({
-      title: "Timer Started!",
-      description: "Work session started. Timer is now running and tracking from your arrival time.",
-    });
+    return true;
   };
 
   const startTimer = async () => {
@@ -254,9 +410,16 @@ const WorkdayTracker = () => {
       start_time: currentSession.start_time || now.toISOString(),
     });
     
-    // Update time entry status
+    // Update time entry status and open a new segment
     if (currentEntryId.current) {
       await updateCurrentEntry({ status: 'active' });
+      if (!sessionSegments.some(segment => !segment.check_out)) {
+        await openSegment({
+          session_id: currentSession.id,
+          entry_id: currentEntryId.current,
+          check_in: now.toISOString(),
+        });
+      }
     }
     
     toast({
@@ -267,90 +430,156 @@ const WorkdayTracker = () => {
 
   const pauseTimer = async () => {
     if (!currentSession) return;
-    
-    const now = new Date();
-    const sessionTime = currentSession.current_session_start ? 
-      now.getTime() - new Date(currentSession.current_session_start).getTime() : 0;
-    
-    const newTotalWorked = currentSession.total_worked_ms + sessionTime;
-    
-    await updateSession({
-      is_running: false,
-      is_paused: true,
-      total_worked_ms: newTotalWorked,
-      current_session_start: null,
-      pause_start_time: now.toISOString(),
+
+    const paused = await pauseSessionOnServer(currentSession.id);
+    if (paused === 'rejected') return;
+    if (paused === 'applied') {
+      await refreshTimerRecords();
+    } else {
+      await pauseOnClient();
+    }
+
+    toast({
+      title: "Timer Paused",
+      description: "Work session paused. You can resume anytime.",
     });
+  };
+
+  const pauseOnClient = async () => {
+    if (!currentSession) return;
+
+    const updates = pauseTransition(currentSession, sessionBreaks);
+    await closeOpenSegment(currentSession.id, updates.pause_start_time);
+    await createBreak({
+      session_id: currentSession.id,
+      start_time: updates.pause_start_time,
+      type: 'personal',
+    });
+    await updateSession(updates);
     
     // Update time entry
     if (currentEntryId.current) {
       await updateCurrentEntry({ 
-        total_worked_ms: newTotalWorked,
+        total_worked_ms: updates.total_worked_ms,
+        total_paused_ms: updates.total_paused_ms,
         status: 'paused'
       });
     }
-    
-    toast({
-      title: "Timer Paused",
-      description: "Work session paused. You can resume anytime.",
-    });
   };
 
   const resumeTimer = async () => {
     if (!currentSession) return;
-    
-    const now = new Date();
-    const pauseTime = currentSession.pause_start_time ? 
-      now.getTime() - new Date(currentSession.pause_start_time).getTime() : 0;
-    
-    const newTotalPaused = currentSession.total_paused_ms + pauseTime;
-    
-    await updateSession({
-      is_running: true,
-      is_paused: false,
-      total_paused_ms: newTotalPaused,
-      current_session_start: now.toISOString(),
-      pause_start_time: null,
+
+    const resumed = await resumeSessionOnServer(currentSession.id);
+    if (resumed === 'rejected') return;
+    if (resumed === 'applied') {
+      await refreshTimerRecords();
+    } else {
+      await resumeOnClient();
+    }
+
+    toast({
+      title: "Timer Resumed",
+      description: "Work session resumed.",
     });
+  };
+
+  const resumeOnClient = async () => {
+    if (!currentSession) return;
+
+    const updates = resumeTransition(currentSession, sessionBreaks);
+    await endOpenBreak(currentSession.id, updates.current_session_start);
+    await updateSession(updates);
     
-    // Update time entry with pause time
+    // Update time entry with pause time and open a new segment
     if (currentEntryId.current) {
       await updateCurrentEntry({ 
-        total_paused_ms: newTotalPaused,
+        total_paused_ms: updates.total_paused_ms,
         status: 'active'
       });
+      await openSegment({
+        session_id: currentSession.id,
+        entry_id: currentEntryId.current,
+        check_in: updates.current_session_start,
+      });
     }
-    
+  };
+
+  const completeWorkday = async () => {
+    if (!currentSession) return;
+
+    const completed = await completeSessionOnServer(currentSession.id);
+    if (completed === 'rejected') return;
+    if (completed === 'applied') {
+      await refreshTimerRecords();
+    } else {
+      await completeOnClient();
+    }
+    currentEntryId.current = null;
+
     toast({
-      title: "Timer Resumed",
-      description: "Work session resumed.",
+      title: "Workday Complete!",
+      description: "Great job! Your session has been saved to history.",
     });
   };
 
-  const completeWorkday = async () => {
+  const completeOnClient = async () => {
     if (!currentSession) return;
-    
+
     // Mark current entry as completed
+    const completion = completionTransition(currentSession, sessionBreaks);
+    await closeOpenSegment(currentSession.id, completion.check_out);
+    await endOpenBreak(currentSession.id, completion.check_out);
     if (currentEntryId.current) {
-      const now = new Date();
-      const sessionTime = timer.currentSessionStart ? 
-        now.getTime() - timer.currentSessionStart.getTime() : 0;
-      const totalWorked = timer.totalWorkedMs + sessionTime;
-      
       await updateCurrentEntry({ 
-        check_out: now.toISOString(),
-        total_worked_ms: totalWorked,
+        ...completion,
         status: 'completed'
       });
     }
     
     // Complete session
     await completeSession();
-    currentEntryId.current = null;
-    
-    toast({
-      title: "Workday Complete!",
-      description: "Great job! Your session has been saved to history.",
+  };
+
+  const closeStaleSessions = async () => {
+    const closed = await closeStaleSessionsOnServer();
+    if (closed === 'rejected') return;
+    if (closed === 'applied') {
+      await refreshTimerRecords();
+      return;
+    }
+
+    for (const session of staleSessions) {
+      await closeStaleOnClient(session);
+    }
+  };
+
+  const closeStaleOnClient = async (session: typeof staleSessions[number]) => {
+    const staleBreaks = breaks.filter(workBreak => workBreak.session_id === session.id);
+    const closeAt = getAutoCloseTime(session, staleBreaks, new Date());
+    const completion = completionTransition(session, staleBreaks, () => closeAt);
+    await closeOpenSegment(session.id, completion.check_out);
+    await endOpenBreak(session.id, completion.check_out);
+
+    const staleEntry = entries.find(entry =>
+      entry.session_id === session.id &&
+      (entry.status === 'active' || entry.status === 'paused')
+    );
+    if (staleEntry) {
+      await updateEntry(staleEntry.id, {
+        ...completion,
+        status: 'auto-closed'
+      });
+    }
+
+    await updateSessionById(session.id, {
+      is_active: false,
+      is_running: false,
+      is_paused: false,
+      current_session_start: null,
+      pause_start_time: null,
+      total_worked_ms: completion.total_worked_ms,
+      total_paused_ms: completion.total_paused_ms,
     });
   };
 
@@ -375,20 +604,273 @@ const WorkdayTracker = () => {
   };
 
   const handleDeleteEntry = async (entryId: string) => {
+    // The timer keeps writing to the running entry, so it has to end first
+    if (entryId === currentEntryId.current) {
+      toast({
+        title: "Entry Still Running",
+        description: "Check out before deleting the current workday.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     const success = await deleteEntry(entryId);
     if (success) {
       toast({
         title: "Entry Deleted",
-        description: "Work session removed from history.",
+        description: "Work session moved to the trash.",
         variant: "destructive",
+        action: (
+          <ToastAction altText="Undo delete" onClick={() => restoreEntry(entryId)}>
+            Undo
+          </ToastAction>
+        ),
       });
     }
   };
 
-  const addManualPauseTime = async () => {
+  const handleCreateEntry = async (input: ManualEntryInput) => {
+    const { checkIn, checkOut } = resolveManualEntry(input, preferences.timezone);
+    const validationError = validateManualEntry(checkIn, checkOut, input.pauseMs, entries, new Date());
+    if (validationError) {
+      toast({
+        title: "Invalid Entry",
+        description: validationError,
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    const totals = getManualEntryTotals(checkIn, checkOut, input.pauseMs);
+    const targetMinutes = Math.round(getTargetMs(schedule, input.dateKey, offFractions) / (60 * 1000));
+    const session = await createCompletedSession(
+      checkIn,
+      Math.floor(targetMinutes / 60),
+      targetMinutes % 60,
+      totals
+    );
+    if (!session) return false;
+
+    const entry = await createEntry({
+      session_id: session.id,
+      date: checkIn.toISOString(),
+      check_in: checkIn.toISOString(),
+      check_out: checkOut.toISOString(),
+      ...totals,
+      status: 'completed'
+    });
+    if (!entry) return false;
+
+    await createSegment({
+      session_id: session.id,
+      entry_id: entry.id,
+      check_in: checkIn.toISOString(),
+      check_out: checkOut.toISOString(),
+    });
+    const { manualBreak } = reconcileBreaks([], checkIn, checkOut, input.pauseMs);
+    if (manualBreak) {
+      await createBreak({ session_id: session.id, ...manualBreak, type: 'manual' });
+    }
+    toast({
+      title: "Entry Added",
+      description: `${formatDuration(totals.total_worked_ms)} worked on ${formatDisplayDate(checkIn, preferences, { month: 'short', day: 'numeric' })}.`,
+    });
+    return true;
+  };
+
+  const handleEditEntryTimes = async (entryId: string, input: ManualEntryInput) => {
+    const entry = entries.find(candidate => candidate.id === entryId);
+    if (!entry) return false;
+
+    const { checkIn, checkOut } = resolveManualEntry(input, preferences.timezone);
+    const others = entries.filter(candidate => candidate.id !== entryId);
+    const validationError = validateManualEntry(checkIn, checkOut, input.pauseMs, others, new Date());
+    if (validationError) {
+      toast({
+        title: "Invalid Entry",
+        description: validationError,
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    // The segments are clipped to the new check-in and check-out before the
+    // entry changes. Should any write fail, the ones already made are undone
+    // and the entry keeps its old times.
+    const entrySegments = segments.filter(segment => segment.entry_id === entryId);
+    const segmentPlan = fitSegments(entrySegments, checkIn, checkOut);
+    const changedSegments: typeof entrySegments = [];
+    const deletedSegments: typeof entrySegments = [];
+
+    const abortEdit = async () => {
+      for (const original of changedSegments) {
+        await updateSegment(original.id, { check_in: original.check_in, check_out: original.check_out });
+      }
+      for (const original of deletedSegments) {
+        await createSegment({
+          session_id: original.session_id,
+          entry_id: original.entry_id,
+          check_in: original.check_in,
+          check_out: original.check_out,
+        });
+      }
+      toast({
+        title: "Error",
+        description: "Failed to update the entry. Its times were left unchanged.",
+        variant: "destructive",
+      });
+      return false;
+    };
+
+    for (const update of segmentPlan.updates) {
+      if (!(await updateSegment(update.id, { check_in: update.check_in, check_out: update.check_out }))) {
+        return await abortEdit();
+      }
+      changedSegments.push(entrySegments.find(segment => segment.id === update.id));
+    }
+    for (const segmentId of segmentPlan.deleteIds) {
+      if (!(await deleteSegment(segmentId))) {
+        return await abortEdit();
+      }
+      deletedSegments.push(entrySegments.find(segment => segment.id === segmentId));
+    }
+
+    const totals = getManualEntryTotals(checkIn, checkOut, input.pauseMs);
+    const updated = await updateEntry(entryId, {
+      date: checkIn.toISOString(),
+      check_in: checkIn.toISOString(),
+      check_out: checkOut.toISOString(),
+      ...totals,
+      // Times entered by the user replace an estimated check-out
+      ...(entry.status === 'auto-closed' ? { status: 'completed' } : {}),
+    });
+    if (!updated) {
+      return await abortEdit();
+    }
+
+    const entryBreaks = breaks.filter(workBreak => workBreak.session_id === entry.session_id);
+    const { deleteIds, manualBreak } = reconcileBreaks(entryBreaks, checkIn, checkOut, input.pauseMs);
+    for (const breakId of deleteIds) {
+      await deleteBreak(breakId);
+    }
+    if (manualBreak) {
+      await createBreak({ session_id: entry.session_id, ...manualBreak, type: 'manual' });
+    }
+
+    // Entries and sessions are one to one, so the session follows the entry
+    await updateSessionById(entry.session_id, {
+      date: toZonedDateKey(checkIn, preferences.timezone),
+      arrival_time: toZonedTimeString(checkIn, preferences.timezone),
+      arrival_at: checkIn.toISOString(),
+      ...totals,
+    });
+
+    toast({
+      title: "Entry Updated",
+      description: "Check-in, check-out and totals have been recalculated.",
+    });
+    return true;
+  };
+
+  // The real check-out of a workday that was closed automatically
+  const handleResolveCheckOut = async (entryId: string, checkOutTime: string) => {
+    const entry = entries.find(candidate => candidate.id === entryId);
+    if (!entry) return false;
+
+    const checkIn = new Date(entry.check_in);
+    return await handleEditEntryTimes(entryId, {
+      dateKey: toZonedDateKey(checkIn, preferences.timezone),
+      checkIn: toZonedTimeString(checkIn, preferences.timezone),
+      checkOut: checkOutTime,
+      pauseMs: entry.total_paused_ms,
+    });
+  };
+
+  const handleUpdateBreak = async (breakId: string, updates: WorkBreakUpdates) => {
+    if (!currentSession || !stats) return false;
+
+    const original = sessionBreaks.find(workBreak => workBreak.id === breakId);
+    if (!original) return false;
+
+    const candidate = { ...original, ...updates };
+    const others = sessionBreaks.filter(workBreak => workBreak.id !== breakId);
+    const validationError = validateBreak(candidate, others, stats.arrival, new Date());
+    if (validationError) {
+      toast({
+        title: "Invalid Break",
+        description: validationError,
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    const updated = await updateBreak(breakId, updates);
+    if (!updated) return false;
+
+    // Pauses from the timer sit between two segments; move their edges along
+    if (original.type !== 'manual') {
+      const sameInstant = (a: string | null, b: string | null) =>
+        !!a && !!b && new Date(a).getTime() === new Date(b).getTime();
+      const before = sessionSegments.find(segment => sameInstant(segment.check_out, original.start_time));
+      const after = sessionSegments.find(segment => sameInstant(segment.check_in, original.end_time));
+      if (before && !sameInstant(original.start_time, updated.start_time)) {
+        await updateSegment(before.id, { check_out: updated.start_time });
+      }
+      if (after && updated.end_time && !sameInstant(original.end_time, updated.end_time)) {
+        await updateSegment(after.id, { check_in: updated.end_time });
+      }
+    }
+
+    await syncSessionTotals([...others, updated]);
+
+    toast({
+      title: "Break Updated",
+      description: "Session totals have been recalculated.",
+    });
+    return true;
+  };
+
+  const handleDeleteBreak = async (breakId: string) => {
     if (!currentSession) return;
+
+    const original = sessionBreaks.find(workBreak => workBreak.id === breakId);
+    if (!original) return;
+
+    if (!original.end_time) {
+      toast({
+        title: "Break In Progress",
+        description: "Resume the timer before deleting the current break.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const success = await deleteBreak(breakId);
+    if (!success) return;
+
+    // Without the pause the time between the two segments counts as work
+    if (original.type !== 'manual') {
+      const before = sessionSegments.find(segment =>
+        segment.check_out && new Date(segment.check_out).getTime() === new Date(original.start_time).getTime()
+      );
+      if (before) {
+        await updateSegment(before.id, { check_out: original.end_time });
+      }
+    }
+
+    await syncSessionTotals(sessionBreaks.filter(workBreak => workBreak.id !== breakId));
+
+    toast({
+      title: "Break Deleted",
+      description: "Session totals have been recalculated.",
+      variant: "destructive",
+    });
+  };
+
+  const addManualPauseTime = async () => {
+    if (!currentSession || !stats) return;
     
-    const additionalPauseMs = (parseInt(manualPauseTime.hours) * 60 + parseInt(manualPauseTime.minutes)) * 60 * 1000;
+    const additionalPauseMs = toDurationMs(parseInt(manualPauseTime.hours), parseInt(manualPauseTime.minutes));
     
     if (additionalPauseMs <= 0) {
       toast({
@@ -399,19 +881,29 @@ const WorkdayTracker = () => {
       return;
     }
     
-    const newTotalPaused = currentSession.total_paused_ms + additionalPauseMs;
-    
-    await updateSession({
-      total_paused_ms: newTotalPaused,
-    });
+    // A forgotten break ends now, or where the current pause began
+    const openBreak = sessionBreaks.find(workBreak => !workBreak.end_time);
+    const now = new Date();
+    const manualBreak = createManualBreak(
+      additionalPauseMs,
+      openBreak ? new Date(openBreak.start_time) : now
+    );
     
-    // Update time entry with additional pause time
-    if (currentEntryId.current) {
-      await updateCurrentEntry({ 
-        total_paused_ms: newTotalPaused
+    const validationError = validateBreak(manualBreak, sessionBreaks, stats.arrival, now);
+    if (validationError) {
+      toast({
+        title: "Invalid Time",
+        description: validationError,
+        variant: "destructive",
       });
+      return;
     }
     
+    const created = await createBreak({ session_id: currentSession.id, ...manualBreak });
+    if (!created) return;
+    
+    await syncSessionTotals([...sessionBreaks, created]);
+    
     setManualPauseTime({ hours: '0', minutes: '0' });
     
     toast({
@@ -420,20 +912,28 @@ const WorkdayTracker = () => {
     });
   };
 
-  const stats = calculateCurrentStats();
 
-  // Update current entry in real-time
+  // Stored totals are a cache of what arrival, segments and breaks already
+  // record. Transitions write them; while the timer runs they are refreshed
+  // now and then for views that read them without the break records, such
+  // as the history on another device. The interval reads the latest session
+  // and breaks through a ref, so realtime echoes and refetches do not keep
+  // restarting it.
+  const heartbeat = useRef<() => Promise<void>>();
+  heartbeat.current = () => syncSessionTotals(sessionBreaks);
+  const currentSessionId = currentSession?.id;
+
   useEffect(() => {
-    if (timer.isRunning && currentEntryId.current && stats && currentSession) {
-      updateCurrentEntry({ 
-        total_worked_ms: stats.totalWorkedMs,
-        status: stats.isComplete ? 'completed' : 'active'
-      });
-    }
-  }, [stats?.totalWorkedMs, stats?.isComplete, timer.isRunning]);
+    if (!timer.isRunning || !currentSessionId) return;
+
+    const interval = setInterval(() => {
+      heartbeat.current?.();
+    }, TOTALS_HEARTBEAT_MS);
+    return () => clearInterval(interval);
+  }, [timer.isRunning, currentSessionId]);
 
   // Show loading state
-  if (sessionLoading || entriesLoading) {
+  if (sessionLoading || entriesLoading || segmentsLoading || breaksLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-lg">Loading...</div>
@@ -554,18 +1054,11 @@ const WorkdayTracker = () => {
               <CardContent>
                 <div className="space-y-3">
                   {entries.slice(0, 5).map((entry) => {
-                    const entryDate = new Date(entry.date);
-                    const isToday = entryDate.toDateString() === new Date().toDateString();
-                    const isYesterday = entryDate.toDateString() === 
-                      new Date(Date.now() - 24 * 60 * 60 * 1000).toDateString();
-                    
-                    let dateLabel = entryDate.toLocaleDateString('en-US', {
-                      month: 'short',
-                      day: 'numeric'
-                    });
-                    
-                    if (isToday) dateLabel = "Today";
-                    else if (isYesterday) dateLabel = "Yesterday";
+                    const dateLabel = getRelativeDayLabel(entry.date, preferences) ??
+                      formatDisplayDate(entry.date, preferences, {
+                        month: 'short',
+                        day: 'numeric'
+                      });
 
                     return (
                       <div key={entry.id} className="flex justify-between items-center p-3 rounded-lg bg-muted/30 border border-border/50">
@@ -574,16 +1067,8 @@ const WorkdayTracker = () => {
                             {entry.name || `Session ${dateLabel}`}
                           </span>
                           <span className="text-xs text-muted-foreground">
-                            {dateLabel} • {new Date(entry.check_in).toLocaleTimeString('en-US', {
-                              hour: '2-digit',
-                              minute: '2-digit',
-                              hour12: false
-                            })}
-                            {entry.check_out && ` - ${new Date(entry.check_out).toLocaleTimeString('en-US', {
-                              hour: '2-digit',
-                              minute: '2-digit', 
-                              hour12: false
-                            })}`}
+                            {dateLabel} • {formatTimeOfDay(entry.check_in, preferences)}
+                            {entry.check_out && ` - ${formatTimeOfDay(entry.check_out, preferences)}`}
                           </span>
                         </div>
                         <div className="text-right">
@@ -667,6 +1152,23 @@ const WorkdayTracker = () => {
           </CardContent>
         </Card>
 
+        {/* Break Rule Compliance */}
+        {compliance && compliance.issues.length > 0 && (
+          <div className="space-y-3">
+            {compliance.issues.map((issue) => (
+              <Alert
+                key={issue.kind}
+                variant={issue.severity === 'violation' ? 'destructive' : 'default'}
+                className={issue.severity === 'warning' ? 'border-orange-500/50 text-orange-600 [&>svg]:text-orange-600' : ''}
+              >
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>{breakRules.label}</AlertTitle>
+                <AlertDescription>{issue.message}</AlertDescription>
+              </Alert>
+            ))}
+          </div>
+        )}
+
         {/* Complete Workday Button */}
         {stats?.isComplete && (
           <Card className="shadow-lg">
@@ -793,7 +1295,7 @@ const WorkdayTracker = () => {
               </CardHeader>
               <CardContent>
                 <div className={`text-3xl font-mono font-bold ${stats.isComplete ? 'text-accent' : 'text-foreground'}`}>
-                  {stats.isComplete ? 'Now!' : formatTime(stats.leaveTime)}
+                  {stats.isComplete ? 'Now!' : formatTime(leaveTime)}
                 </div>
                 <div className="text-sm text-muted-foreground mt-2">
                   {stats.isComplete ? 
@@ -801,19 +1303,67 @@ const WorkdayTracker = () => {
                     timer.isRunning ? 'Estimated (if you keep working)' : 'If you start now'
                   }
                 </div>
+                {!stats.isComplete && compliance.leaveTimeExtensionMs > 0 && (
+                  <div className="text-xs text-orange-600 mt-1">
+                    Includes {formatDuration(compliance.leaveTimeExtensionMs)} of mandatory break
+                  </div>
+                )}
+                {!stats.isComplete && (
+                  <LeaveTimePlanner
+                    leaveTime={leaveTime}
+                    balanceMs={balanceBeforeTodayMs}
+                    requiredMs={stats.requiredMs}
+                    preferences={preferences}
+                  />
+                )}
               </CardContent>
             </Card>
           </div>
         )}
 
+        {/* Flextime Balance */}
+        <FlextimeBalance
+          balanceBeforeTodayMs={balanceBeforeTodayMs}
+          todayDeltaMs={todayDeltaMs}
+        />
+
+        {/* Break Timeline */}
+        {stats && (
+          <BreakTimeline
+            breaks={sessionBreaks}
+            arrival={stats.arrival}
+            now={currentTime}
+            preferences={preferences}
+            onUpdate={handleUpdateBreak}
+            onDelete={handleDeleteBreak}
+          />
+        )}
+
         {/* Daily Summary */}
-        <DailySummary entries={entries} />
+        <DailySummary
+          entries={liveEntries}
+          preferences={preferences}
+          breakRules={breakRules}
+          schedule={schedule}
+          absences={absences}
+          holidays={holidays}
+        />
 
         {/* Work History */}
         <TimeTable 
-          entries={entries} 
+          entries={liveEntries} 
+          segments={segments}
+          preferences={preferences}
           onRename={handleRenameEntry}
           onDelete={handleDeleteEntry}
+          onCreate={handleCreateEntry}
+          onEditTimes={handleEditEntryTimes}
+        />
+
+        <StaleSessionDialog
+          entries={entries.filter(entry => entry.status === 'auto-closed')}
+          preferences={preferences}
+          onResolve={handleResolveCheckOut}
         />
 
         {/* Status Indicator */}
@@ -845,7 +1395,7 @@ const WorkdayTracker = () => {
               
               {stats && (
                 <p className="text-muted-foreground">
-                  Arrived at {arrivalTime.hours}:{arrivalTime.minutes} • 
+                  Arrived at {formatTime(stats.arrival)} • 
                   Need to work {requiredWorkTime.hours}:{requiredWorkTime.minutes}
                 </p>
               )}
@@ -0,0 +1,135 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import { toast } from './use-toast';
+import type { AbsenceType } from '@/lib/absences';
+
+export interface Absence {
+  id: string;
+  user_id: string;
+  date: string;
+  type: AbsenceType;
+  half_day: boolean;
+  note: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export const useAbsences = () => {
+  const { user } = useAuth();
+  const [absences, setAbsences] = useState<Absence[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Load absences on mount
+  useEffect(() => {
+    if (user) {
+      loadAbsences();
+    }
+  }, [user]);
+
+  const loadAbsences = async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('absences')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('date', { ascending: true });
+
+      if (error) {
+        console.error('Error loading absences:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load absences.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setAbsences((data || []) as Absence[]);
+    } catch (error) {
+      console.error('Error loading absences:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Book one absence row per day; days already booked with the same type are skipped
+  const createAbsences = async (dates: string[], absenceData: {
+    type: AbsenceType;
+    half_day: boolean;
+    note?: string | null;
+  }) => {
+    if (!user) return [];
+
+    const newDates = dates.filter(date =>
+      !absences.some(absence => absence.date === date && absence.type === absenceData.type)
+    );
+    if (newDates.length === 0) return [];
+
+    try {
+      const { data, error } = await supabase
+        .from('absences')
+        .insert(newDates.map(date => ({
+          user_id: user.id,
+          date,
+          ...absenceData,
+        })))
+        .select();
+
+      if (error) {
+        console.error('Error creating absences:', error);
+        toast({
+          title: "Error",
+          description: "Failed to save absence.",
+          variant: "destructive",
+        });
+        return [];
+      }
+
+      const created = (data || []) as Absence[];
+      setAbsences(prev => [...prev, ...created].sort((a, b) => a.date.localeCompare(b.date)));
+      return created;
+    } catch (error) {
+      console.error('Error creating absences:', error);
+      return [];
+    }
+  };
+
+  const deleteAbsence = async (absenceId: string) => {
+    if (!user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('absences')
+        .delete()
+        .eq('id', absenceId)
+        .eq('user_id', user.id);
+
+      if (error) {
+        console.error('Error deleting absence:', error);
+        toast({
+          title: "Error",
+          description: "Failed to delete absence.",
+          variant: "destructive",
+        });
+        return false;
+      }
+
+      setAbsences(prev => prev.filter(absence => absence.id !== absenceId));
+      return true;
+    } catch (error) {
+      console.error('Error deleting absence:', error);
+      return false;
+    }
+  };
+
+  return {
+    absences,
+    loading,
+    createAbsences,
+    deleteAbsence,
+    refreshAbsences: loadAbsences,
+  };
+};
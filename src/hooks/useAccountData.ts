@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import type { PostgrestError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import { toast } from './use-toast';
+import { buildPersonalDataArchive, type StoredFile } from '@/lib/personalData';
+import { downloadBlob } from '@/lib/export';
+import { fetchAllRows } from '@/lib/pagination';
+
+const loadAllRows = async <T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: PostgrestError | null }>
+) => {
+  const { data, error } = await fetchAllRows(fetchPage);
+  if (error) throw error;
+  return data || [];
+};
+
+// Personal data export and account deletion
+export const useAccountData = () => {
+  const { user } = useAuth();
+  const [isExporting, setIsExporting] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const listAvatarPaths = async (userId: string) => {
+    const { data, error } = await supabase.storage.from('avatars').list(userId);
+    if (error) throw error;
+    return (data || []).map(file => `${userId}/${file.name}`);
+  };
+
+  const downloadPersonalData = async () => {
+    if (!user) return false;
+
+    setIsExporting(true);
+    try {
+      const { data: profile, error: profileError } = await supabase
+        .from('profiles')
+        .select('*')
+        .eq('user_id', user.id)
+        .maybeSingle();
+      if (profileError) throw profileError;
+
+      const [workSessions, workEntries, workSegments, workBreaks, absences, auditLog] = await Promise.all([
+        loadAllRows((from, to) => supabase.from('work_sessions').select('*').eq('user_id', user.id).order('created_at').range(from, to)),
+        loadAllRows((from, to) => supabase.from('work_entries').select('*').eq('user_id', user.id).order('created_at').range(from, to)),
+        loadAllRows((from, to) => supabase.from('work_segments').select('*').eq('user_id', user.id).order('created_at').range(from, to)),
+        loadAllRows((from, to) => supabase.from('work_breaks').select('*').eq('user_id', user.id).order('created_at').range(from, to)),
+        loadAllRows((from, to) => supabase.from('absences').select('*').eq('user_id', user.id).order('date').range(from, to)),
+        loadAllRows((from, to) => supabase.from('audit_log').select('*').eq('user_id', user.id).order('id').range(from, to)),
+      ]);
+
+      const avatars: StoredFile[] = [];
+      for (const path of await listAvatarPaths(user.id)) {
+        const { data, error } = await supabase.storage.from('avatars').download(path);
+        if (error) throw error;
+        avatars.push({ name: path.split('/').pop()!, content: new Uint8Array(await data.arrayBuffer()) });
+      }
+
+      const exportedAt = new Date().toISOString();
+      const archive = buildPersonalDataArchive({
+        exported_at: exportedAt,
+        account: { id: user.id, email: user.email ?? null, created_at: user.created_at },
+        profile,
+        work_sessions: workSessions,
+        work_entries: workEntries,
+        work_segments: workSegments,
+        work_breaks: workBreaks,
+        absences,
+        audit_log: auditLog,
+      }, avatars);
+      downloadBlob(archive, `my-data_${exportedAt.slice(0, 10)}.zip`);
+      return true;
+    } catch (error) {
+      console.error('Error exporting personal data:', error);
+      toast({
+        title: "Error",
+        description: "Failed to export your data.",
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Remove the avatar files, then the account; the database cascades the rest
+  const deleteAccount = async () => {
+    if (!user) return false;
+
+    setIsDeleting(true);
+    try {
+      const avatarPaths = await listAvatarPaths(user.id);
+      if (avatarPaths.length > 0) {
+        const { error: storageError } = await supabase.storage.from('avatars').remove(avatarPaths);
+        if (storageError) throw storageError;
+      }
+
+      const { error } = await supabase.rpc('delete_own_account');
+      if (error) throw error;
+
+      // The session belongs to a user that no longer exists
+      await supabase.auth.signOut({ scope: 'local' });
+      return true;
+    } catch (error) {
+      console.error('Error deleting account:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete your account.",
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return {
+    isExporting,
+    isDeleting,
+    downloadPersonalData,
+    deleteAccount,
+  };
+};
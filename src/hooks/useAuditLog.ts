@@ -0,0 +1,66 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import { toast } from './use-toast';
+import type { AuditRecord } from '@/lib/audit';
+
+// Change history of one entry and its session, newest first, plus whether the
+// user's hash chain is still intact
+export const useAuditLog = (recordIds: string[]) => {
+  const { user } = useAuth();
+  const [records, setRecords] = useState<AuditRecord[]>([]);
+  const [chainStatus, setChainStatus] = useState<'unknown' | 'intact' | 'broken'>('unknown');
+  const [loading, setLoading] = useState(true);
+  const recordKey = recordIds.join(',');
+
+  // Load history when the records change
+  useEffect(() => {
+    if (user && recordIds.length > 0) {
+      loadHistory();
+    }
+  }, [user, recordKey]);
+
+  const loadHistory = async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('audit_log')
+        .select('id, actor_id, table_name, action, changed_fields, old_data, new_data, created_at')
+        .eq('user_id', user.id)
+        .in('record_id', recordIds)
+        .order('id', { ascending: false });
+
+      if (error) {
+        console.error('Error loading history:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load change history.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setRecords(data || []);
+
+      const { data: firstBrokenId, error: verifyError } = await supabase.rpc('verify_audit_log');
+      if (verifyError) {
+        console.error('Error verifying history:', verifyError);
+        setChainStatus('unknown');
+        return;
+      }
+      setChainStatus(firstBrokenId === null ? 'intact' : 'broken');
+    } catch (error) {
+      console.error('Error loading history:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return {
+    records,
+    chainStatus,
+    loading,
+    refreshHistory: loadHistory,
+  };
+};
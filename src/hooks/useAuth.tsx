@@ -1,11 +1,15 @@
 import { useState, useEffect, createContext, useContext } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { getConsentDecision, setConsentDecision } from '@/lib/storageMode';
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
   loading: boolean;
+  // Signed out and keeping timer data only in this browser
+  isLocalMode: boolean;
+  setLocalMode: (enabled: boolean) => void;
   signOut: () => Promise<void>;
 }
 
@@ -15,6 +19,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
+  const [localModeChosen, setLocalModeChosen] = useState(() => getConsentDecision() === 'declined');
 
   useEffect(() => {
     // Set up auth state listener
@@ -41,8 +46,15 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     if (error) throw error;
   };
 
+  const setLocalMode = (enabled: boolean) => {
+    setConsentDecision(enabled ? 'declined' : 'accepted');
+    setLocalModeChosen(enabled);
+  };
+
+  const isLocalMode = !user && localModeChosen;
+
   return (
-    <AuthContext.Provider value={{ user, session, loading, signOut }}>
+    <AuthContext.Provider value={{ user, session, loading, isLocalMode, setLocalMode, signOut }}>
       {children}
     </AuthContext.Provider>
   );
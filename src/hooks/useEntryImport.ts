@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import { useProfile } from './useProfile';
+import { toast } from './use-toast';
+import { getDisplayPreferences, toZonedTimeString } from '@/lib/datetime';
+import type { ImportDay } from '@/lib/import';
+import type { EntryRange } from '@/lib/manualEntries';
+import { fetchAllRows } from '@/lib/pagination';
+import { invalidateTimerData } from '@/lib/queryClient';
+
+// Days written per round trip; several years of history stay a few requests
+const IMPORT_CHUNK_SIZE = 200;
+
+export interface ImportDayWithTarget extends ImportDay {
+  targetMs: number;
+}
+
+export interface ImportResult {
+  imported: number;
+  // Days the database skipped because they overlap an entry by now
+  skipped: number;
+  // Whether every chunk was written; false after the first failing one
+  complete: boolean;
+}
+
+// Bulk creation of completed sessions with their entry, segments and breaks
+export const useEntryImport = () => {
+  const { user } = useAuth();
+  const { profile } = useProfile();
+  const { timezone } = getDisplayPreferences(profile);
+  const [importing, setImporting] = useState(false);
+
+  // Entries between the first check-in and the last check-out of the file,
+  // looked up on the server as the loaded history is not complete
+  const loadExistingEntries = async (start: Date, end: Date) => {
+    if (!user) return null;
+
+    const { data, error } = await fetchAllRows<EntryRange>((from, to) => supabase
+      .from('work_entries')
+      .select('check_in, check_out')
+      .eq('user_id', user.id)
+      .is('deleted_at', null)
+      .lt('check_in', end.toISOString())
+      .or(`check_out.is.null,check_out.gt.${start.toISOString()}`)
+      .order('check_in')
+      .order('id')
+      .range(from, to));
+
+    if (error) {
+      console.error('Error loading existing entries:', error);
+      toast({
+        title: "Error",
+        description: "Failed to check the file against your history.",
+        variant: "destructive",
+      });
+      return null;
+    }
+
+    return data || [];
+  };
+
+  // One round trip per chunk, written in a single transaction by the
+  // database, so a failing chunk leaves none of its days behind. Returns the
+  // number of days written, or null on failure.
+  const importChunk = async (days: ImportDayWithTarget[]) => {
+    if (!user) return null;
+
+    const { data, error } = await supabase.rpc('import_days', {
+      p_days: days.map(day => {
+        const targetMinutes = Math.round(day.targetMs / (60 * 1000));
+        return {
+          date: day.dateKey,
+          arrival_time: toZonedTimeString(day.checkIn, timezone),
+          arrival_at: day.checkIn.toISOString(),
+          required_work_hours: Math.floor(targetMinutes / 60),
+          required_work_minutes: targetMinutes % 60,
+          check_out: day.checkOut.toISOString(),
+          total_worked_ms: day.workedMs,
+          total_paused_ms: day.pauseMs,
+          name: day.name,
+          segments: day.segments.map(segment => ({
+            check_in: segment.checkIn.toISOString(),
+            check_out: segment.checkOut.toISOString(),
+          })),
+          // Gaps between rows are breaks; a stated pause becomes one manual
+          // break ending at check-out, like a pause entered by hand
+          breaks: [
+            ...day.gaps.map(gap => ({
+              start_time: gap.start.toISOString(),
+              end_time: gap.end.toISOString(),
+            })),
+            ...(day.statedPauseMs > 0
+              ? [{
+                  start_time: new Date(day.checkOut.getTime() - day.statedPauseMs).toISOString(),
+                  end_time: day.checkOut.toISOString(),
+                }]
+              : []),
+          ],
+        };
+      }),
+    });
+
+    if (error) {
+      console.error('Error importing days:', error);
+      return null;
+    }
+
+    return data;
+  };
+
+  // Stops at the first failing chunk
+  const importDays = async (days: ImportDayWithTarget[]): Promise<ImportResult> => {
+    const result: ImportResult = { imported: 0, skipped: 0, complete: false };
+    if (!user) return result;
+
+    setImporting(true);
+
+    try {
+      for (let start = 0; start < days.length; start += IMPORT_CHUNK_SIZE) {
+        const chunk = days.slice(start, start + IMPORT_CHUNK_SIZE);
+        const written = await importChunk(chunk);
+        if (written === null) {
+          toast({
+            title: "Import Incomplete",
+            description: `Imported ${result.imported} of ${days.length} days before an error occurred.`,
+            variant: "destructive",
+          });
+          return result;
+        }
+        result.imported += written;
+        result.skipped += chunk.length - written;
+      }
+      result.complete = true;
+      return result;
+    } catch (error) {
+      console.error('Error importing entries:', error);
+      return result;
+    } finally {
+      if (result.imported > 0) {
+        await invalidateTimerData(user.id);
+      }
+      setImporting(false);
+    }
+  };
+
+  return {
+    importing,
+    loadExistingEntries,
+    importDays,
+  };
+};
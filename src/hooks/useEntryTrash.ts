@@ -0,0 +1,173 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import { toast } from './use-toast';
+import type { WorkEntry } from './useWorkEntries';
+import { deleteLocalRow, listLocalRows, toLocalResult, updateLocalRow } from '@/lib/localStore';
+import { queryClient, queryKeys } from '@/lib/queryClient';
+import { getPurgeCutoff } from '@/lib/trash';
+
+// Without an account the database's cascade is done here: an entry's
+// segments go with it, and so does its session with the session's breaks
+// once no other entry refers to it
+const deleteLocalEntry = async (entryId: string) => {
+  const entry = (await listLocalRows('work_entries')).find(candidate => candidate.id === entryId);
+  if (!entry) return;
+
+  const segments = await listLocalRows('work_segments');
+  await Promise.all(segments
+    .filter(segment => segment.entry_id === entryId)
+    .map(segment => deleteLocalRow('work_segments', segment.id)));
+  await deleteLocalRow('work_entries', entryId);
+
+  const entries = await listLocalRows('work_entries');
+  if (entries.some(other => other.session_id === entry.session_id)) return;
+
+  const breaks = await listLocalRows('work_breaks');
+  await Promise.all(breaks
+    .filter(workBreak => workBreak.session_id === entry.session_id)
+    .map(workBreak => deleteLocalRow('work_breaks', workBreak.id)));
+  await deleteLocalRow('work_sessions', entry.session_id);
+};
+
+// Purges trashed entries on the server, their sessions included
+const purgeServerEntries = async (entryIds: string[]) => {
+  if (entryIds.length === 0) return { error: null };
+  return supabase.rpc('purge_trashed_entries', { _entry_ids: entryIds });
+};
+
+const purgeExpiredServerEntries = async (userId: string, cutoff: string) => {
+  const { data, error } = await supabase
+    .from('work_entries')
+    .select('id')
+    .eq('user_id', userId)
+    .lt('deleted_at', cutoff);
+  if (error) return { error };
+  return purgeServerEntries((data || []).map(entry => entry.id));
+};
+
+// Soft-deleted entries, newest deletion first. Entries past the retention
+// period are purged whenever the trash is loaded, and by a daily job.
+export const useEntryTrash = () => {
+  const { user, isLocalMode } = useAuth();
+  const [deletedEntries, setDeletedEntries] = useState<WorkEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Load trash on mount
+  useEffect(() => {
+    if (user || isLocalMode) {
+      loadTrash();
+    }
+  }, [user, isLocalMode]);
+
+  const loadTrash = async () => {
+    if (!user && !isLocalMode) return;
+
+    try {
+      const cutoff = getPurgeCutoff(new Date()).toISOString();
+      const { error: purgeError } = user
+        ? await purgeExpiredServerEntries(user.id, cutoff)
+        : await toLocalResult(async () => {
+            const expired = (await listLocalRows('work_entries')).filter(entry => entry.deleted_at && entry.deleted_at < cutoff);
+            await Promise.all(expired.map(entry => deleteLocalEntry(entry.id)));
+          });
+
+      if (purgeError) {
+        console.error('Error purging expired entries:', purgeError);
+      }
+
+      const { data, error } = user
+        ? await supabase
+            .from('work_entries')
+            .select('*')
+            .eq('user_id', user.id)
+            .not('deleted_at', 'is', null)
+            .order('deleted_at', { ascending: false })
+        : await toLocalResult(async () => (await listLocalRows('work_entries'))
+            .filter(entry => entry.deleted_at)
+            .sort((a, b) => b.deleted_at.localeCompare(a.deleted_at)));
+
+      if (error) {
+        console.error('Error loading trash:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load deleted entries.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setDeletedEntries(data || []);
+    } catch (error) {
+      console.error('Error loading trash:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const restoreEntry = async (entryId: string) => {
+    if (!user && !isLocalMode) return false;
+
+    try {
+      const { error } = user
+        ? await supabase
+            .from('work_entries')
+            .update({ deleted_at: null })
+            .eq('id', entryId)
+            .eq('user_id', user.id)
+        : await toLocalResult(() => updateLocalRow('work_entries', entryId, { deleted_at: null }));
+
+      if (error) {
+        console.error('Error restoring entry:', error);
+        toast({
+          title: "Error",
+          description: "Failed to restore work entry.",
+          variant: "destructive",
+        });
+        return false;
+      }
+
+      setDeletedEntries(prev => prev.filter(entry => entry.id !== entryId));
+      await queryClient.invalidateQueries({ queryKey: queryKeys.entries(user?.id) });
+      return true;
+    } catch (error) {
+      console.error('Error restoring entry:', error);
+      return false;
+    }
+  };
+
+  // Permanently delete an entry from the trash
+  const purgeEntry = async (entryId: string) => {
+    if (!user && !isLocalMode) return false;
+
+    try {
+      const { error } = user
+        ? await purgeServerEntries([entryId])
+        : await toLocalResult(() => deleteLocalEntry(entryId));
+
+      if (error) {
+        console.error('Error purging entry:', error);
+        toast({
+          title: "Error",
+          description: "Failed to permanently delete work entry.",
+          variant: "destructive",
+        });
+        return false;
+      }
+
+      setDeletedEntries(prev => prev.filter(entry => entry.id !== entryId));
+      return true;
+    } catch (error) {
+      console.error('Error purging entry:', error);
+      return false;
+    }
+  };
+
+  return {
+    deletedEntries,
+    loading,
+    restoreEntry,
+    purgeEntry,
+    refreshTrash: loadTrash,
+  };
+};
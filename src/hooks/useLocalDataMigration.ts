@@ -0,0 +1,117 @@
+import { useState, useEffect } from 'react';
+import type { PostgrestError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import { toast } from './use-toast';
+import { clearLocalRows, listLocalRows } from '@/lib/localStore';
+import { invalidateTimerData } from '@/lib/queryClient';
+
+// Rows written per round trip
+const MIGRATION_CHUNK_SIZE = 500;
+
+// Timer data kept in this browser before signing in, and moving it into the
+// signed-in account
+export const useLocalDataMigration = () => {
+  const { user } = useAuth();
+  const [localSessionCount, setLocalSessionCount] = useState(0);
+  const [migrating, setMigrating] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      loadLocalData();
+    }
+  }, [user]);
+
+  const loadLocalData = async () => {
+    try {
+      const sessions = await listLocalRows('work_sessions');
+      setLocalSessionCount(sessions.length);
+    } catch (error) {
+      console.error('Error reading local data:', error);
+    }
+  };
+
+  const uploadInChunks = async <R>(
+    rows: R[],
+    upsert: (chunk: R[]) => PromiseLike<{ error: PostgrestError | null }>
+  ) => {
+    for (let start = 0; start < rows.length; start += MIGRATION_CHUNK_SIZE) {
+      const { error } = await upsert(rows.slice(start, start + MIGRATION_CHUNK_SIZE));
+      if (error) throw error;
+    }
+  };
+
+  const moveToAccount = async () => {
+    if (!user) return false;
+
+    setMigrating(true);
+    try {
+      // Rows keep their ids, so references between them stay intact and a
+      // retry after a partial failure overwrites instead of duplicating.
+      // Parents go first, in the order the foreign keys require.
+      const withOwner = <R extends { user_id: string }>(rows: R[]) =>
+        rows.map(row => ({ ...row, user_id: user.id }));
+
+      // A day can have one active session only. A local one for a day the
+      // account is already tracking is closed and its entries go to the
+      // trash, as when the database merges duplicates.
+      const { data: accountSessions, error: accountError } = await supabase
+        .from('work_sessions')
+        .select('id, date')
+        .eq('user_id', user.id)
+        .eq('is_active', true);
+      if (accountError) throw accountError;
+
+      const localSessions = await listLocalRows('work_sessions');
+      const duplicateIds = new Set(localSessions
+        .filter(session => session.is_active && accountSessions.some(other => other.date === session.date && other.id !== session.id))
+        .map(session => session.id));
+      const deletedAt = new Date().toISOString();
+
+      const sessions = localSessions.map(session => duplicateIds.has(session.id)
+        ? { ...session, is_active: false, is_running: false, is_paused: false, current_session_start: null, pause_start_time: null }
+        : session);
+      const entries = (await listLocalRows('work_entries')).map(entry => duplicateIds.has(entry.session_id)
+        ? { ...entry, deleted_at: entry.deleted_at ?? deletedAt }
+        : entry);
+
+      await uploadInChunks(withOwner(sessions), chunk => supabase.from('work_sessions').upsert(chunk));
+      await uploadInChunks(withOwner(entries), chunk => supabase.from('work_entries').upsert(chunk));
+      await uploadInChunks(withOwner(await listLocalRows('work_segments')), chunk => supabase.from('work_segments').upsert(chunk));
+      await uploadInChunks(withOwner(await listLocalRows('work_breaks')), chunk => supabase.from('work_breaks').upsert(chunk));
+      await clearLocalRows();
+      setLocalSessionCount(0);
+      await Promise.all([invalidateTimerData(user.id), invalidateTimerData(undefined)]);
+      return true;
+    } catch (error) {
+      console.error('Error moving local data:', error);
+      toast({
+        title: "Error",
+        description: "Failed to move your local data to your account.",
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setMigrating(false);
+    }
+  };
+
+  const discardLocalData = async () => {
+    try {
+      await clearLocalRows();
+      setLocalSessionCount(0);
+      await invalidateTimerData(undefined);
+      return true;
+    } catch (error) {
+      console.error('Error discarding local data:', error);
+      return false;
+    }
+  };
+
+  return {
+    localSessionCount,
+    migrating,
+    moveToAccount,
+    discardLocalData,
+  };
+};
@@ -1,97 +1,99 @@
-import { useState, useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './useAuth';
 import { toast } from './use-toast';
+import { queryKeys } from '@/lib/queryClient';
 
-interface Profile {
+export interface Profile {
   id: string;
   user_id: string;
   display_name: string | null;
   avatar_url: string | null;
+  timezone: string | null;
+  locale: string;
+  hour12: boolean;
+  week_starts_on: number;
+  break_rule_set: string;
+  flextime_start_balance_ms: number;
+  flextime_carry_over_date: string | null;
+  weekly_schedule_minutes: number[];
+  vacation_days_per_year: number;
+  holiday_calendar: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export type ProfileUpdates = Partial<Pick<
+  Profile,
+  | 'display_name'
+  | 'avatar_url'
+  | 'timezone'
+  | 'locale'
+  | 'hour12'
+  | 'week_starts_on'
+  | 'break_rule_set'
+  | 'flextime_start_balance_ms'
+  | 'flextime_carry_over_date'
+  | 'weekly_schedule_minutes'
+  | 'vacation_days_per_year'
+  | 'holiday_calendar'
+>>;
+
+// Every consumer reads the profile from the same cache entry, so a change
+// saved in one place (e.g. the profile dialog) is reflected everywhere
+// without a reload, and mounting another consumer does not fetch it again
 export const useProfile = () => {
   const { user } = useAuth();
-  const [profile, setProfile] = useState<Profile | null>(null);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    if (user) {
-      loadProfile();
-    } else {
-      setProfile(null);
-      setLoading(false);
-    }
-  }, [user]);
+  const queryClient = useQueryClient();
+  const profileKey = queryKeys.profile(user?.id);
 
-  const loadProfile = async () => {
-    if (!user) return;
+  const createProfile = async () => {
+    if (!user) return null;
 
-    try {
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('user_id', user.id)
-        .maybeSingle();
+    const { data, error } = await supabase
+      .from('profiles')
+      .insert({
+        user_id: user.id,
+        display_name: user.email?.split('@')[0] || 'User',
+      })
+      .select()
+      .single();
 
-      if (error) {
-        console.error('Error loading profile:', error);
-        // If profile doesn't exist, create one
-        if (error.code === 'PGRST116') {
-          await createProfile();
-          return;
-        }
-        toast({
-          title: "Error",
-          description: "Failed to load profile.",
-          variant: "destructive",
-        });
-        return;
-      }
-
-      setProfile(data);
-    } catch (error) {
-      console.error('Error loading profile:', error);
-    } finally {
-      setLoading(false);
+    if (error) {
+      console.error('Error creating profile:', error);
+      return null;
     }
+    return data;
   };
 
-  const createProfile = async () => {
-    if (!user) return;
-
-    try {
+  const { data: profile = null, isLoading: loading, refetch } = useQuery({
+    queryKey: profileKey,
+    queryFn: async (): Promise<Profile | null> => {
       const { data, error } = await supabase
         .from('profiles')
-        .insert({
-          user_id: user.id,
-          display_name: user.email?.split('@')[0] || 'User',
-        })
-        .select()
-        .single();
+        .select('*')
+        .eq('user_id', user.id)
+        .maybeSingle();
 
       if (error) {
-        console.error('Error creating profile:', error);
-        return;
+        // If profile doesn't exist, create one
+        if (error.code === 'PGRST116') return await createProfile();
+        throw error;
       }
+      return data;
+    },
+    enabled: !!user,
+    meta: { errorMessage: 'Failed to load profile.' },
+  });
 
-      setProfile(data);
-    } catch (error) {
-      console.error('Error creating profile:', error);
-    }
-  };
-
-  const updateProfile = async (updates: { display_name?: string; avatar_url?: string }) => {
-    if (!user) return null;
-
-    try {
+  const saveProfile = useMutation({
+    mutationFn: async (updates: ProfileUpdates) => {
       // If no profile exists, create one first
       if (!profile) {
-        const { data: newProfile, error: createError } = await supabase
+        const { data, error } = await supabase
           .from('profiles')
           .insert({
+            ...updates,
             user_id: user.id,
             display_name: updates.display_name || user.email?.split('@')[0] || 'User',
             avatar_url: updates.avatar_url || null,
@@ -99,22 +101,8 @@ export const useProfile = () => {
           .select()
           .single();
 
-        if (createError) {
-          console.error('Error creating profile:', createError);
-          toast({
-            title: "Error",
-            description: "Failed to create profile.",
-            variant: "destructive",
-          });
-          return null;
-        }
-
-        setProfile(newProfile);
-        toast({
-          title: "Success",
-          description: "Profile created successfully.",
-        });
-        return newProfile;
+        if (error) throw error;
+        return { saved: data, created: true };
       }
 
       // Update existing profile
@@ -125,33 +113,42 @@ export const useProfile = () => {
         .select()
         .single();
 
-      if (error) {
-        console.error('Error updating profile:', error);
-        toast({
-          title: "Error",
-          description: "Failed to update profile.",
-          variant: "destructive",
-        });
-        return null;
-      }
-
-      setProfile(data);
+      if (error) throw error;
+      return { saved: data, created: false };
+    },
+    onSuccess: ({ saved, created }) => {
+      queryClient.setQueryData(profileKey, saved);
       toast({
         title: "Success",
-        description: "Profile updated successfully.",
+        description: created ? "Profile created successfully." : "Profile updated successfully.",
       });
-      return data;
-    } catch (error) {
-      console.error('Error updating profile:', error);
+    },
+    onError: error => {
+      console.error('Error saving profile:', error);
       toast({
-        title: "Error", 
-        description: "Failed to update profile.",
+        title: "Error",
+        description: profile ? "Failed to update profile." : "Failed to create profile.",
         variant: "destructive",
       });
+    },
+  });
+
+  const updateProfile = async (updates: ProfileUpdates) => {
+    if (!user) return null;
+
+    try {
+      const { saved } = await saveProfile.mutateAsync(updates);
+      return saved;
+    } catch (error) {
+      // Already reported by the mutation
       return null;
     }
   };
 
+  const refreshProfile = async () => {
+    await refetch();
+  };
+
   const uploadAvatar = async (file: File) => {
     if (!user) return null;
 
@@ -224,6 +221,6 @@ export const useProfile = () => {
     updateProfile,
     uploadAvatar,
     changePassword,
-    refreshProfile: loadProfile,
+    refreshProfile,
   };
 };
\ No newline at end of file
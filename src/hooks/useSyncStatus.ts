@@ -0,0 +1,97 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from './useAuth';
+import { toast } from './use-toast';
+import { listPendingMutations, replayOutbox, subscribeOutbox } from '@/lib/outbox';
+
+export type SyncStatus = 'offline' | 'syncing' | 'failed' | 'synced';
+
+// How often queued changes are retried while the connection stays flaky
+const SYNC_RETRY_MS = 30 * 1000;
+
+// Connectivity and the offline outbox: replays queued changes once the
+// network is back and reports where things stand
+export const useSyncStatus = () => {
+  const { user } = useAuth();
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [syncing, setSyncing] = useState(false);
+  // Offline changes the server refused, shown until the user dismisses them
+  const [failedCount, setFailedCount] = useState(0);
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const loadPendingCount = async () => {
+      try {
+        const mutations = await listPendingMutations(user.id);
+        setPendingCount(mutations.length);
+      } catch (error) {
+        console.error('Error reading offline changes:', error);
+      }
+    };
+
+    loadPendingCount();
+    return subscribeOutbox(loadPendingCount);
+  }, [user]);
+
+  useEffect(() => {
+    if (!user || !isOnline || pendingCount === 0) return;
+
+    const sync = async () => {
+      setSyncing(true);
+      try {
+        const { conflicts, rejected } = await replayOutbox(user.id);
+        if (rejected > 0) {
+          setFailedCount(prev => prev + rejected);
+          toast({
+            title: "Some offline changes could not be saved",
+            description: `${rejected} change${rejected === 1 ? ' was' : 's were'} refused by the server. Check your recent entries.`,
+            variant: "destructive",
+          });
+        }
+        if (conflicts > 0) {
+          toast({
+            title: "Some offline changes were skipped",
+            description: `${conflicts} change${conflicts === 1 ? ' was' : 's were'} made on another device in the meantime and kept from there.`,
+          });
+        }
+      } catch (error) {
+        console.error('Error syncing offline changes:', error);
+      } finally {
+        setSyncing(false);
+      }
+    };
+
+    sync();
+    const interval = setInterval(sync, SYNC_RETRY_MS);
+    return () => clearInterval(interval);
+  }, [user, isOnline, pendingCount]);
+
+  const status: SyncStatus = !isOnline
+    ? 'offline'
+    : syncing || pendingCount > 0
+      ? 'syncing'
+      : failedCount > 0 ? 'failed' : 'synced';
+
+  const dismissFailures = () => {
+    setFailedCount(0);
+  };
+
+  return {
+    status,
+    pendingCount,
+    failedCount,
+    dismissFailures,
+  };
+};
@@ -0,0 +1,209 @@
+import { useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import { toast } from './use-toast';
+import type { BreakType } from '@/lib/timeEngine';
+import { deleteLocalRow, insertLocalRow, listLocalRows, toLocalResult, updateLocalRow } from '@/lib/localStore';
+import { insertOrQueue, readWithCache, subscribeOutbox, writeOrQueue } from '@/lib/outbox';
+import { fetchAllRows } from '@/lib/pagination';
+import { queryKeys } from '@/lib/queryClient';
+import { applyRowChange, subscribeToRows } from '@/lib/realtime';
+
+export interface WorkBreak {
+  id: string;
+  user_id: string;
+  session_id: string;
+  start_time: string;
+  end_time: string | null;
+  type: BreakType;
+  created_at: string;
+  updated_at: string;
+}
+
+export type WorkBreakUpdates = Partial<Pick<WorkBreak, 'start_time' | 'end_time' | 'type'>>;
+
+// Stable while loading, so effects depending on the breaks do not rerun
+const NO_BREAKS: WorkBreak[] = [];
+
+const sortByStart = (breaks: WorkBreak[]) => {
+  return breaks.sort((a, b) => a.start_time.localeCompare(b.start_time));
+};
+
+export const useWorkBreaks = () => {
+  const { user, isLocalMode } = useAuth();
+  const queryClient = useQueryClient();
+  const breaksKey = queryKeys.breaks(user?.id);
+
+  const { data: breaks = NO_BREAKS, isPending: loading, refetch } = useQuery({
+    queryKey: breaksKey,
+    queryFn: async () => {
+      const { data, error } = user
+        ? await readWithCache(user.id, 'work_breaks', 'breaks', () => fetchAllRows((from, to) => supabase
+            .from('work_breaks')
+            .select('*')
+            .eq('user_id', user.id)
+            .order('start_time', { ascending: true })
+            .order('id')
+            .range(from, to)))
+        : await toLocalResult(() => listLocalRows('work_breaks'));
+
+      if (error) throw error;
+      return sortByStart((data || []) as WorkBreak[]);
+    },
+    enabled: !!user || isLocalMode,
+    meta: { errorMessage: 'Failed to load breaks.' },
+  });
+
+  const setBreaks = (update: (prev: WorkBreak[]) => WorkBreak[]) => {
+    queryClient.setQueryData<WorkBreak[]>(breaksKey, prev => prev && update(prev));
+  };
+
+  // Offline changes that were just sent may have been overridden
+  useEffect(() => {
+    return subscribeOutbox(event => {
+      if (event === 'replayed') queryClient.invalidateQueries({ queryKey: breaksKey });
+    });
+  }, [user]);
+
+  // Changes made on other devices
+  useEffect(() => {
+    if (!user) return;
+
+    return subscribeToRows<WorkBreak>('work_breaks', user.id, payload => {
+      setBreaks(prev => sortByStart(applyRowChange(prev, payload)));
+    });
+  }, [user]);
+
+  const refreshBreaks = async () => {
+    await refetch();
+  };
+
+  const createBreak = async (breakData: {
+    session_id: string;
+    start_time: string;
+    end_time?: string | null;
+    type: BreakType;
+  }) => {
+    if (!user && !isLocalMode) return null;
+
+    try {
+      const { data, error } = user
+        ? await insertOrQueue(user.id, 'work_breaks', breakData, row => supabase
+            .from('work_breaks')
+            .insert({
+              id: row.id,
+              user_id: user.id,
+              ...breakData,
+            })
+            .select()
+            .single())
+        : await toLocalResult(() => insertLocalRow('work_breaks', breakData));
+
+      if (error) {
+        console.error('Error creating break:', error);
+        toast({
+          title: "Error",
+          description: "Failed to save break.",
+          variant: "destructive",
+        });
+        return null;
+      }
+
+      const created = data as WorkBreak;
+      setBreaks(prev => [...prev, created]);
+      return created;
+    } catch (error) {
+      console.error('Error creating break:', error);
+      return null;
+    }
+  };
+
+  const updateBreak = async (breakId: string, updates: WorkBreakUpdates) => {
+    if (!user && !isLocalMode) return null;
+
+    try {
+      const current = breaks.find(workBreak => workBreak.id === breakId);
+      const row = current && { ...current, ...updates };
+      const { data, error } = user
+        ? await writeOrQueue(user.id, { table: 'work_breaks', operation: 'update', row, values: updates }, () => supabase
+            .from('work_breaks')
+            .update(updates)
+            .eq('id', breakId)
+            .eq('user_id', user.id)
+            .select()
+            .single())
+        : await toLocalResult(() => updateLocalRow('work_breaks', breakId, updates));
+
+      if (error) {
+        console.error('Error updating break:', error);
+        toast({
+          title: "Error",
+          description: "Failed to update break.",
+          variant: "destructive",
+        });
+        return null;
+      }
+
+      const updated = data as WorkBreak;
+      setBreaks(prev => prev.map(workBreak =>
+        workBreak.id === breakId ? updated : workBreak
+      ));
+      return updated;
+    } catch (error) {
+      console.error('Error updating break:', error);
+      return null;
+    }
+  };
+
+  // End whichever break of the session is still open
+  const endOpenBreak = async (sessionId: string, endTime: string) => {
+    const openBreak = breaks.find(workBreak =>
+      workBreak.session_id === sessionId && !workBreak.end_time
+    );
+    if (!openBreak) return null;
+
+    return await updateBreak(openBreak.id, { end_time: endTime });
+  };
+
+  const deleteBreak = async (breakId: string) => {
+    if (!user && !isLocalMode) return false;
+
+    try {
+      const row = breaks.find(workBreak => workBreak.id === breakId);
+      const { error } = user
+        ? await writeOrQueue(user.id, { table: 'work_breaks', operation: 'delete', row, values: {} }, () => supabase
+            .from('work_breaks')
+            .delete()
+            .eq('id', breakId)
+            .eq('user_id', user.id))
+        : await toLocalResult(() => deleteLocalRow('work_breaks', breakId));
+
+      if (error) {
+        console.error('Error deleting break:', error);
+        toast({
+          title: "Error",
+          description: "Failed to delete break.",
+          variant: "destructive",
+        });
+        return false;
+      }
+
+      setBreaks(prev => prev.filter(workBreak => workBreak.id !== breakId));
+      return true;
+    } catch (error) {
+      console.error('Error deleting break:', error);
+      return false;
+    }
+  };
+
+  return {
+    breaks,
+    loading,
+    createBreak,
+    updateBreak,
+    endOpenBreak,
+    deleteBreak,
+    refreshBreaks,
+  };
+};
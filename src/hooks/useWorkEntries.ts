@@ -1,7 +1,13 @@
-import { useState, useEffect } from 'react';
+import { useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './useAuth';
 import { toast } from './use-toast';
+import { insertLocalRow, listLocalRows, toLocalResult, updateLocalRow } from '@/lib/localStore';
+import { insertOrQueue, readWithCache, subscribeOutbox, writeOrQueue } from '@/lib/outbox';
+import { fetchAllRows } from '@/lib/pagination';
+import { queryKeys } from '@/lib/queryClient';
+import { applyRowChange, subscribeToRows } from '@/lib/realtime';
 
 export interface WorkEntry {
   id: string;
@@ -14,71 +20,101 @@ export interface WorkEntry {
   total_paused_ms: number;
   name: string | null;
   status: string;
+  deleted_at: string | null;
   created_at: string;
   updated_at: string;
 }
 
+// Stable while loading, so effects depending on the entries do not rerun
+const NO_ENTRIES: WorkEntry[] = [];
+
+// Newest first, without the entries in the trash
+const listedEntries = (entries: WorkEntry[]) => {
+  return entries
+    .filter(entry => !entry.deleted_at)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+};
+
 export const useWorkEntries = () => {
-  const { user } = useAuth();
-  const [entries, setEntries] = useState<WorkEntry[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { user, isLocalMode } = useAuth();
+  const queryClient = useQueryClient();
+  const entriesKey = queryKeys.entries(user?.id);
+
+  const { data: entries = NO_ENTRIES, isPending: loading, refetch } = useQuery({
+    queryKey: entriesKey,
+    queryFn: async () => {
+      const { data, error } = user
+        ? await readWithCache(user.id, 'work_entries', 'entries', () => fetchAllRows((from, to) => supabase
+            .from('work_entries')
+            .select('*')
+            .eq('user_id', user.id)
+            .is('deleted_at', null)
+            .order('created_at', { ascending: false })
+            .order('id')
+            .range(from, to)))
+        : await toLocalResult(() => listLocalRows('work_entries'));
+
+      if (error) throw error;
+
+      // All pages are loaded, as the flextime balance, exports and timesheets
+      // add up the whole history. Filtered and sorted again here, as changes
+      // made offline may have added or deleted entries
+      return listedEntries(data || []);
+    },
+    enabled: !!user || isLocalMode,
+    meta: { errorMessage: 'Failed to load work entries.' },
+  });
+
+  // Writes go straight into the shared cache, so every consumer sees them
+  const setEntries = (update: (prev: WorkEntry[]) => WorkEntry[]) => {
+    queryClient.setQueryData<WorkEntry[]>(entriesKey, prev => prev && update(prev));
+  };
 
-  // Load entries on mount
+  // Offline changes that were just sent may have been overridden
   useEffect(() => {
-    if (user) {
-      loadEntries();
-    }
+    return subscribeOutbox(event => {
+      if (event === 'replayed') queryClient.invalidateQueries({ queryKey: entriesKey });
+    });
   }, [user]);
 
-  const loadEntries = async () => {
+  // Changes made on other devices
+  useEffect(() => {
     if (!user) return;
 
-    try {
-      const { data, error } = await supabase
-        .from('work_entries')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        console.error('Error loading entries:', error);
-        toast({
-          title: "Error",
-          description: "Failed to load work entries.",
-          variant: "destructive",
-        });
-        return;
-      }
+    return subscribeToRows<WorkEntry>('work_entries', user.id, payload => {
+      setEntries(prev => listedEntries(applyRowChange(prev, payload)));
+    });
+  }, [user]);
 
-      setEntries(data || []);
-    } catch (error) {
-      console.error('Error loading entries:', error);
-    } finally {
-      setLoading(false);
-    }
+  const refreshEntries = async () => {
+    await refetch();
   };
 
   const createEntry = async (entryData: {
     session_id: string;
     date: string;
     check_in: string;
+    check_out?: string | null;
     total_worked_ms?: number;
     total_paused_ms?: number;
     status: string;
   }) => {
-    if (!user) return null;
+    if (!user && !isLocalMode) return null;
 
     try {
-      const { data, error } = await supabase
-        .from('work_entries')
-        .insert({
-          user_id: user.id,
-          ...entryData,
-          total_worked_ms: entryData.total_worked_ms || 0,
-          total_paused_ms: entryData.total_paused_ms || 0,
-        })
-        .select()
-        .single();
+      const values = {
+        ...entryData,
+        total_worked_ms: entryData.total_worked_ms || 0,
+        total_paused_ms: entryData.total_paused_ms || 0,
+      };
+
+      const { data, error } = user
+        ? await insertOrQueue(user.id, 'work_entries', values, row => supabase
+            .from('work_entries')
+            .insert({ id: row.id, user_id: user.id, ...values })
+            .select()
+            .single())
+        : await toLocalResult(() => insertLocalRow('work_entries', values));
 
       if (error) {
         console.error('Error creating entry:', error);
@@ -99,16 +135,20 @@ export const useWorkEntries = () => {
   };
 
   const updateEntry = async (entryId: string, updates: Partial<WorkEntry>) => {
-    if (!user) return null;
+    if (!user && !isLocalMode) return null;
 
     try {
-      const { data, error } = await supabase
-        .from('work_entries')
-        .update(updates)
-        .eq('id', entryId)
-        .eq('user_id', user.id)
-        .select()
-        .single();
+      const current = entries.find(entry => entry.id === entryId);
+      const row = current && { ...current, ...updates };
+      const { data, error } = user
+        ? await writeOrQueue(user.id, { table: 'work_entries', operation: 'update', row, values: updates }, () => supabase
+            .from('work_entries')
+            .update(updates)
+            .eq('id', entryId)
+            .eq('user_id', user.id)
+            .select()
+            .single())
+        : await toLocalResult(() => updateLocalRow('work_entries', entryId, updates));
 
       if (error) {
         console.error('Error updating entry:', error);
@@ -125,15 +165,21 @@ export const useWorkEntries = () => {
     }
   };
 
+  // Move an entry to the trash; it can be restored until it is purged
   const deleteEntry = async (entryId: string) => {
-    if (!user) return false;
+    if (!user && !isLocalMode) return false;
 
     try {
-      const { error } = await supabase
-        .from('work_entries')
-        .delete()
-        .eq('id', entryId)
-        .eq('user_id', user.id);
+      const deletedAt = new Date().toISOString();
+      const current = entries.find(entry => entry.id === entryId);
+      const row = current && { ...current, deleted_at: deletedAt };
+      const { error } = user
+        ? await writeOrQueue(user.id, { table: 'work_entries', operation: 'update', row, values: { deleted_at: deletedAt } }, () => supabase
+            .from('work_entries')
+            .update({ deleted_at: deletedAt })
+            .eq('id', entryId)
+            .eq('user_id', user.id))
+        : await toLocalResult(() => updateLocalRow('work_entries', entryId, { deleted_at: deletedAt }));
 
       if (error) {
         console.error('Error deleting entry:', error);
@@ -153,6 +199,38 @@ export const useWorkEntries = () => {
     }
   };
 
+  const restoreEntry = async (entryId: string) => {
+    if (!user && !isLocalMode) return null;
+
+    try {
+      const { data, error } = user
+        ? await supabase
+            .from('work_entries')
+            .update({ deleted_at: null })
+            .eq('id', entryId)
+            .eq('user_id', user.id)
+            .select()
+            .single()
+        : await toLocalResult(() => updateLocalRow('work_entries', entryId, { deleted_at: null }));
+
+      if (error) {
+        console.error('Error restoring entry:', error);
+        toast({
+          title: "Error",
+          description: "Failed to restore work entry.",
+          variant: "destructive",
+        });
+        return null;
+      }
+
+      setEntries(prev => [...prev, data].sort((a, b) => b.created_at.localeCompare(a.created_at)));
+      return data;
+    } catch (error) {
+      console.error('Error restoring entry:', error);
+      return null;
+    }
+  };
+
   const renameEntry = async (entryId: string, newName: string) => {
     return await updateEntry(entryId, { name: newName });
   };
@@ -163,7 +241,8 @@ export const useWorkEntries = () => {
     createEntry,
     updateEntry,
     deleteEntry,
+    restoreEntry,
     renameEntry,
-    refreshEntries: loadEntries,
+    refreshEntries,
   };
 };
\ No newline at end of file
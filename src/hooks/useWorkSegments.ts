@@ -0,0 +1,224 @@
+import { useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import { toast } from './use-toast';
+import { deleteLocalRow, insertLocalRow, listLocalRows, toLocalResult, updateLocalRow } from '@/lib/localStore';
+import { insertOrQueue, readWithCache, subscribeOutbox, writeOrQueue } from '@/lib/outbox';
+import { fetchAllRows } from '@/lib/pagination';
+import { queryKeys } from '@/lib/queryClient';
+import { applyRowChange, subscribeToRows } from '@/lib/realtime';
+
+export interface WorkSegment {
+  id: string;
+  user_id: string;
+  session_id: string;
+  entry_id: string;
+  check_in: string;
+  check_out: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Stable while loading, so effects depending on the segments do not rerun
+const NO_SEGMENTS: WorkSegment[] = [];
+
+const sortByCheckIn = (segments: WorkSegment[]) => {
+  return segments.sort((a, b) => a.check_in.localeCompare(b.check_in));
+};
+
+export const useWorkSegments = () => {
+  const { user, isLocalMode } = useAuth();
+  const queryClient = useQueryClient();
+  const segmentsKey = queryKeys.segments(user?.id);
+
+  const { data: segments = NO_SEGMENTS, isPending: loading, refetch } = useQuery({
+    queryKey: segmentsKey,
+    queryFn: async () => {
+      const { data, error } = user
+        ? await readWithCache(user.id, 'work_segments', 'segments', () => fetchAllRows((from, to) => supabase
+            .from('work_segments')
+            .select('*')
+            .eq('user_id', user.id)
+            .order('check_in', { ascending: true })
+            .order('id')
+            .range(from, to)))
+        : await toLocalResult(() => listLocalRows('work_segments'));
+
+      if (error) throw error;
+      return sortByCheckIn(data || []);
+    },
+    enabled: !!user || isLocalMode,
+    meta: { errorMessage: 'Failed to load work segments.' },
+  });
+
+  const setSegments = (update: (prev: WorkSegment[]) => WorkSegment[]) => {
+    queryClient.setQueryData<WorkSegment[]>(segmentsKey, prev => prev && update(prev));
+  };
+
+  // Offline changes that were just sent may have been overridden
+  useEffect(() => {
+    return subscribeOutbox(event => {
+      if (event === 'replayed') queryClient.invalidateQueries({ queryKey: segmentsKey });
+    });
+  }, [user]);
+
+  // Changes made on other devices
+  useEffect(() => {
+    if (!user) return;
+
+    return subscribeToRows<WorkSegment>('work_segments', user.id, payload => {
+      setSegments(prev => sortByCheckIn(applyRowChange(prev, payload)));
+    });
+  }, [user]);
+
+  const refreshSegments = async () => {
+    await refetch();
+  };
+
+  const createSegment = async (segmentData: {
+    session_id: string;
+    entry_id: string;
+    check_in: string;
+    check_out?: string | null;
+  }) => {
+    if (!user && !isLocalMode) return null;
+
+    try {
+      const { data, error } = user
+        ? await insertOrQueue(user.id, 'work_segments', segmentData, row => supabase
+            .from('work_segments')
+            .insert({
+              id: row.id,
+              user_id: user.id,
+              ...segmentData,
+            })
+            .select()
+            .single())
+        : await toLocalResult(() => insertLocalRow('work_segments', segmentData));
+
+      if (error) {
+        console.error('Error creating segment:', error);
+        return null;
+      }
+
+      setSegments(prev => [...prev, data]);
+      return data;
+    } catch (error) {
+      console.error('Error creating segment:', error);
+      return null;
+    }
+  };
+
+  const openSegment = async (segmentData: {
+    session_id: string;
+    entry_id: string;
+    check_in: string;
+  }) => {
+    return await createSegment(segmentData);
+  };
+
+  // Close whichever segment of the session is still open
+  const closeOpenSegment = async (sessionId: string, checkOut: string) => {
+    if (!user && !isLocalMode) return null;
+
+    const openSegment = segments.find(segment =>
+      segment.session_id === sessionId && !segment.check_out
+    );
+    if (!openSegment) return null;
+
+    try {
+      const row = { ...openSegment, check_out: checkOut };
+      const { data, error } = user
+        ? await writeOrQueue(user.id, { table: 'work_segments', operation: 'update', row, values: { check_out: checkOut } }, () => supabase
+            .from('work_segments')
+            .update({ check_out: checkOut })
+            .eq('id', openSegment.id)
+            .eq('user_id', user.id)
+            .select()
+            .single())
+        : await toLocalResult(() => updateLocalRow('work_segments', openSegment.id, { check_out: checkOut }));
+
+      if (error) {
+        console.error('Error closing segment:', error);
+        return null;
+      }
+
+      setSegments(prev => prev.map(segment =>
+        segment.id === openSegment.id ? data : segment
+      ));
+      return data;
+    } catch (error) {
+      console.error('Error closing segment:', error);
+      return null;
+    }
+  };
+
+  const updateSegment = async (segmentId: string, updates: Partial<Pick<WorkSegment, 'check_in' | 'check_out'>>) => {
+    if (!user && !isLocalMode) return null;
+
+    try {
+      const current = segments.find(segment => segment.id === segmentId);
+      const row = current && { ...current, ...updates };
+      const { data, error } = user
+        ? await writeOrQueue(user.id, { table: 'work_segments', operation: 'update', row, values: updates }, () => supabase
+            .from('work_segments')
+            .update(updates)
+            .eq('id', segmentId)
+            .eq('user_id', user.id)
+            .select()
+            .single())
+        : await toLocalResult(() => updateLocalRow('work_segments', segmentId, updates));
+
+      if (error) {
+        console.error('Error updating segment:', error);
+        return null;
+      }
+
+      setSegments(prev => prev.map(segment =>
+        segment.id === segmentId ? data : segment
+      ));
+      return data;
+    } catch (error) {
+      console.error('Error updating segment:', error);
+      return null;
+    }
+  };
+
+  const deleteSegment = async (segmentId: string) => {
+    if (!user && !isLocalMode) return false;
+
+    try {
+      const row = segments.find(segment => segment.id === segmentId);
+      const { error } = user
+        ? await writeOrQueue(user.id, { table: 'work_segments', operation: 'delete', row, values: {} }, () => supabase
+            .from('work_segments')
+            .delete()
+            .eq('id', segmentId)
+            .eq('user_id', user.id))
+        : await toLocalResult(() => deleteLocalRow('work_segments', segmentId));
+
+      if (error) {
+        console.error('Error deleting segment:', error);
+        return false;
+      }
+
+      setSegments(prev => prev.filter(segment => segment.id !== segmentId));
+      return true;
+    } catch (error) {
+      console.error('Error deleting segment:', error);
+      return false;
+    }
+  };
+
+  return {
+    segments,
+    loading,
+    createSegment,
+    openSegment,
+    closeOpenSegment,
+    updateSegment,
+    deleteSegment,
+    refreshSegments,
+  };
+};
@@ -1,13 +1,32 @@
-import { useState, useEffect } from 'react';
+import { useEffect, useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { PostgrestError } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './useAuth';
+import { useProfile } from './useProfile';
 import { toast } from './use-toast';
+import {
+  fromZonedDateTime,
+  getDisplayPreferences,
+  shiftDateKey,
+  toZonedDateKey,
+  toZonedTimeString,
+} from '@/lib/datetime';
+import { insertLocalRow, listLocalRows, toLocalResult, updateLocalRow } from '@/lib/localStore';
+import { insertOrQueue, isNetworkError, readWithCache, subscribeOutbox, writeOrQueue } from '@/lib/outbox';
+import { queryKeys } from '@/lib/queryClient';
+import { applyRowChange, subscribeToRows } from '@/lib/realtime';
+
+// Wall-clock time on the morning after its date at which a workday is over,
+// so a night shift that started yesterday is still found after midnight
+const DAY_OVER_AT = '06:00';
 
 interface WorkSession {
   id: string;
   user_id: string;
   date: string;
   arrival_time: string;
+  arrival_at: string;
   required_work_hours: number;
   required_work_minutes: number;
   is_active: boolean;
@@ -22,79 +41,225 @@ interface WorkSession {
   updated_at: string;
 }
 
+// Postgres unique_violation, raised when the day already has an active session
+const UNIQUE_VIOLATION = '23505';
+
+const hasDuplicateDays = (sessions: WorkSession[]) => {
+  return new Set(sessions.map(session => session.date)).size < sessions.length;
+};
+
+// Outcome of a timer transition run on the server: 'unavailable' means it
+// could not be reached (no account, or offline), so the caller applies the
+// transition itself
+export type ServerTransition = 'applied' | 'rejected' | 'unavailable';
+
+// An active session whose workday is not over yet in the user's timezone
+const isCurrentSession = (session: WorkSession, timezone: string) => {
+  const dayOver = fromZonedDateTime(shiftDateKey(session.date, 1), DAY_OVER_AT, timezone);
+  return session.is_active && Date.now() < dayOver.getTime();
+};
+
+// Latest arrival first, without the sessions that are over
+const activeOnly = (sessions: WorkSession[]) => {
+  return sessions
+    .filter(session => session.is_active)
+    .sort((a, b) => b.arrival_at.localeCompare(a.arrival_at));
+};
+
+// Stable while loading, so effects depending on the sessions do not rerun
+const NO_SESSIONS: WorkSession[] = [];
+
+interface TransitionVariables {
+  request: () => PromiseLike<{ data: WorkSession | null; error: PostgrestError | null }>;
+  // Shown right away and rolled back should the server reject it
+  optimistic?: Partial<WorkSession>;
+}
+
 export const useWorkSession = () => {
-  const { user } = useAuth();
-  const [currentSession, setCurrentSession] = useState<WorkSession | null>(null);
-  const [loading, setLoading] = useState(true);
+  const { user, isLocalMode } = useAuth();
+  const { profile } = useProfile();
+  // Dates and wall-clock times of a session are those of the user's timezone
+  const { timezone } = getDisplayPreferences(profile);
+  const queryClient = useQueryClient();
+  const sessionsKey = queryKeys.sessions(user?.id);
 
-  // Load current session on mount
-  useEffect(() => {
-    if (user) {
-      loadCurrentSession();
+  const loadActiveSessions = async (): Promise<WorkSession[]> => {
+    const { data, error } = user
+      ? await readWithCache(user.id, 'work_sessions', 'active_sessions', () => supabase
+          .from('work_sessions')
+          .select('*')
+          .eq('user_id', user.id)
+          .eq('is_active', true)
+          .order('arrival_at', { ascending: false }))
+      : await toLocalResult(() => listLocalRows('work_sessions'));
+
+    if (error) throw error;
+
+    // Filtered again here, as changes made offline may have started or
+    // ended a session
+    const activeSessions = activeOnly(data);
+
+    // Duplicates of a day from before the database prevented them are
+    // merged there, then loaded again
+    if (user && hasDuplicateDays(activeSessions.filter(session => isCurrentSession(session, timezone)))) {
+      const { data: merged, error: repairError } = await supabase.rpc('repair_active_sessions');
+      if (repairError) {
+        console.error('Error repairing sessions:', repairError);
+      } else if (merged > 0) {
+        return loadActiveSessions();
+      }
     }
+
+    return activeSessions;
+  };
+
+  const { data: activeSessions = NO_SESSIONS, isPending: loading, refetch } = useQuery({
+    queryKey: sessionsKey,
+    queryFn: loadActiveSessions,
+    enabled: !!user || isLocalMode,
+    meta: { errorMessage: 'Failed to load work session.' },
+  });
+
+  const currentSession = useMemo(
+    () => activeSessions.find(session => isCurrentSession(session, timezone)) ?? null,
+    [activeSessions, timezone]
+  );
+  // Active sessions of earlier workdays that were never checked out of
+  const staleSessions = useMemo(
+    () => activeSessions.filter(session => !isCurrentSession(session, timezone)),
+    [activeSessions, timezone]
+  );
+
+  const setSessions = (update: (prev: WorkSession[]) => WorkSession[]) => {
+    queryClient.setQueryData<WorkSession[]>(sessionsKey, prev => prev && update(prev));
+  };
+
+  // Keep a session that was written in the cache, or drop it once it is over
+  const storeSession = (session: WorkSession) => {
+    setSessions(prev => activeOnly([...prev.filter(candidate => candidate.id !== session.id), session]));
+  };
+
+  // Offline changes that were just sent may have been overridden
+  useEffect(() => {
+    return subscribeOutbox(event => {
+      if (event === 'replayed') queryClient.invalidateQueries({ queryKey: sessionsKey });
+    });
   }, [user]);
 
-  const loadCurrentSession = async () => {
+  // Pause, resume and check-out from other devices, or a session started on one
+  useEffect(() => {
     if (!user) return;
 
+    return subscribeToRows<WorkSession>('work_sessions', user.id, payload => {
+      setSessions(prev => activeOnly(applyRowChange(prev, payload)));
+    });
+  }, [user]);
+
+  const refreshSession = async () => {
+    await refetch();
+  };
+
+  const createSession = async (
+    arrivalAt: Date,
+    requiredWorkHours: number,
+    requiredWorkMinutes: number
+  ) => {
+    if (!user && !isLocalMode) return null;
+
     try {
-      const today = new Date().toISOString().split('T')[0];
-      
-      const { data, error } = await supabase
-        .from('work_sessions')
-        .select('*')
-        .eq('user_id', user.id)
-        .eq('date', today)
-        .eq('is_active', true)
-        .maybeSingle();
+      const now = new Date().toISOString();
+      const values = {
+        // The workday belongs to the day the shift started on
+        date: toZonedDateKey(arrivalAt, timezone),
+        arrival_time: toZonedTimeString(arrivalAt, timezone),
+        arrival_at: arrivalAt.toISOString(),
+        required_work_hours: requiredWorkHours,
+        required_work_minutes: requiredWorkMinutes,
+        is_active: true,
+        is_running: true,
+        is_paused: false,
+        start_time: now,
+        current_session_start: now,
+        total_worked_ms: 0,
+        total_paused_ms: 0,
+      };
+
+      // Starting twice (a double click, a second tab) returns the session
+      // that is already running instead of a duplicate
+      const { data, error } = user
+        ? await insertOrQueue(user.id, 'work_sessions', values, row => supabase
+            .from('work_sessions')
+            .insert({ id: row.id, user_id: user.id, ...values })
+            .select()
+            .single())
+        : await toLocalResult(async () => {
+            const sessions = await listLocalRows('work_sessions');
+            return sessions.find(session => session.is_active && session.date === values.date)
+              ?? insertLocalRow('work_sessions', values);
+          });
+
+      if (user && error && 'code' in error && error.code === UNIQUE_VIOLATION) {
+        const { data: existing } = await supabase
+          .from('work_sessions')
+          .select('*')
+          .eq('user_id', user.id)
+          .eq('date', values.date)
+          .eq('is_active', true)
+          .maybeSingle();
+        if (existing) {
+          storeSession(existing);
+          return existing;
+        }
+      }
 
       if (error) {
-        console.error('Error loading session:', error);
+        console.error('Error creating session:', error);
         toast({
           title: "Error",
-          description: "Failed to load work session.",
+          description: "Failed to create work session.",
           variant: "destructive",
         });
-        return;
+        return null;
       }
 
-      setCurrentSession(data);
+      storeSession(data);
+      return data;
     } catch (error) {
-      console.error('Error loading session:', error);
-    } finally {
-      setLoading(false);
+      console.error('Error creating session:', error);
+      return null;
     }
   };
 
-  const createSession = async (
-    arrivalTime: string,
+  // A finished session for a day tracked by hand; the current session is untouched
+  const createCompletedSession = async (
+    arrivalAt: Date,
     requiredWorkHours: number,
-    requiredWorkMinutes: number
+    requiredWorkMinutes: number,
+    totals: { total_worked_ms: number; total_paused_ms: number }
   ) => {
-    if (!user) return null;
+    if (!user && !isLocalMode) return null;
 
     try {
-      const today = new Date().toISOString().split('T')[0];
-      const now = new Date().toISOString();
+      const values = {
+        date: toZonedDateKey(arrivalAt, timezone),
+        arrival_time: toZonedTimeString(arrivalAt, timezone),
+        arrival_at: arrivalAt.toISOString(),
+        required_work_hours: requiredWorkHours,
+        required_work_minutes: requiredWorkMinutes,
+        is_active: false,
+        is_running: false,
+        is_paused: false,
+        start_time: arrivalAt.toISOString(),
+        ...totals,
+      };
 
-      const { data, error } = await supabase
-        .from('work_sessions')
-        .insert({
-          user_id: user.id,
-          date: today,
-          arrival_time: arrivalTime,
-          required_work_hours: requiredWorkHours,
-          required_work_minutes: requiredWorkMinutes,
-          is_active: true,
-          is_running: true,
-          is_paused: false,
-          start_time: now,
-          current_session_start: now,
-          total_worked_ms: 0,
-          total_paused_ms: 0,
-        })
-        .select()
-        .single();
+      const { data, error } = user
+        ? await insertOrQueue(user.id, 'work_sessions', values, row => supabase
+            .from('work_sessions')
+            .insert({ id: row.id, user_id: user.id, ...values })
+            .select()
+            .single())
+        : await toLocalResult(() => insertLocalRow('work_sessions', values));
 
       if (error) {
         console.error('Error creating session:', error);
@@ -106,7 +271,6 @@ export const useWorkSession = () => {
         return null;
       }
 
-      setCurrentSession(data);
       return data;
     } catch (error) {
       console.error('Error creating session:', error);
@@ -114,23 +278,59 @@ export const useWorkSession = () => {
     }
   };
 
+  // Update any session, e.g. a past one whose entry was corrected
+  const updateSessionById = async (sessionId: string, updates: Partial<WorkSession>) => {
+    if (!user && !isLocalMode) return null;
+
+    try {
+      // Only sessions loaded here are known well enough to stand in offline
+      const known = activeSessions.find(session => session.id === sessionId);
+      const row = known ? { ...known, ...updates } : undefined;
+      const { data, error } = user
+        ? await writeOrQueue(user.id, { table: 'work_sessions', operation: 'update', row, values: updates }, () => supabase
+            .from('work_sessions')
+            .update(updates)
+            .eq('id', sessionId)
+            .eq('user_id', user.id)
+            .select()
+            .single())
+        : await toLocalResult(() => updateLocalRow('work_sessions', sessionId, updates));
+
+      if (error) {
+        console.error('Error updating session:', error);
+        return null;
+      }
+
+      if (activeSessions.some(session => session.id === sessionId)) {
+        storeSession(data);
+      }
+      return data;
+    } catch (error) {
+      console.error('Error updating session:', error);
+      return null;
+    }
+  };
+
   const updateSession = async (updates: Partial<WorkSession>) => {
-    if (!user || !currentSession) return null;
+    if ((!user && !isLocalMode) || !currentSession) return null;
 
     try {
-      const { data, error } = await supabase
-        .from('work_sessions')
-        .update(updates)
-        .eq('id', currentSession.id)
-        .select()
-        .single();
+      const row = { ...currentSession, ...updates };
+      const { data, error } = user
+        ? await writeOrQueue(user.id, { table: 'work_sessions', operation: 'update', row, values: updates }, () => supabase
+            .from('work_sessions')
+            .update(updates)
+            .eq('id', currentSession.id)
+            .select()
+            .single())
+        : await toLocalResult(() => updateLocalRow('work_sessions', currentSession.id, updates));
 
       if (error) {
         console.error('Error updating session:', error);
         return null;
       }
 
-      setCurrentSession(data);
+      storeSession(data);
       return data;
     } catch (error) {
       console.error('Error updating session:', error);
@@ -138,6 +338,106 @@ export const useWorkSession = () => {
     }
   };
 
+  const transition = useMutation({
+    mutationFn: async ({ request }: TransitionVariables) => {
+      const { data, error } = await request();
+      if (error) throw error;
+      return data;
+    },
+    onMutate: async ({ optimistic }) => {
+      await queryClient.cancelQueries({ queryKey: sessionsKey });
+      const previous = queryClient.getQueryData<WorkSession[]>(sessionsKey);
+      if (optimistic && currentSession) {
+        storeSession({ ...currentSession, ...optimistic });
+      }
+      return { previous };
+    },
+    onError: (_error, _variables, context) => {
+      queryClient.setQueryData(sessionsKey, context?.previous);
+    },
+    onSuccess: data => {
+      storeSession(data);
+    },
+  });
+
+  // Timer transitions run in the database with the server's clock, which
+  // also rejects illegal ones such as pausing a paused session
+  const runTransition = async (name: string, variables: TransitionVariables): Promise<ServerTransition> => {
+    if (!user || !navigator.onLine) return 'unavailable';
+
+    try {
+      await transition.mutateAsync(variables);
+      return 'applied';
+    } catch (error) {
+      const failure = error as PostgrestError;
+      if (isNetworkError(failure)) return 'unavailable';
+
+      console.error(`Error running ${name}:`, failure);
+      toast({
+        title: "Error",
+        description: failure.message,
+        variant: "destructive",
+      });
+      return 'rejected';
+    }
+  };
+
+  const startSessionOnServer = (arrivalAt: Date, requiredWorkHours: number, requiredWorkMinutes: number) => {
+    return runTransition('start_session', {
+      request: () => supabase.rpc('start_session', {
+        p_arrival_at: arrivalAt.toISOString(),
+        p_date: toZonedDateKey(arrivalAt, timezone),
+        p_arrival_time: toZonedTimeString(arrivalAt, timezone),
+        p_required_work_hours: requiredWorkHours,
+        p_required_work_minutes: requiredWorkMinutes,
+      }),
+    });
+  };
+
+  const pauseSessionOnServer = (sessionId: string) => {
+    const now = new Date().toISOString();
+    return runTransition('pause_session', {
+      request: () => supabase.rpc('pause_session', { p_session_id: sessionId }),
+      optimistic: { is_running: false, is_paused: true, current_session_start: null, pause_start_time: now },
+    });
+  };
+
+  const resumeSessionOnServer = (sessionId: string) => {
+    const now = new Date().toISOString();
+    return runTransition('resume_session', {
+      request: () => supabase.rpc('resume_session', { p_session_id: sessionId }),
+      optimistic: { is_running: true, is_paused: false, current_session_start: now, pause_start_time: null },
+    });
+  };
+
+  const completeSessionOnServer = (sessionId: string) => {
+    return runTransition('complete_session', {
+      request: () => supabase.rpc('complete_session', { p_session_id: sessionId }),
+    });
+  };
+
+  // Sessions left running past the end of their workday are closed in the
+  // database, at the time they most likely ended
+  const closeStaleSessionsOnServer = async (): Promise<ServerTransition> => {
+    if (!user || !navigator.onLine) return 'unavailable';
+
+    try {
+      const { error } = await supabase.rpc('close_own_stale_sessions');
+      if (isNetworkError(error)) return 'unavailable';
+
+      if (error) {
+        console.error('Error closing stale sessions:', error);
+        return 'rejected';
+      }
+
+      setSessions(prev => prev.filter(session => isCurrentSession(session, timezone)));
+      return 'applied';
+    } catch (error) {
+      console.error('Error closing stale sessions:', error);
+      return 'rejected';
+    }
+  };
+
   const completeSession = async () => {
     if (!currentSession) return;
 
@@ -150,7 +450,7 @@ export const useWorkSession = () => {
         pause_start_time: null,
       });
 
-      setCurrentSession(null);
+      setSessions(prev => prev.filter(session => session.id !== currentSession.id));
     } catch (error) {
       console.error('Error completing session:', error);
     }
@@ -158,10 +458,18 @@ export const useWorkSession = () => {
 
   return {
     currentSession,
+    staleSessions,
     loading,
     createSession,
+    createCompletedSession,
     updateSession,
+    updateSessionById,
     completeSession,
-    refreshSession: loadCurrentSession,
+    startSessionOnServer,
+    pauseSessionOnServer,
+    resumeSessionOnServer,
+    completeSessionOnServer,
+    closeStaleSessionsOnServer,
+    refreshSession,
   };
 };
\ No newline at end of file
@@ -14,39 +14,189 @@ export type Database = {
   }
   public: {
     Tables: {
+      absences: {
+        Row: {
+          created_at: string
+          date: string
+          half_day: boolean
+          id: string
+          note: string | null
+          type: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          date: string
+          half_day?: boolean
+          id?: string
+          note?: string | null
+          type: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          date?: string
+          half_day?: boolean
+          id?: string
+          note?: string | null
+          type?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          changed_fields: string[]
+          created_at: string
+          hash: string
+          id: number
+          new_data: Json | null
+          old_data: Json | null
+          previous_hash: string | null
+          record_id: string
+          table_name: string
+          user_id: string
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          changed_fields?: string[]
+          created_at?: string
+          hash: string
+          id?: number
+          new_data?: Json | null
+          old_data?: Json | null
+          previous_hash?: string | null
+          record_id: string
+          table_name: string
+          user_id: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          changed_fields?: string[]
+          created_at?: string
+          hash?: string
+          id?: number
+          new_data?: Json | null
+          old_data?: Json | null
+          previous_hash?: string | null
+          record_id?: string
+          table_name?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           avatar_url: string | null
+          break_rule_set: string
           created_at: string
           display_name: string | null
+          flextime_carry_over_date: string | null
+          flextime_start_balance_ms: number
+          holiday_calendar: string | null
+          hour12: boolean
           id: string
+          locale: string
+          timezone: string | null
           updated_at: string
           user_id: string
+          vacation_days_per_year: number
+          week_starts_on: number
+          weekly_schedule_minutes: number[]
         }
         Insert: {
           avatar_url?: string | null
+          break_rule_set?: string
           created_at?: string
           display_name?: string | null
+          flextime_carry_over_date?: string | null
+          flextime_start_balance_ms?: number
+          holiday_calendar?: string | null
+          hour12?: boolean
           id?: string
+          locale?: string
+          timezone?: string | null
           updated_at?: string
           user_id: string
+          vacation_days_per_year?: number
+          week_starts_on?: number
+          weekly_schedule_minutes?: number[]
         }
         Update: {
           avatar_url?: string | null
+          break_rule_set?: string
           created_at?: string
           display_name?: string | null
+          flextime_carry_over_date?: string | null
+          flextime_start_balance_ms?: number
+          holiday_calendar?: string | null
+          hour12?: boolean
           id?: string
+          locale?: string
+          timezone?: string | null
           updated_at?: string
           user_id?: string
+          vacation_days_per_year?: number
+          week_starts_on?: number
+          weekly_schedule_minutes?: number[]
         }
         Relationships: []
       }
+      work_breaks: {
+        Row: {
+          created_at: string
+          end_time: string | null
+          id: string
+          session_id: string
+          start_time: string
+          type: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          end_time?: string | null
+          id?: string
+          session_id: string
+          start_time: string
+          type?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          end_time?: string | null
+          id?: string
+          session_id?: string
+          start_time?: string
+          type?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "work_breaks_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "work_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       work_entries: {
         Row: {
           check_in: string
           check_out: string | null
           created_at: string
           date: string
+          deleted_at: string | null
           id: string
           name: string | null
           session_id: string
@@ -61,6 +211,7 @@ export type Database = {
           check_out?: string | null
           created_at?: string
           date: string
+          deleted_at?: string | null
           id?: string
           name?: string | null
           session_id: string
@@ -75,6 +226,7 @@ export type Database = {
           check_out?: string | null
           created_at?: string
           date?: string
+          deleted_at?: string | null
           id?: string
           name?: string | null
           session_id?: string
@@ -94,8 +246,57 @@ export type Database = {
           },
         ]
       }
+      work_segments: {
+        Row: {
+          check_in: string
+          check_out: string | null
+          created_at: string
+          entry_id: string
+          id: string
+          session_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          check_in: string
+          check_out?: string | null
+          created_at?: string
+          entry_id: string
+          id?: string
+          session_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          check_in?: string
+          check_out?: string | null
+          created_at?: string
+          entry_id?: string
+          id?: string
+          session_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "work_segments_entry_id_fkey"
+            columns: ["entry_id"]
+            isOneToOne: false
+            referencedRelation: "work_entries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "work_segments_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "work_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       work_sessions: {
         Row: {
+          arrival_at: string
           arrival_time: string
           created_at: string
           current_session_start: string | null
@@ -114,6 +315,7 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          arrival_at: string
           arrival_time: string
           created_at?: string
           current_session_start?: string | null
@@ -132,6 +334,7 @@ export type Database = {
           user_id: string
         }
         Update: {
+          arrival_at?: string
           arrival_time?: string
           created_at?: string
           current_session_start?: string | null
@@ -156,7 +359,176 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      auto_close_session: {
+        Args: { _session: Database["public"]["Tables"]["work_sessions"]["Row"] }
+        Returns: undefined
+      }
+      auto_close_stale_sessions: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      close_own_stale_sessions: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      complete_session: {
+        Args: { p_session_id: string }
+        Returns: {
+          arrival_at: string
+          arrival_time: string
+          created_at: string
+          current_session_start: string | null
+          date: string
+          id: string
+          is_active: boolean
+          is_paused: boolean
+          is_running: boolean
+          pause_start_time: string | null
+          required_work_hours: number
+          required_work_minutes: number
+          start_time: string | null
+          total_paused_ms: number
+          total_worked_ms: number
+          updated_at: string
+          user_id: string
+        }
+      }
+      delete_own_account: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      import_days: {
+        Args: { p_days: Json }
+        Returns: number
+      }
+      lock_own_session: {
+        Args: { _session_id: string }
+        Returns: {
+          arrival_at: string
+          arrival_time: string
+          created_at: string
+          current_session_start: string | null
+          date: string
+          id: string
+          is_active: boolean
+          is_paused: boolean
+          is_running: boolean
+          pause_start_time: string | null
+          required_work_hours: number
+          required_work_minutes: number
+          start_time: string | null
+          total_paused_ms: number
+          total_worked_ms: number
+          updated_at: string
+          user_id: string
+        }
+      }
+      merge_active_sessions: {
+        Args: { _user_id: string }
+        Returns: number
+      }
+      pause_session: {
+        Args: { p_session_id: string }
+        Returns: {
+          arrival_at: string
+          arrival_time: string
+          created_at: string
+          current_session_start: string | null
+          date: string
+          id: string
+          is_active: boolean
+          is_paused: boolean
+          is_running: boolean
+          pause_start_time: string | null
+          required_work_hours: number
+          required_work_minutes: number
+          start_time: string | null
+          total_paused_ms: number
+          total_worked_ms: number
+          updated_at: string
+          user_id: string
+        }
+      }
+      purge_expired_entries: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      purge_trashed_entries: {
+        Args: { _entry_ids: string[] }
+        Returns: number
+      }
+      repair_active_sessions: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      resume_session: {
+        Args: { p_session_id: string }
+        Returns: {
+          arrival_at: string
+          arrival_time: string
+          created_at: string
+          current_session_start: string | null
+          date: string
+          id: string
+          is_active: boolean
+          is_paused: boolean
+          is_running: boolean
+          pause_start_time: string | null
+          required_work_hours: number
+          required_work_minutes: number
+          start_time: string | null
+          total_paused_ms: number
+          total_worked_ms: number
+          updated_at: string
+          user_id: string
+        }
+      }
+      session_day_over_at: {
+        Args: { _date: string; _timezone: string }
+        Returns: string
+      }
+      session_totals: {
+        Args: {
+          _at: string
+          _session: Database["public"]["Tables"]["work_sessions"]["Row"]
+        }
+        Returns: {
+          total_paused_ms: number
+          total_worked_ms: number
+        }[]
+      }
+      start_session: {
+        Args: {
+          p_arrival_at: string
+          p_arrival_time: string
+          p_date: string
+          p_required_work_hours: number
+          p_required_work_minutes: number
+        }
+        Returns: {
+          arrival_at: string
+          arrival_time: string
+          created_at: string
+          current_session_start: string | null
+          date: string
+          id: string
+          is_active: boolean
+          is_paused: boolean
+          is_running: boolean
+          pause_start_time: string | null
+          required_work_hours: number
+          required_work_minutes: number
+          start_time: string | null
+          total_paused_ms: number
+          total_worked_ms: number
+          updated_at: string
+          user_id: string
+        }
+      }
+      verify_audit_log: {
+        Args: Record<PropertyKey, never>
+        Returns: number | null
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { getOffDayFractions, getTargetMs, getVacationSummary, getWorkingDaysInRange } from './absences';
+import { DEFAULT_WEEKLY_SCHEDULE } from './schedule';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('getOffDayFractions', () => {
+  it('adds half days up to a whole day and counts holidays as whole days', () => {
+    const fractions = getOffDayFractions([
+      { date: '2025-03-10', type: 'vacation', half_day: true },
+      { date: '2025-03-11', type: 'vacation', half_day: true },
+      { date: '2025-03-11', type: 'sick', half_day: true },
+      { date: '2025-04-18', type: 'vacation', half_day: false },
+    ], { '2025-04-18': 'Good Friday' });
+
+    expect(fractions).toEqual({ '2025-03-10': 0.5, '2025-03-11': 1, '2025-04-18': 1 });
+  });
+
+  it('reduces the scheduled target by the share taken off', () => {
+    expect(getTargetMs(DEFAULT_WEEKLY_SCHEDULE, '2025-03-10', { '2025-03-10': 0.5 })).toBe(4 * HOUR_MS);
+    expect(getTargetMs(DEFAULT_WEEKLY_SCHEDULE, '2025-03-15', {})).toBe(0);
+  });
+});
+
+describe('getWorkingDaysInRange', () => {
+  it('skips weekends and public holidays', () => {
+    const days = getWorkingDaysInRange('2025-04-17', '2025-04-22', DEFAULT_WEEKLY_SCHEDULE, {
+      '2025-04-18': 'Good Friday',
+      '2025-04-21': 'Easter Monday',
+    });
+
+    expect(days).toEqual(['2025-04-17', '2025-04-22']);
+  });
+});
+
+describe('getVacationSummary', () => {
+  it('splits the year into taken and planned vacation', () => {
+    const summary = getVacationSummary([
+      { date: '2025-02-03', type: 'vacation', half_day: false },
+      { date: '2025-03-10', type: 'vacation', half_day: true },
+      { date: '2025-08-04', type: 'vacation', half_day: false },
+      { date: '2025-02-04', type: 'sick', half_day: false },
+      { date: '2024-12-30', type: 'vacation', half_day: false },
+    ], 30, 2025, '2025-03-10');
+
+    expect(summary).toEqual({ allowanceDays: 30, takenDays: 1.5, plannedDays: 1, remainingDays: 27.5 });
+  });
+});
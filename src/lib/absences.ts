@@ -0,0 +1,87 @@
+// Absences (vacation, sick leave, holidays) and how they reduce the daily
+// target. Bundled public holidays count like a full-day holiday absence.
+
+import { shiftDateKey } from './datetime';
+import { getScheduledMs, type WeeklySchedule } from './schedule';
+
+export type AbsenceType = 'vacation' | 'sick' | 'holiday';
+
+export const ABSENCE_TYPES: { value: AbsenceType; label: string }[] = [
+  { value: 'vacation', label: 'Vacation' },
+  { value: 'sick', label: 'Sick leave' },
+  { value: 'holiday', label: 'Public holiday' },
+];
+
+export interface AbsenceSnapshot {
+  date: string;
+  type: string;
+  half_day: boolean;
+}
+
+export const getAbsenceLabel = (type: string) => {
+  return ABSENCE_TYPES.find(option => option.value === type)?.label ?? type;
+};
+
+// Share of the scheduled day the absence covers
+export const getAbsenceFraction = (absence: AbsenceSnapshot) => {
+  return absence.half_day ? 0.5 : 1;
+};
+
+// Share of each day that is off, keyed by date. Several absences on one day
+// add up to at most the whole day.
+export const getOffDayFractions = (absences: AbsenceSnapshot[], holidays: Record<string, string>) => {
+  const fractions: Record<string, number> = {};
+
+  Object.keys(holidays).forEach(dateKey => {
+    fractions[dateKey] = 1;
+  });
+  absences.forEach(absence => {
+    fractions[absence.date] = Math.min(1, (fractions[absence.date] ?? 0) + getAbsenceFraction(absence));
+  });
+
+  return fractions;
+};
+
+// Scheduled time of a day, less the part taken off
+export const getTargetMs = (schedule: WeeklySchedule, dateKey: string, offFractions: Record<string, number>) => {
+  return getScheduledMs(schedule, dateKey) * (1 - (offFractions[dateKey] ?? 0));
+};
+
+// Target of the week starting at the given day
+export const getWeekTargetMs = (schedule: WeeklySchedule, weekStartKey: string, offFractions: Record<string, number>) => {
+  return Array.from({ length: 7 }, (_, offset) => getTargetMs(schedule, shiftDateKey(weekStartKey, offset), offFractions))
+    .reduce((sum, ms) => sum + ms, 0);
+};
+
+// Working days in an inclusive date range: days with scheduled time that are
+// not public holidays, i.e. the days an absence has to be booked for
+export const getWorkingDaysInRange = (
+  startKey: string,
+  endKey: string,
+  schedule: WeeklySchedule,
+  holidays: Record<string, string>
+) => {
+  const days: string[] = [];
+  for (let dateKey = startKey; dateKey <= endKey; dateKey = shiftDateKey(dateKey, 1)) {
+    if (getScheduledMs(schedule, dateKey) > 0 && !holidays[dateKey]) {
+      days.push(dateKey);
+    }
+  }
+  return days;
+};
+
+// Vacation days of a calendar year against the yearly allowance
+export const getVacationSummary = (absences: AbsenceSnapshot[], allowanceDays: number, year: number, todayKey: string) => {
+  const vacation = absences.filter(absence => absence.type === 'vacation' && absence.date.startsWith(`${year}-`));
+  const sumDays = (list: AbsenceSnapshot[]) => list.reduce((sum, absence) => sum + getAbsenceFraction(absence), 0);
+
+  const takenDays = sumDays(vacation.filter(absence => absence.date <= todayKey));
+  const plannedDays = sumDays(vacation.filter(absence => absence.date > todayKey));
+
+  return {
+    allowanceDays,
+    takenDays,
+    plannedDays,
+    remainingDays: allowanceDays - takenDays - plannedDays,
+  };
+};
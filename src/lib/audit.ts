@@ -0,0 +1,98 @@
+// Presenting audit log rows: which fields changed, from what to what.
+
+import type { Json } from '@/integrations/supabase/types';
+import { formatDisplayDate, formatTimeOfDay, type DisplayPreferences } from './datetime';
+
+export interface AuditRecord {
+  id: number;
+  actor_id: string | null;
+  table_name: string;
+  action: string;
+  changed_fields: string[];
+  old_data: Json | null;
+  new_data: Json | null;
+  created_at: string;
+}
+
+export interface AuditChange {
+  field: string;
+  label: string;
+  before: string;
+  after: string;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Name',
+  date: 'Date',
+  check_in: 'Check in',
+  check_out: 'Check out',
+  status: 'Status',
+  deleted_at: 'Deleted',
+  total_worked_ms: 'Worked',
+  total_paused_ms: 'Paused',
+  arrival_at: 'Arrival',
+  arrival_time: 'Arrival time',
+  required_work_hours: 'Required hours',
+  required_work_minutes: 'Required minutes',
+  is_active: 'Active',
+  is_running: 'Running',
+  is_paused: 'Paused',
+  start_time: 'Started',
+  current_session_start: 'Resumed',
+  pause_start_time: 'Pause started',
+};
+
+// Bookkeeping columns that never need to be shown
+const HIDDEN_FIELDS = ['id', 'user_id', 'session_id', 'created_at', 'updated_at'];
+
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/;
+
+export const getAuditTableLabel = (tableName: string) => {
+  return tableName === 'work_sessions' ? 'Session' : 'Entry';
+};
+
+export const getAuditActionLabel = (action: string) => {
+  switch (action) {
+    case 'INSERT':
+      return 'Created';
+    case 'DELETE':
+      return 'Deleted';
+    default:
+      return 'Changed';
+  }
+};
+
+const formatAuditValue = (field: string, value: Json | undefined, preferences: DisplayPreferences) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'number' && field.endsWith('_ms')) {
+    const totalMinutes = Math.floor(value / (1000 * 60));
+    return `${Math.floor(totalMinutes / 60)}:${(totalMinutes % 60).toString().padStart(2, '0')}`;
+  }
+  if (typeof value === 'string' && TIMESTAMP_PATTERN.test(value)) {
+    return `${formatDisplayDate(value, preferences, { month: 'short', day: 'numeric' })} ${formatTimeOfDay(value, preferences)}`;
+  }
+  return String(value);
+};
+
+const asObject = (data: Json | null) => {
+  return data && typeof data === 'object' && !Array.isArray(data) ? data : {};
+};
+
+// Changed fields of an update, or the notable fields of a created or deleted row
+export const getAuditChanges = (record: AuditRecord, preferences: DisplayPreferences): AuditChange[] => {
+  const before = asObject(record.old_data);
+  const after = asObject(record.new_data);
+  const fields = record.action === 'UPDATE'
+    ? record.changed_fields
+    : Object.keys(record.action === 'DELETE' ? before : after).filter(field => field in FIELD_LABELS);
+
+  return fields
+    .filter(field => !HIDDEN_FIELDS.includes(field))
+    .map(field => ({
+      field,
+      label: FIELD_LABELS[field] ?? field,
+      before: formatAuditValue(field, before[field], preferences),
+      after: formatAuditValue(field, after[field], preferences),
+    }));
+};
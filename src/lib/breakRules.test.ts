@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BREAK_RULE_SETS,
+  evaluateDayCompliance,
+  evaluateSessionCompliance,
+  getBreakRuleSet,
+  getQualifyingBreakMs,
+  getRequiredBreakMs,
+} from './breakRules';
+
+const HOUR_MS = 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+const germany = BREAK_RULE_SETS['de-arbzg'];
+const now = new Date('2025-03-10T18:00:00.000Z');
+
+const breakOf = (minutes: number) => ({
+  start_time: '2025-03-10T12:00:00.000Z',
+  end_time: new Date(new Date('2025-03-10T12:00:00.000Z').getTime() + minutes * MINUTE_MS).toISOString(),
+});
+
+describe('getBreakRuleSet', () => {
+  it('falls back to no rules for an unknown id', () => {
+    expect(getBreakRuleSet('xx')).toBe(BREAK_RULE_SETS.none);
+    expect(getBreakRuleSet(null)).toBe(BREAK_RULE_SETS.none);
+  });
+});
+
+describe('getRequiredBreakMs', () => {
+  it('requires breaks only past each threshold', () => {
+    expect(getRequiredBreakMs(germany, 6 * HOUR_MS)).toBe(0);
+    expect(getRequiredBreakMs(germany, 6 * HOUR_MS + MINUTE_MS)).toBe(30 * MINUTE_MS);
+    expect(getRequiredBreakMs(germany, 9 * HOUR_MS + MINUTE_MS)).toBe(45 * MINUTE_MS);
+  });
+});
+
+describe('getQualifyingBreakMs', () => {
+  it('ignores breaks shorter than the minimum block', () => {
+    expect(getQualifyingBreakMs(germany, [breakOf(10), breakOf(20)], now)).toBe(20 * MINUTE_MS);
+  });
+});
+
+describe('evaluateSessionCompliance', () => {
+  it('extends the leave time by the planned break not taken yet', () => {
+    const result = evaluateSessionCompliance(germany, {
+      workedMs: 4 * HOUR_MS,
+      requiredMs: 8 * HOUR_MS,
+      breaks: [breakOf(15)],
+    }, now);
+
+    expect(result.plannedBreakMs).toBe(30 * MINUTE_MS);
+    expect(result.leaveTimeExtensionMs).toBe(15 * MINUTE_MS);
+    expect(result.issues).toEqual([]);
+    expect(result.isCompliant).toBe(true);
+  });
+
+  it('reports a mandatory break that is due', () => {
+    const result = evaluateSessionCompliance(germany, {
+      workedMs: 7 * HOUR_MS,
+      requiredMs: 8 * HOUR_MS,
+      breaks: [],
+    }, now);
+
+    expect(result.issues.map(issue => issue.kind)).toEqual(['break-due']);
+    expect(result.isCompliant).toBe(false);
+  });
+
+  it('warns before and reports after the daily maximum', () => {
+    const approaching = evaluateSessionCompliance(germany, {
+      workedMs: 9 * HOUR_MS + 40 * MINUTE_MS,
+      requiredMs: 8 * HOUR_MS,
+      breaks: [breakOf(45)],
+    }, now);
+    const exceeded = evaluateSessionCompliance(germany, {
+      workedMs: 10 * HOUR_MS,
+      requiredMs: 8 * HOUR_MS,
+      breaks: [breakOf(45)],
+    }, now);
+
+    expect(approaching.issues.map(issue => issue.kind)).toEqual(['max-approaching']);
+    expect(approaching.remainingUntilMaxMs).toBe(20 * MINUTE_MS);
+    expect(exceeded.issues.map(issue => issue.kind)).toEqual(['max-exceeded']);
+  });
+});
+
+describe('evaluateDayCompliance', () => {
+  it('counts all paused time towards the break', () => {
+    expect(evaluateDayCompliance(germany, 8 * HOUR_MS, 30 * MINUTE_MS).isCompliant).toBe(true);
+  });
+
+  it('reports a missing break and too much work', () => {
+    const result = evaluateDayCompliance(germany, 11 * HOUR_MS, 15 * MINUTE_MS);
+
+    expect(result.issues.map(issue => issue.kind)).toEqual(['break-missing', 'max-exceeded']);
+  });
+});
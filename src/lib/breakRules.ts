@@ -0,0 +1,173 @@
+// Statutory break and working-time rules, evaluated against the live session
+// and against finished days. Pure, like the time engine it builds on.
+
+import { getBreakDurationMs, type BreakSnapshot } from './timeEngine';
+
+export type BreakRuleSetId = 'none' | 'de-arbzg' | 'at-azg';
+
+export interface BreakThreshold {
+  // Mandatory break once more than this much work is done
+  afterWorkedMs: number;
+  minBreakMs: number;
+}
+
+export interface BreakRuleSet {
+  id: BreakRuleSetId;
+  label: string;
+  thresholds: BreakThreshold[];
+  // Breaks shorter than this do not count towards the mandatory break
+  minBreakSegmentMs: number;
+  maxDailyWorkMs: number | null;
+  // How early to warn before the daily maximum is reached
+  warnBeforeMaxMs: number;
+}
+
+export type ComplianceIssueKind = 'break-due' | 'max-approaching' | 'max-exceeded' | 'break-missing';
+
+export interface ComplianceIssue {
+  kind: ComplianceIssueKind;
+  severity: 'warning' | 'violation';
+  message: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+export const BREAK_RULE_SETS: Record<BreakRuleSetId, BreakRuleSet> = {
+  none: {
+    id: 'none',
+    label: 'No break rules',
+    thresholds: [],
+    minBreakSegmentMs: 0,
+    maxDailyWorkMs: null,
+    warnBeforeMaxMs: 0,
+  },
+  // Arbeitszeitgesetz §3, §4: 30 min after 6h, 45 min after 9h, in blocks of
+  // at least 15 minutes, and no more than 10 hours of work per day
+  'de-arbzg': {
+    id: 'de-arbzg',
+    label: 'Germany (ArbZG)',
+    thresholds: [
+      { afterWorkedMs: 6 * HOUR_MS, minBreakMs: 30 * MINUTE_MS },
+      { afterWorkedMs: 9 * HOUR_MS, minBreakMs: 45 * MINUTE_MS },
+    ],
+    minBreakSegmentMs: 15 * MINUTE_MS,
+    maxDailyWorkMs: 10 * HOUR_MS,
+    warnBeforeMaxMs: 30 * MINUTE_MS,
+  },
+  // Arbeitszeitgesetz §11, §9: 30 min after 6h, at most 10 hours per day
+  'at-azg': {
+    id: 'at-azg',
+    label: 'Austria (AZG)',
+    thresholds: [
+      { afterWorkedMs: 6 * HOUR_MS, minBreakMs: 30 * MINUTE_MS },
+    ],
+    minBreakSegmentMs: 10 * MINUTE_MS,
+    maxDailyWorkMs: 10 * HOUR_MS,
+    warnBeforeMaxMs: 30 * MINUTE_MS,
+  },
+};
+
+export const getBreakRuleSet = (id: string | null | undefined) => {
+  return BREAK_RULE_SETS[id as BreakRuleSetId] ?? BREAK_RULE_SETS.none;
+};
+
+// Break time the rules demand for a day with the given amount of work
+export const getRequiredBreakMs = (rules: BreakRuleSet, workedMs: number) => {
+  return rules.thresholds.reduce(
+    (required, threshold) => workedMs > threshold.afterWorkedMs ? Math.max(required, threshold.minBreakMs) : required,
+    0
+  );
+};
+
+// Break time that counts towards the mandatory break
+export const getQualifyingBreakMs = (rules: BreakRuleSet, breaks: BreakSnapshot[], now: Date) => {
+  return breaks
+    .map(workBreak => getBreakDurationMs(workBreak, now))
+    .filter(durationMs => durationMs >= rules.minBreakSegmentMs)
+    .reduce((sum, durationMs) => sum + durationMs, 0);
+};
+
+const formatMinutes = (ms: number) => `${Math.round(ms / MINUTE_MS)} min`;
+
+const formatHours = (ms: number) => {
+  const hours = ms / HOUR_MS;
+  return `${Number.isInteger(hours) ? hours : hours.toFixed(1)} hours`;
+};
+
+// Evaluate the running session. The leave time extension is the mandatory
+// break for the planned day that has not been taken yet.
+export const evaluateSessionCompliance = (
+  rules: BreakRuleSet,
+  session: { workedMs: number; requiredMs: number; breaks: BreakSnapshot[] },
+  now: Date
+) => {
+  const issues: ComplianceIssue[] = [];
+  const takenBreakMs = getQualifyingBreakMs(rules, session.breaks, now);
+  const plannedBreakMs = getRequiredBreakMs(rules, Math.max(session.requiredMs, session.workedMs));
+  const leaveTimeExtensionMs = Math.max(0, plannedBreakMs - takenBreakMs);
+
+  const dueBreakMs = getRequiredBreakMs(rules, session.workedMs);
+  if (dueBreakMs > takenBreakMs) {
+    issues.push({
+      kind: 'break-due',
+      severity: 'violation',
+      message: `A break of ${formatMinutes(dueBreakMs)} is mandatory by now; ${formatMinutes(dueBreakMs - takenBreakMs)} still missing.`,
+    });
+  }
+
+  let remainingUntilMaxMs: number | null = null;
+  if (rules.maxDailyWorkMs !== null) {
+    remainingUntilMaxMs = Math.max(0, rules.maxDailyWorkMs - session.workedMs);
+    if (session.workedMs >= rules.maxDailyWorkMs) {
+      issues.push({
+        kind: 'max-exceeded',
+        severity: 'violation',
+        message: `You have exceeded the daily maximum of ${formatHours(rules.maxDailyWorkMs)}.`,
+      });
+    } else if (remainingUntilMaxMs <= rules.warnBeforeMaxMs) {
+      issues.push({
+        kind: 'max-approaching',
+        severity: 'warning',
+        message: `Only ${formatMinutes(remainingUntilMaxMs)} left before the daily maximum of ${formatHours(rules.maxDailyWorkMs)}.`,
+      });
+    }
+  }
+
+  return {
+    takenBreakMs,
+    plannedBreakMs,
+    leaveTimeExtensionMs,
+    remainingUntilMaxMs,
+    issues,
+    isCompliant: !issues.some(issue => issue.severity === 'violation'),
+  };
+};
+
+// Evaluate a finished day from its totals. Individual break lengths are not
+// known for older days, so all paused time counts towards the break.
+export const evaluateDayCompliance = (rules: BreakRuleSet, workedMs: number, pausedMs: number) => {
+  const issues: ComplianceIssue[] = [];
+
+  const requiredBreakMs = getRequiredBreakMs(rules, workedMs);
+  if (pausedMs < requiredBreakMs) {
+    issues.push({
+      kind: 'break-missing',
+      severity: 'violation',
+      message: `${formatMinutes(requiredBreakMs - pausedMs)} of mandatory break missing`,
+    });
+  }
+
+  if (rules.maxDailyWorkMs !== null && workedMs > rules.maxDailyWorkMs) {
+    issues.push({
+      kind: 'max-exceeded',
+      severity: 'violation',
+      message: `worked more than ${formatHours(rules.maxDailyWorkMs)}`,
+    });
+  }
+
+  return {
+    issues,
+    isCompliant: issues.length === 0,
+  };
+};
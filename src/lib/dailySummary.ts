@@ -0,0 +1,56 @@
+// Per-day aggregation of work entries, shared by the daily summary card and
+// the monthly timesheet.
+
+import { toZonedDateKey } from './datetime';
+import { getAbsenceLabel, type AbsenceSnapshot } from './absences';
+
+export interface DaySummary {
+  date: string;
+  totalWorked: number;
+  totalPaused: number;
+  sessions: number;
+  // Earliest check-in and latest check-out of the day
+  firstCheckIn: string | null;
+  lastCheckOut: string | null;
+}
+
+interface SummaryEntry {
+  date: string;
+  check_in: string;
+  check_out: string | null;
+  total_worked_ms: number;
+  total_paused_ms: number;
+}
+
+export const createEmptyDaySummary = (dateKey: string): DaySummary => {
+  return { date: dateKey, totalWorked: 0, totalPaused: 0, sessions: 0, firstCheckIn: null, lastCheckOut: null };
+};
+
+// Group entries by calendar day in the user's timezone and total them up
+export const groupEntriesByDay = (entries: SummaryEntry[], timezone: string) => {
+  return entries.reduce((acc, entry) => {
+    const dateKey = toZonedDateKey(entry.date, timezone);
+    const summary = acc[dateKey] ?? createEmptyDaySummary(dateKey);
+    summary.totalWorked += entry.total_worked_ms;
+    summary.totalPaused += entry.total_paused_ms;
+    summary.sessions += 1;
+    if (!summary.firstCheckIn || entry.check_in < summary.firstCheckIn) {
+      summary.firstCheckIn = entry.check_in;
+    }
+    if (entry.check_out && (!summary.lastCheckOut || entry.check_out > summary.lastCheckOut)) {
+      summary.lastCheckOut = entry.check_out;
+    }
+    acc[dateKey] = summary;
+    return acc;
+  }, {} as Record<string, DaySummary>);
+};
+
+// Holiday name and absences of a day, e.g. "Vacation (half day)"
+export const getDayOffLabel = (dateKey: string, absences: AbsenceSnapshot[], holidays: Record<string, string>) => {
+  return [
+    holidays[dateKey],
+    ...absences
+      .filter(absence => absence.date === dateKey)
+      .map(absence => `${getAbsenceLabel(absence.type)}${absence.half_day ? ' (half day)' : ''}`),
+  ].filter(Boolean).join(', ');
+};
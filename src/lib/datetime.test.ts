@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import {
+  fromZonedDateTime,
+  getRelativeDayLabel,
+  getWeekStartKey,
+  shiftDateKey,
+  toZonedDateKey,
+  toZonedTimeString,
+  withZonedTime,
+  type DisplayPreferences,
+} from './datetime';
+
+const berlin: DisplayPreferences = {
+  timezone: 'Europe/Berlin',
+  locale: 'en-GB',
+  hour12: false,
+  weekStartsOn: 1,
+};
+
+describe('toZonedDateKey', () => {
+  it('uses the calendar day of the timezone, not UTC', () => {
+    expect(toZonedDateKey('2025-03-10T23:30:00.000Z', 'Europe/Berlin')).toBe('2025-03-11');
+    expect(toZonedDateKey('2025-03-11T03:30:00.000Z', 'America/New_York')).toBe('2025-03-10');
+  });
+
+  it('keeps the day around DST switches', () => {
+    // Berlin jumps from 02:00 to 03:00 on 2025-03-30 and back on 2025-10-26
+    expect(toZonedDateKey('2025-03-29T22:59:00.000Z', 'Europe/Berlin')).toBe('2025-03-29');
+    expect(toZonedDateKey('2025-03-29T23:00:00.000Z', 'Europe/Berlin')).toBe('2025-03-30');
+    expect(toZonedDateKey('2025-10-25T21:59:00.000Z', 'Europe/Berlin')).toBe('2025-10-25');
+    expect(toZonedDateKey('2025-10-25T22:00:00.000Z', 'Europe/Berlin')).toBe('2025-10-26');
+    expect(toZonedDateKey('2025-10-26T22:59:00.000Z', 'Europe/Berlin')).toBe('2025-10-26');
+    expect(toZonedDateKey('2025-10-26T23:00:00.000Z', 'Europe/Berlin')).toBe('2025-10-27');
+  });
+});
+
+describe('toZonedTimeString', () => {
+  it('reads the wall clock of the timezone around a DST switch', () => {
+    expect(toZonedTimeString('2025-03-30T00:59:00.000Z', 'Europe/Berlin')).toBe('01:59');
+    expect(toZonedTimeString('2025-03-30T01:00:00.000Z', 'Europe/Berlin')).toBe('03:00');
+    expect(toZonedTimeString('2025-03-30T01:00:00.000Z', 'America/New_York')).toBe('21:00');
+  });
+});
+
+describe('fromZonedDateTime', () => {
+  it('turns a wall-clock time of the timezone into an instant', () => {
+    expect(fromZonedDateTime('2025-03-10', '08:00', 'Europe/Berlin').toISOString()).toBe('2025-03-10T07:00:00.000Z');
+    expect(fromZonedDateTime('2025-07-01', '08:00', 'Europe/Berlin').toISOString()).toBe('2025-07-01T06:00:00.000Z');
+    expect(fromZonedDateTime('2025-07-01', '09:00', 'America/New_York').toISOString()).toBe('2025-07-01T13:00:00.000Z');
+  });
+
+  it('uses the offset in effect on either side of a DST switch', () => {
+    expect(fromZonedDateTime('2025-03-30', '01:30', 'Europe/Berlin').toISOString()).toBe('2025-03-30T00:30:00.000Z');
+    expect(fromZonedDateTime('2025-03-30', '03:30', 'Europe/Berlin').toISOString()).toBe('2025-03-30T01:30:00.000Z');
+    expect(fromZonedDateTime('2025-10-26', '04:00', 'Europe/Berlin').toISOString()).toBe('2025-10-26T03:00:00.000Z');
+  });
+
+  it('moves a time skipped by the switch to the instant after the gap', () => {
+    expect(fromZonedDateTime('2025-03-30', '02:30', 'Europe/Berlin').toISOString()).toBe('2025-03-30T01:30:00.000Z');
+  });
+});
+
+describe('withZonedTime', () => {
+  it('keeps the calendar day of the timezone', () => {
+    expect(withZonedTime('2025-03-10T23:30:00.000Z', '08:00', 'Europe/Berlin').toISOString()).toBe('2025-03-11T07:00:00.000Z');
+    expect(withZonedTime('2025-03-10T23:30:00.000Z', '08:00', 'America/New_York').toISOString()).toBe('2025-03-10T12:00:00.000Z');
+  });
+});
+
+describe('date keys', () => {
+  it('shifts across month, year and DST boundaries by whole days', () => {
+    expect(shiftDateKey('2025-03-29', 1)).toBe('2025-03-30');
+    expect(shiftDateKey('2025-03-30', 1)).toBe('2025-03-31');
+    expect(shiftDateKey('2025-01-01', -1)).toBe('2024-12-31');
+    expect(shiftDateKey('2024-02-28', 1)).toBe('2024-02-29');
+  });
+
+  it('finds the start of the week for the chosen first weekday', () => {
+    // 2025-03-12 is a Wednesday
+    expect(getWeekStartKey('2025-03-12', 1)).toBe('2025-03-10');
+    expect(getWeekStartKey('2025-03-12', 0)).toBe('2025-03-09');
+    expect(getWeekStartKey('2025-03-10', 1)).toBe('2025-03-10');
+  });
+
+  it('labels today and yesterday in the user timezone', () => {
+    const now = new Date('2025-03-10T23:30:00.000Z');
+
+    expect(getRelativeDayLabel('2025-03-10T23:00:00.000Z', berlin, now)).toBe('Today');
+    expect(getRelativeDayLabel('2025-03-10T22:00:00.000Z', berlin, now)).toBe('Yesterday');
+    expect(getRelativeDayLabel('2025-03-09T12:00:00.000Z', berlin, now)).toBeNull();
+  });
+});
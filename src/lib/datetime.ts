@@ -0,0 +1,190 @@
+export type WeekStartsOn = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+export interface DisplayPreferences {
+  timezone: string;
+  locale: string;
+  hour12: boolean;
+  weekStartsOn: WeekStartsOn;
+}
+
+interface PreferenceFields {
+  timezone: string | null;
+  locale: string;
+  hour12: boolean;
+  week_starts_on: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const getBrowserTimezone = () => {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+};
+
+export const DEFAULT_DISPLAY_PREFERENCES: DisplayPreferences = {
+  timezone: getBrowserTimezone(),
+  locale: 'en-US',
+  hour12: false,
+  weekStartsOn: 1,
+};
+
+export const SUPPORTED_LOCALES = [
+  { value: 'en-US', label: 'English (United States)' },
+  { value: 'en-GB', label: 'English (United Kingdom)' },
+  { value: 'de-DE', label: 'Deutsch (Deutschland)' },
+  { value: 'de-AT', label: 'Deutsch (Österreich)' },
+  { value: 'de-CH', label: 'Deutsch (Schweiz)' },
+  { value: 'fr-FR', label: 'Français (France)' },
+  { value: 'es-ES', label: 'Español (España)' },
+  { value: 'it-IT', label: 'Italiano (Italia)' },
+  { value: 'nl-NL', label: 'Nederlands (Nederland)' },
+  { value: 'pl-PL', label: 'Polski (Polska)' },
+  { value: 'pt-BR', label: 'Português (Brasil)' },
+  { value: 'sv-SE', label: 'Svenska (Sverige)' },
+];
+
+export const WEEKDAY_OPTIONS: { value: WeekStartsOn; label: string }[] = [
+  { value: 1, label: 'Monday' },
+  { value: 0, label: 'Sunday' },
+  { value: 6, label: 'Saturday' },
+];
+
+export const getAvailableTimezones = () => {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: string) => string[] };
+  const timezones = intl.supportedValuesOf?.('timeZone') ?? [];
+  const browserTimezone = getBrowserTimezone();
+  return timezones.includes(browserTimezone) ? timezones : [browserTimezone, ...timezones];
+};
+
+// Profile columns are nullable/loosely typed; fall back to sane defaults
+export const getDisplayPreferences = (profile: PreferenceFields | null): DisplayPreferences => {
+  if (!profile) return DEFAULT_DISPLAY_PREFERENCES;
+
+  return {
+    timezone: profile.timezone || DEFAULT_DISPLAY_PREFERENCES.timezone,
+    locale: profile.locale || DEFAULT_DISPLAY_PREFERENCES.locale,
+    hour12: profile.hour12,
+    weekStartsOn: (profile.week_starts_on ?? DEFAULT_DISPLAY_PREFERENCES.weekStartsOn) as WeekStartsOn,
+  };
+};
+
+// Calendar day ("yyyy-MM-dd") of an instant in the given timezone
+export const toZonedDateKey = (date: Date | string, timezone: string) => {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(new Date(date));
+  const part = (type: string) => parts.find(p => p.type === type)?.value;
+  return `${part('year')}-${part('month')}-${part('day')}`;
+};
+
+// Date keys are plain calendar days, so shift them in UTC to avoid DST drift
+export const shiftDateKey = (dateKey: string, days: number) => {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  return new Date(date.getTime() + days * DAY_MS).toISOString().split('T')[0];
+};
+
+export const getDateKeyWeekday = (dateKey: string) => {
+  return new Date(`${dateKey}T00:00:00Z`).getUTCDay();
+};
+
+// First day of the week containing the given date key
+export const getWeekStartKey = (dateKey: string, weekStartsOn: WeekStartsOn) => {
+  const offset = (getDateKeyWeekday(dateKey) - weekStartsOn + 7) % 7;
+  return shiftDateKey(dateKey, -offset);
+};
+
+// Noon UTC of a date key, a safe instant for formatting a plain calendar day
+export const dateKeyToDisplayDate = (dateKey: string) => {
+  return new Date(`${dateKey}T12:00:00Z`);
+};
+
+export const formatTimeOfDay = (date: Date | string, preferences: DisplayPreferences) => {
+  return new Date(date).toLocaleTimeString(preferences.locale, {
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: preferences.hour12,
+    timeZone: preferences.timezone,
+  });
+};
+
+export const formatDisplayDate = (
+  date: Date | string,
+  preferences: DisplayPreferences,
+  options: Intl.DateTimeFormatOptions
+) => {
+  return new Date(date).toLocaleDateString(preferences.locale, {
+    ...options,
+    timeZone: preferences.timezone,
+  });
+};
+
+// Format a plain calendar day; the timezone is irrelevant once the day is known
+export const formatDateKey = (
+  dateKey: string,
+  preferences: DisplayPreferences,
+  options: Intl.DateTimeFormatOptions
+) => {
+  return dateKeyToDisplayDate(dateKey).toLocaleDateString(preferences.locale, {
+    ...options,
+    timeZone: 'UTC',
+  });
+};
+
+// "Today", "Yesterday" or null, judged in the user's timezone
+export const getRelativeDayLabel = (date: Date | string, preferences: DisplayPreferences, now = new Date()) => {
+  const dateKey = toZonedDateKey(date, preferences.timezone);
+  const todayKey = toZonedDateKey(now, preferences.timezone);
+  if (dateKey === todayKey) return 'Today';
+  if (dateKey === shiftDateKey(todayKey, -1)) return 'Yesterday';
+  return null;
+};
+
+// Wall-clock "HH:MM" of an instant in the given timezone
+export const toZonedTimeString = (date: Date | string, timezone: string) => {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: timezone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(new Date(date));
+  const part = (type: string) => parts.find(p => p.type === type)?.value;
+  return `${part('hour')}:${part('minute')}`;
+};
+
+// How far the timezone's wall clock is ahead of UTC at the given instant
+const getZoneOffsetMs = (date: Date, timezone: string) => {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const part = (type: string) => parseInt(parts.find(p => p.type === type)?.value ?? '0');
+  const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+// The instant a date key and "HH:MM" wall-clock time name in the given
+// timezone. A time skipped by a DST switch resolves to the instant after it.
+export const fromZonedDateTime = (dateKey: string, time: string, timezone: string) => {
+  const [hours, minutes] = time.split(':');
+  const wallClock = new Date(`${dateKey}T00:00:00Z`).getTime()
+    + (parseInt(hours) * 60 + parseInt(minutes)) * 60 * 1000;
+  if (isNaN(wallClock)) return new Date(NaN);
+
+  // The offset at the guess can differ from the one at the result when a
+  // DST switch lies in between, so correct once with the result's offset
+  const guess = wallClock - getZoneOffsetMs(new Date(wallClock), timezone);
+  return new Date(wallClock - getZoneOffsetMs(new Date(guess), timezone));
+};
+
+// Same calendar day as the given instant in the given timezone, at "HH:MM"
+export const withZonedTime = (base: Date | string, time: string, timezone: string) => {
+  return fromZonedDateTime(toZonedDateKey(base, timezone), time, timezone);
+};
@@ -0,0 +1,113 @@
+// Exporting work entries as CSV or XLSX for timesheets.
+
+import { formatTimeOfDay, toZonedDateKey, type DisplayPreferences } from './datetime';
+import { buildXlsx, type XlsxCell } from './xlsx';
+
+export type ExportColumnId = 'date' | 'check_in' | 'check_out' | 'worked' | 'paused' | 'name' | 'status';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export const EXPORT_COLUMNS: { id: ExportColumnId; label: string }[] = [
+  { id: 'date', label: 'Date' },
+  { id: 'check_in', label: 'Check In' },
+  { id: 'check_out', label: 'Check Out' },
+  { id: 'worked', label: 'Worked' },
+  { id: 'paused', label: 'Paused' },
+  { id: 'name', label: 'Name' },
+  { id: 'status', label: 'Status' },
+];
+
+interface ExportEntry {
+  date: string;
+  check_in: string;
+  check_out: string | null;
+  total_worked_ms: number;
+  total_paused_ms: number;
+  name: string | null;
+  status: string;
+}
+
+// Entries whose day (in the user's timezone) lies in the inclusive range, oldest first
+export const filterEntriesByRange = <T extends ExportEntry>(
+  entries: T[],
+  fromKey: string,
+  toKey: string,
+  timezone: string
+) => {
+  return entries
+    .filter(entry => {
+      const dateKey = toZonedDateKey(entry.date, timezone);
+      return dateKey >= fromKey && dateKey <= toKey;
+    })
+    .sort((a, b) => a.check_in.localeCompare(b.check_in));
+};
+
+const formatDuration = (ms: number) => {
+  const totalMinutes = Math.floor(ms / (1000 * 60));
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return `${hours}:${minutes.toString().padStart(2, '0')}`;
+};
+
+const getCell = (
+  entry: ExportEntry,
+  column: ExportColumnId,
+  preferences: DisplayPreferences
+): XlsxCell => {
+  switch (column) {
+    case 'date':
+      return { type: 'string', value: toZonedDateKey(entry.date, preferences.timezone) };
+    case 'check_in':
+      return { type: 'string', value: formatTimeOfDay(entry.check_in, preferences) };
+    case 'check_out':
+      return { type: 'string', value: entry.check_out ? formatTimeOfDay(entry.check_out, preferences) : '' };
+    case 'worked':
+      return { type: 'duration', value: entry.total_worked_ms };
+    case 'paused':
+      return { type: 'duration', value: entry.total_paused_ms };
+    case 'name':
+      return { type: 'string', value: entry.name ?? '' };
+    case 'status':
+      return { type: 'string', value: entry.status };
+  }
+};
+
+// Header row followed by one row per entry, in the chosen column order
+export const buildExportRows = (
+  entries: ExportEntry[],
+  columns: ExportColumnId[],
+  preferences: DisplayPreferences
+): XlsxCell[][] => {
+  const header = columns.map(column => ({
+    type: 'string' as const,
+    value: EXPORT_COLUMNS.find(option => option.id === column)?.label ?? column,
+  }));
+  return [header, ...entries.map(entry => columns.map(column => getCell(entry, column, preferences)))];
+};
+
+const escapeCsv = (value: string) => {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export const buildCsv = (rows: XlsxCell[][]) => {
+  const lines = rows.map(row => row
+    .map(cell => escapeCsv(cell.type === 'duration' ? formatDuration(cell.value) : String(cell.value)))
+    .join(','));
+  // BOM so spreadsheet apps detect UTF-8
+  return new Blob(['\uFEFF' + lines.join('\r\n')], { type: 'text/csv;charset=utf-8' });
+};
+
+export const buildExportFile = (rows: XlsxCell[][], format: ExportFormat, sheetName: string) => {
+  return format === 'xlsx' ? buildXlsx(sheetName, rows) : buildCsv(rows);
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildDailyTotals,
+  buildFlextimeLedger,
+  formatSignedDuration,
+  getBalanceBefore,
+  getLeaveEarlyPlan,
+  getPayoffPlan,
+} from './flextime';
+import { DEFAULT_WEEKLY_SCHEDULE } from './schedule';
+
+const HOUR_MS = 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+const settings = { startingBalanceMs: 0, carryOverDateKey: null };
+
+// Monday 2025-03-10 to Wednesday 2025-03-12, in Berlin
+const entries = [
+  { date: '2025-03-10T07:00:00.000Z', total_worked_ms: 9 * HOUR_MS },
+  { date: '2025-03-12T07:00:00.000Z', total_worked_ms: 8 * HOUR_MS },
+];
+
+describe('buildDailyTotals', () => {
+  it('counts scheduled days without entries against the target', () => {
+    const days = buildDailyTotals(entries, DEFAULT_WEEKLY_SCHEDULE, 'Europe/Berlin', {}, settings, '2025-03-12');
+
+    expect(days).toEqual([
+      { dateKey: '2025-03-10', workedMs: 9 * HOUR_MS, targetMs: 8 * HOUR_MS },
+      { dateKey: '2025-03-11', workedMs: 0, targetMs: 8 * HOUR_MS },
+      { dateKey: '2025-03-12', workedMs: 8 * HOUR_MS, targetMs: 8 * HOUR_MS },
+    ]);
+  });
+
+  it('leaves today out until work on it was recorded', () => {
+    const days = buildDailyTotals(entries, DEFAULT_WEEKLY_SCHEDULE, 'Europe/Berlin', {}, settings, '2025-03-13');
+
+    expect(days.map(day => day.dateKey)).toEqual(['2025-03-10', '2025-03-11', '2025-03-12']);
+  });
+
+  it('reduces the target of days taken off', () => {
+    const days = buildDailyTotals(entries, DEFAULT_WEEKLY_SCHEDULE, 'Europe/Berlin', { '2025-03-11': 1 }, settings, '2025-03-12');
+
+    expect(days[1].targetMs).toBe(0);
+  });
+
+  it('starts at the carry-over date', () => {
+    const days = buildDailyTotals(entries, DEFAULT_WEEKLY_SCHEDULE, 'Europe/Berlin', {}, {
+      startingBalanceMs: 0,
+      carryOverDateKey: '2025-03-07',
+    }, '2025-03-10');
+
+    // Friday, then a weekend without a target
+    expect(days.map(day => [day.dateKey, day.targetMs])).toEqual([
+      ['2025-03-07', 8 * HOUR_MS],
+      ['2025-03-08', 0],
+      ['2025-03-09', 0],
+      ['2025-03-10', 8 * HOUR_MS],
+    ]);
+  });
+
+  it('assigns entries to the day in the given timezone', () => {
+    const lateEntry = [{ date: '2025-03-10T23:30:00.000Z', total_worked_ms: HOUR_MS }];
+    const days = buildDailyTotals(lateEntry, DEFAULT_WEEKLY_SCHEDULE, 'Europe/Berlin', {}, settings, '2025-03-11');
+
+    expect(days).toEqual([{ dateKey: '2025-03-11', workedMs: HOUR_MS, targetMs: 8 * HOUR_MS }]);
+  });
+
+  it('is empty without entries or a carry-over date', () => {
+    expect(buildDailyTotals([], DEFAULT_WEEKLY_SCHEDULE, 'Europe/Berlin', {}, settings, '2025-03-12')).toEqual([]);
+  });
+});
+
+describe('buildFlextimeLedger', () => {
+  it('accumulates the balance from the starting balance', () => {
+    const days = buildDailyTotals(entries, DEFAULT_WEEKLY_SCHEDULE, 'Europe/Berlin', {}, settings, '2025-03-12');
+    const ledger = buildFlextimeLedger(days, { startingBalanceMs: 2 * HOUR_MS, carryOverDateKey: null });
+
+    expect(ledger.days.map(day => day.balanceMs)).toEqual([3 * HOUR_MS, -5 * HOUR_MS, -5 * HOUR_MS]);
+    expect(ledger.balanceMs).toBe(-5 * HOUR_MS);
+    expect(getBalanceBefore(ledger.days, settings, '2025-03-12')).toBe(-5 * HOUR_MS);
+    expect(getBalanceBefore(ledger.days, { startingBalanceMs: 2 * HOUR_MS, carryOverDateKey: null }, '2025-03-10'))
+      .toBe(2 * HOUR_MS);
+  });
+});
+
+describe('getLeaveEarlyPlan', () => {
+  it('spends no more than the balance', () => {
+    const plan = getLeaveEarlyPlan(new Date('2025-03-10T16:00:00.000Z'), 30 * MINUTE_MS, 8 * HOUR_MS, HOUR_MS);
+
+    expect(plan.spentMs).toBe(30 * MINUTE_MS);
+    expect(plan.leaveTime.toISOString()).toBe('2025-03-10T15:30:00.000Z');
+    expect(plan.remainingBalanceMs).toBe(0);
+  });
+
+  it('never leaves before arrival', () => {
+    const plan = getLeaveEarlyPlan(new Date('2025-03-10T16:00:00.000Z'), 20 * HOUR_MS, 8 * HOUR_MS, 10 * HOUR_MS);
+
+    expect(plan.maxSpendMs).toBe(8 * HOUR_MS);
+    expect(plan.leaveTime.toISOString()).toBe('2025-03-10T08:00:00.000Z');
+  });
+
+  it('spends nothing from a negative balance', () => {
+    const plan = getLeaveEarlyPlan(new Date('2025-03-10T16:00:00.000Z'), -HOUR_MS, 8 * HOUR_MS, HOUR_MS);
+
+    expect(plan.spentMs).toBe(0);
+    expect(plan.leaveTime.toISOString()).toBe('2025-03-10T16:00:00.000Z');
+  });
+});
+
+describe('getPayoffPlan', () => {
+  it('spreads a negative balance over the days in whole minutes', () => {
+    const plan = getPayoffPlan(new Date('2025-03-10T16:00:00.000Z'), -HOUR_MS - MINUTE_MS, 2);
+
+    expect(plan.extraPerDayMs).toBe(31 * MINUTE_MS);
+    expect(plan.leaveTime.toISOString()).toBe('2025-03-10T16:31:00.000Z');
+  });
+
+  it('needs no extra time for a positive balance', () => {
+    expect(getPayoffPlan(new Date('2025-03-10T16:00:00.000Z'), HOUR_MS, 2).extraPerDayMs).toBe(0);
+  });
+});
+
+describe('formatSignedDuration', () => {
+  it('formats hours and minutes with a sign', () => {
+    expect(formatSignedDuration(90 * MINUTE_MS)).toBe('+1:30');
+    expect(formatSignedDuration(-45 * MINUTE_MS)).toBe('-0:45');
+    expect(formatSignedDuration(0)).toBe('+0:00');
+  });
+});
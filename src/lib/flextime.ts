@@ -0,0 +1,140 @@
+// Flextime (overtime) account: per-day worked time against the day's target,
+// accumulated into a running balance from a configurable starting point.
+
+import { getTargetMs } from './absences';
+import { shiftDateKey, toZonedDateKey } from './datetime';
+import type { WeeklySchedule } from './schedule';
+
+export interface FlextimeSettings {
+  startingBalanceMs: number;
+  // Days before this date are ignored; the starting balance applies from it
+  carryOverDateKey: string | null;
+}
+
+export interface DailyTotal {
+  dateKey: string;
+  workedMs: number;
+  targetMs: number;
+}
+
+export interface FlextimeDay extends DailyTotal {
+  deltaMs: number;
+  balanceMs: number;
+}
+
+interface FlextimeEntry {
+  date: string;
+  total_worked_ms: number;
+}
+
+interface FlextimeSettingFields {
+  flextime_start_balance_ms: number;
+  flextime_carry_over_date: string | null;
+}
+
+export const getFlextimeSettings = (profile: FlextimeSettingFields | null): FlextimeSettings => {
+  return {
+    startingBalanceMs: profile?.flextime_start_balance_ms ?? 0,
+    carryOverDateKey: profile?.flextime_carry_over_date ?? null,
+  };
+};
+
+// Every day from the start of the account up to today, in the user's
+// timezone: the time worked on it against the scheduled target, less the
+// share taken off. The account starts at the carry-over date, or else at
+// the first recorded day. Today only counts once work on it was recorded,
+// so the balance does not dip in the morning before checking in.
+export const buildDailyTotals = (
+  entries: FlextimeEntry[],
+  schedule: WeeklySchedule,
+  timezone: string,
+  offFractions: Record<string, number>,
+  settings: FlextimeSettings,
+  todayKey: string
+): DailyTotal[] => {
+  const workedByDay = new Map<string, number>();
+  entries.forEach(entry => {
+    const dateKey = toZonedDateKey(entry.date, timezone);
+    workedByDay.set(dateKey, (workedByDay.get(dateKey) ?? 0) + entry.total_worked_ms);
+  });
+
+  const recordedKeys = Array.from(workedByDay.keys()).sort();
+  const startKey = settings.carryOverDateKey ?? recordedKeys[0];
+  if (!startKey) return [];
+
+  const endKey = workedByDay.has(todayKey) ? todayKey : shiftDateKey(todayKey, -1);
+  const days: DailyTotal[] = [];
+  for (let dateKey = startKey; dateKey <= endKey; dateKey = shiftDateKey(dateKey, 1)) {
+    days.push({
+      dateKey,
+      workedMs: workedByDay.get(dateKey) ?? 0,
+      targetMs: getTargetMs(schedule, dateKey, offFractions),
+    });
+  }
+  return days;
+};
+
+// Running balance over the days, oldest first
+export const buildFlextimeLedger = (days: DailyTotal[], settings: FlextimeSettings) => {
+  let balanceMs = settings.startingBalanceMs;
+
+  const ledger: FlextimeDay[] = [...days]
+    .sort((a, b) => a.dateKey.localeCompare(b.dateKey))
+    .filter(day => !settings.carryOverDateKey || day.dateKey >= settings.carryOverDateKey)
+    .map(day => {
+      const deltaMs = day.workedMs - day.targetMs;
+      balanceMs += deltaMs;
+      return { ...day, deltaMs, balanceMs };
+    });
+
+  return {
+    days: ledger,
+    balanceMs,
+  };
+};
+
+// Balance carried into the given day, i.e. excluding it and anything later
+export const getBalanceBefore = (ledger: FlextimeDay[], settings: FlextimeSettings, dateKey: string) => {
+  const previous = ledger.filter(day => day.dateKey < dateKey);
+  return previous.length > 0 ? previous[previous.length - 1].balanceMs : settings.startingBalanceMs;
+};
+
+const MINUTE_MS = 60 * 1000;
+
+// Leave earlier by spending part of a positive balance. The amount spent is
+// capped by the balance and by the day's target, so the alternative leave
+// time never lies before arrival.
+export const getLeaveEarlyPlan = (leaveTime: Date, balanceMs: number, requiredMs: number, spendMs: number) => {
+  const maxSpendMs = Math.max(0, Math.min(balanceMs, requiredMs));
+  const spentMs = Math.min(Math.max(0, spendMs), maxSpendMs);
+
+  return {
+    maxSpendMs,
+    spentMs,
+    leaveTime: new Date(leaveTime.getTime() - spentMs),
+    remainingBalanceMs: balanceMs - spentMs,
+  };
+};
+
+// Work off a negative balance in equal parts over the next days, rounded up
+// to whole minutes
+export const getPayoffPlan = (leaveTime: Date, balanceMs: number, days: number) => {
+  const debtMs = Math.max(0, -balanceMs);
+  const extraPerDayMs = days > 0
+    ? Math.ceil(debtMs / days / MINUTE_MS) * MINUTE_MS
+    : debtMs;
+
+  return {
+    extraPerDayMs,
+    leaveTime: new Date(leaveTime.getTime() + extraPerDayMs),
+  };
+};
+
+// "+1:30" / "-0:45"
+export const formatSignedDuration = (ms: number) => {
+  const sign = ms < 0 ? '-' : '+';
+  const totalMinutes = Math.floor(Math.abs(ms) / (1000 * 60));
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return `${sign}${hours}:${minutes.toString().padStart(2, '0')}`;
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { getHolidayCalendar, getHolidayMap, getHolidays, getYearsToCover } from './holidays';
+
+const holidayDate = (calendarId: string, year: number, name: string) => {
+  return getHolidays(getHolidayCalendar(calendarId), year).find(holiday => holiday.name === name)?.dateKey;
+};
+
+describe('getHolidays', () => {
+  it('derives the movable feasts from Easter Sunday', () => {
+    // Easter Sunday: 2024-03-31, 2025-04-20, 2026-04-05
+    expect(holidayDate('de', 2024, 'Good Friday')).toBe('2024-03-29');
+    expect(holidayDate('de', 2025, 'Easter Monday')).toBe('2025-04-21');
+    expect(holidayDate('de', 2025, 'Ascension Day')).toBe('2025-05-29');
+    expect(holidayDate('de', 2025, 'Whit Monday')).toBe('2025-06-09');
+    expect(holidayDate('de-BY', 2025, 'Corpus Christi')).toBe('2025-06-19');
+    expect(holidayDate('de', 2026, 'Good Friday')).toBe('2026-04-03');
+  });
+
+  it('finds the nth and the last weekday of a month', () => {
+    expect(holidayDate('us', 2025, 'Martin Luther King Jr. Day')).toBe('2025-01-20');
+    expect(holidayDate('us', 2025, 'Thanksgiving Day')).toBe('2025-11-27');
+    expect(holidayDate('us', 2025, 'Labor Day')).toBe('2025-09-01');
+    expect(holidayDate('us', 2025, 'Memorial Day')).toBe('2025-05-26');
+    expect(holidayDate('gb-eng', 2025, 'Early May Bank Holiday')).toBe('2025-05-05');
+    expect(holidayDate('gb-eng', 2025, 'Summer Bank Holiday')).toBe('2025-08-25');
+  });
+
+  it('adds the regional holidays to the national ones', () => {
+    const national = getHolidays(getHolidayCalendar('de'), 2025);
+    const berlin = getHolidays(getHolidayCalendar('de-BE'), 2025);
+
+    expect(berlin).toHaveLength(national.length + 1);
+    expect(berlin).toContainEqual({ dateKey: '2025-03-08', name: "International Women's Day" });
+    expect(national.map(holiday => holiday.dateKey)).not.toContain('2025-03-08');
+  });
+
+  it('sorts the holidays by date', () => {
+    const dateKeys = getHolidays(getHolidayCalendar('at'), 2025).map(holiday => holiday.dateKey);
+
+    expect(dateKeys).toEqual([...dateKeys].sort());
+  });
+
+  it('has no holidays without a calendar', () => {
+    expect(getHolidayCalendar(null)).toBeNull();
+    expect(getHolidayCalendar('unknown')).toBeNull();
+    expect(getHolidays(null, 2025)).toEqual([]);
+  });
+});
+
+describe('getHolidayMap', () => {
+  it('keys the holidays of several years by date', () => {
+    const holidays = getHolidayMap(getHolidayCalendar('de'), [2024, 2025]);
+
+    expect(holidays['2024-12-25']).toBe('Christmas Day');
+    expect(holidays['2025-01-01']).toBe("New Year's Day");
+    expect(holidays['2025-01-02']).toBeUndefined();
+  });
+});
+
+describe('getYearsToCover', () => {
+  it('spans the oldest day up to next year', () => {
+    expect(getYearsToCover(['2023-06-01', '2025-01-10'], '2025-03-10')).toEqual([2023, 2024, 2025, 2026]);
+    expect(getYearsToCover([], '2025-03-10')).toEqual([2025, 2026]);
+  });
+});
@@ -0,0 +1,205 @@
+// Bundled public holiday calendars, computed from rules so they work for any
+// year. Observed-day substitutions (e.g. a holiday falling on a weekend moved
+// to Monday) are not modelled.
+
+export type HolidayRule =
+  | { name: string; month: number; day: number }
+  | { name: string; easterOffset: number }
+  // nth weekday of a month; nth = -1 is the last one
+  | { name: string; month: number; weekday: number; nth: number };
+
+export interface HolidayCalendar {
+  id: string;
+  label: string;
+  rules: HolidayRule[];
+}
+
+export interface Holiday {
+  dateKey: string;
+  name: string;
+}
+
+const DE_NATIONAL: HolidayRule[] = [
+  { name: "New Year's Day", month: 1, day: 1 },
+  { name: 'Good Friday', easterOffset: -2 },
+  { name: 'Easter Monday', easterOffset: 1 },
+  { name: 'Labour Day', month: 5, day: 1 },
+  { name: 'Ascension Day', easterOffset: 39 },
+  { name: 'Whit Monday', easterOffset: 50 },
+  { name: 'German Unity Day', month: 10, day: 3 },
+  { name: 'Christmas Day', month: 12, day: 25 },
+  { name: "St. Stephen's Day", month: 12, day: 26 },
+];
+
+const EPIPHANY: HolidayRule = { name: 'Epiphany', month: 1, day: 6 };
+const CORPUS_CHRISTI: HolidayRule = { name: 'Corpus Christi', easterOffset: 60 };
+const ALL_SAINTS: HolidayRule = { name: "All Saints' Day", month: 11, day: 1 };
+
+export const HOLIDAY_CALENDARS: Record<string, HolidayCalendar> = {
+  de: {
+    id: 'de',
+    label: 'Germany (national)',
+    rules: DE_NATIONAL,
+  },
+  'de-BW': {
+    id: 'de-BW',
+    label: 'Germany – Baden-Württemberg',
+    rules: [...DE_NATIONAL, EPIPHANY, CORPUS_CHRISTI, ALL_SAINTS],
+  },
+  'de-BY': {
+    id: 'de-BY',
+    label: 'Germany – Bavaria',
+    rules: [...DE_NATIONAL, EPIPHANY, CORPUS_CHRISTI, ALL_SAINTS],
+  },
+  'de-BE': {
+    id: 'de-BE',
+    label: 'Germany – Berlin',
+    rules: [...DE_NATIONAL, { name: "International Women's Day", month: 3, day: 8 }],
+  },
+  'de-NW': {
+    id: 'de-NW',
+    label: 'Germany – North Rhine-Westphalia',
+    rules: [...DE_NATIONAL, CORPUS_CHRISTI, ALL_SAINTS],
+  },
+  at: {
+    id: 'at',
+    label: 'Austria',
+    rules: [
+      { name: "New Year's Day", month: 1, day: 1 },
+      EPIPHANY,
+      { name: 'Easter Monday', easterOffset: 1 },
+      { name: 'Labour Day', month: 5, day: 1 },
+      { name: 'Ascension Day', easterOffset: 39 },
+      { name: 'Whit Monday', easterOffset: 50 },
+      CORPUS_CHRISTI,
+      { name: 'Assumption Day', month: 8, day: 15 },
+      { name: 'National Day', month: 10, day: 26 },
+      ALL_SAINTS,
+      { name: 'Immaculate Conception', month: 12, day: 8 },
+      { name: 'Christmas Day', month: 12, day: 25 },
+      { name: "St. Stephen's Day", month: 12, day: 26 },
+    ],
+  },
+  'ch-ZH': {
+    id: 'ch-ZH',
+    label: 'Switzerland – Zurich',
+    rules: [
+      { name: "New Year's Day", month: 1, day: 1 },
+      { name: "Berchtold's Day", month: 1, day: 2 },
+      { name: 'Good Friday', easterOffset: -2 },
+      { name: 'Easter Monday', easterOffset: 1 },
+      { name: 'Labour Day', month: 5, day: 1 },
+      { name: 'Ascension Day', easterOffset: 39 },
+      { name: 'Whit Monday', easterOffset: 50 },
+      { name: 'Swiss National Day', month: 8, day: 1 },
+      { name: 'Christmas Day', month: 12, day: 25 },
+      { name: "St. Stephen's Day", month: 12, day: 26 },
+    ],
+  },
+  'gb-eng': {
+    id: 'gb-eng',
+    label: 'United Kingdom – England & Wales',
+    rules: [
+      { name: "New Year's Day", month: 1, day: 1 },
+      { name: 'Good Friday', easterOffset: -2 },
+      { name: 'Easter Monday', easterOffset: 1 },
+      { name: 'Early May Bank Holiday', month: 5, weekday: 1, nth: 1 },
+      { name: 'Spring Bank Holiday', month: 5, weekday: 1, nth: -1 },
+      { name: 'Summer Bank Holiday', month: 8, weekday: 1, nth: -1 },
+      { name: 'Christmas Day', month: 12, day: 25 },
+      { name: 'Boxing Day', month: 12, day: 26 },
+    ],
+  },
+  us: {
+    id: 'us',
+    label: 'United States (federal)',
+    rules: [
+      { name: "New Year's Day", month: 1, day: 1 },
+      { name: 'Martin Luther King Jr. Day', month: 1, weekday: 1, nth: 3 },
+      { name: "Presidents' Day", month: 2, weekday: 1, nth: 3 },
+      { name: 'Memorial Day', month: 5, weekday: 1, nth: -1 },
+      { name: 'Juneteenth', month: 6, day: 19 },
+      { name: 'Independence Day', month: 7, day: 4 },
+      { name: 'Labor Day', month: 9, weekday: 1, nth: 1 },
+      { name: 'Columbus Day', month: 10, weekday: 1, nth: 2 },
+      { name: 'Veterans Day', month: 11, day: 11 },
+      { name: 'Thanksgiving Day', month: 11, weekday: 4, nth: 4 },
+      { name: 'Christmas Day', month: 12, day: 25 },
+    ],
+  },
+};
+
+export const getHolidayCalendar = (id: string | null | undefined) => {
+  return id ? HOLIDAY_CALENDARS[id] ?? null : null;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateKey = (date: Date) => date.toISOString().split('T')[0];
+
+// Anonymous Gregorian algorithm (Meeus/Jones/Butcher)
+const getEasterSunday = (year: number) => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+const getNthWeekday = (year: number, month: number, weekday: number, nth: number) => {
+  if (nth > 0) {
+    const first = new Date(Date.UTC(year, month - 1, 1));
+    const offset = (weekday - first.getUTCDay() + 7) % 7;
+    return new Date(first.getTime() + (offset + (nth - 1) * 7) * DAY_MS);
+  }
+
+  const last = new Date(Date.UTC(year, month, 0));
+  const offset = (last.getUTCDay() - weekday + 7) % 7;
+  return new Date(last.getTime() - offset * DAY_MS);
+};
+
+const resolveRule = (rule: HolidayRule, year: number) => {
+  if ('easterOffset' in rule) {
+    return new Date(getEasterSunday(year).getTime() + rule.easterOffset * DAY_MS);
+  }
+  if ('weekday' in rule) {
+    return getNthWeekday(year, rule.month, rule.weekday, rule.nth);
+  }
+  return new Date(Date.UTC(year, rule.month - 1, rule.day));
+};
+
+export const getHolidays = (calendar: HolidayCalendar | null, year: number): Holiday[] => {
+  if (!calendar) return [];
+
+  return calendar.rules
+    .map(rule => ({ dateKey: toDateKey(resolveRule(rule, year)), name: rule.name }))
+    .sort((a, b) => a.dateKey.localeCompare(b.dateKey));
+};
+
+// Holidays of several years keyed by date
+export const getHolidayMap = (calendar: HolidayCalendar | null, years: number[]) => {
+  const holidays: Record<string, string> = {};
+  years.forEach(year => {
+    getHolidays(calendar, year).forEach(holiday => {
+      holidays[holiday.dateKey] = holiday.name;
+    });
+  });
+  return holidays;
+};
+
+// Calendar years spanned by the given days, plus the current and next year
+export const getYearsToCover = (dateKeys: string[], todayKey: string) => {
+  const currentYear = parseInt(todayKey.slice(0, 4));
+  const firstYear = dateKeys.reduce((min, dateKey) => Math.min(min, parseInt(dateKey.slice(0, 4))), currentYear);
+  return Array.from({ length: currentYear - firstYear + 2 }, (_, index) => firstYear + index);
+};
@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import {
+  classifyImportDays,
+  combineImportRows,
+  getImportSummary,
+  guessImportMapping,
+  parseCsv,
+  parseImportDate,
+  parseImportDuration,
+  parseImportTime,
+  readImportRows,
+  type ImportMapping,
+} from './import';
+
+const HOUR_MS = 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+const now = new Date('2025-03-20T12:00:00.000Z');
+
+const mapping: ImportMapping = {
+  startDate: 0,
+  startTime: 1,
+  endDate: null,
+  endTime: 2,
+  pause: 3,
+  name: 4,
+};
+
+describe('parseCsv', () => {
+  it('handles quotes, doubled quotes and line breaks in quotes', () => {
+    const rows = parseCsv('date,name\n2025-03-10,"Client ""A"", on site"\n2025-03-11,"two\nlines"\n');
+
+    expect(rows).toEqual([
+      ['date', 'name'],
+      ['2025-03-10', 'Client "A", on site'],
+      ['2025-03-11', 'two\nlines'],
+    ]);
+  });
+
+  it('detects semicolons and skips empty lines', () => {
+    expect(parseCsv('\uFEFFa;b\r\n\r\n1;2')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+});
+
+describe('guessImportMapping', () => {
+  it('maps known headers and leaves the rest unmapped', () => {
+    const guessed = guessImportMapping(['Start date', 'Start time', 'End time', 'Comment']);
+
+    expect(guessed.startDate).toBe(0);
+    expect(guessed.startTime).toBe(1);
+    expect(guessed.endTime).toBe(2);
+    expect(guessed.pause).toBeNull();
+  });
+});
+
+describe('value parsers', () => {
+  it('reads dates in each order and rejects impossible ones', () => {
+    expect(parseImportDate('2025-03-10 08:00', 'ymd')).toBe('2025-03-10');
+    expect(parseImportDate('10.03.2025', 'dmy')).toBe('2025-03-10');
+    expect(parseImportDate('03/10/2025', 'mdy')).toBe('2025-03-10');
+    expect(parseImportDate('2025-02-30', 'ymd')).toBeNull();
+  });
+
+  it('reads 24-hour and 12-hour times', () => {
+    expect(parseImportTime('8:05')).toBe('08:05');
+    expect(parseImportTime('2025-03-10 17:30:12')).toBe('17:30');
+    expect(parseImportTime('12:15 a.m.')).toBe('00:15');
+    expect(parseImportTime('1:00 PM')).toBe('13:00');
+    expect(parseImportTime('25:00')).toBeNull();
+  });
+
+  it('reads pauses as clock times or minutes', () => {
+    expect(parseImportDuration('')).toBe(0);
+    expect(parseImportDuration('0:45')).toBe(45 * MINUTE_MS);
+    expect(parseImportDuration('30')).toBe(30 * MINUTE_MS);
+    expect(parseImportDuration('7,5')).toBe(7.5 * MINUTE_MS);
+    expect(parseImportDuration('soon')).toBeNull();
+  });
+});
+
+describe('readImportRows', () => {
+  it('reads times in the given timezone and reports unreadable rows by line', () => {
+    const { rows, errors } = readImportRows([
+      ['date', 'start', 'end', 'pause', 'name'],
+      ['2025-03-10', '08:00', '16:30', '30', 'Office'],
+      ['2025-03-10', '22:00', '06:00', '', ''],
+      ['', '08:00', '16:00', '', ''],
+      ['2025-03-11', '08:00', '16:00', 'soon', ''],
+    ], mapping, 'ymd', 'Europe/Berlin');
+
+    expect(rows.map(row => [row.checkIn.toISOString(), row.checkOut.toISOString(), row.name])).toEqual([
+      ['2025-03-10T07:00:00.000Z', '2025-03-10T15:30:00.000Z', 'Office'],
+      ['2025-03-10T21:00:00.000Z', '2025-03-11T05:00:00.000Z', null],
+    ]);
+    expect(errors.map(error => error.line)).toEqual([4, 5]);
+  });
+});
+
+describe('readImportRows with an end date', () => {
+  it('reads both ends in the given timezone', () => {
+    const { rows } = readImportRows([
+      ['date', 'start', 'end date', 'end'],
+      ['2025-03-29', '22:00', '2025-03-30', '06:00'],
+    ], { ...mapping, endDate: 2, endTime: 3, pause: null, name: null }, 'ymd', 'Europe/Berlin');
+
+    expect(rows[0].checkIn.toISOString()).toBe('2025-03-29T21:00:00.000Z');
+    expect(rows[0].checkOut.toISOString()).toBe('2025-03-30T04:00:00.000Z');
+  });
+});
+
+describe('combineImportRows', () => {
+  const { rows } = readImportRows([
+    ['date', 'start', 'end', 'pause', 'name'],
+    ['2025-03-10', '13:00', '17:00', '', 'Afternoon'],
+    ['2025-03-10', '08:00', '12:00', '15', 'Morning'],
+    ['2025-03-10', '11:00', '12:30', '', ''],
+  ], mapping, 'ymd', 'UTC');
+
+  it('merges overlapping rows and counts the gaps as breaks', () => {
+    const [day] = combineImportRows(rows);
+
+    expect(day.segments.map(segment => [segment.checkIn.toISOString(), segment.checkOut.toISOString()])).toEqual([
+      ['2025-03-10T08:00:00.000Z', '2025-03-10T12:30:00.000Z'],
+      ['2025-03-10T13:00:00.000Z', '2025-03-10T17:00:00.000Z'],
+    ]);
+    expect(day.statedPauseMs).toBe(15 * MINUTE_MS);
+    expect(day.pauseMs).toBe(45 * MINUTE_MS);
+    expect(day.workedMs).toBe(8 * HOUR_MS + 15 * MINUTE_MS);
+    expect(day.name).toBe('Morning; Afternoon');
+    expect(day.lines).toEqual([3, 4, 2]);
+  });
+
+  it('skips days that overlap existing entries', () => {
+    const days = classifyImportDays(combineImportRows(rows), [
+      { check_in: '2025-03-10T16:00:00.000Z', check_out: '2025-03-10T18:00:00.000Z' },
+    ], now);
+    const summary = getImportSummary(days, 3, []);
+
+    expect(days[0].status).toBe('duplicate');
+    expect(summary).toEqual({
+      rowCount: 3,
+      invalidRowCount: 0,
+      newDayCount: 0,
+      duplicateDayCount: 1,
+      invalidDayCount: 0,
+      newWorkedMs: 0,
+    });
+  });
+});
@@ -0,0 +1,357 @@
+// Importing history from spreadsheets and other time trackers: parsing CSV,
+// mapping its columns, combining rows into workdays and checking them
+// against the existing entries before anything is written.
+
+import { fromZonedDateTime } from './datetime';
+import {
+  getManualEntryTotals,
+  overlapsEntries,
+  resolveManualEntry,
+  validateManualEntry,
+  type EntryRange,
+} from './manualEntries';
+
+export type ImportSource = 'csv' | 'toggl' | 'clockify';
+
+export type ImportField = 'startDate' | 'startTime' | 'endDate' | 'endTime' | 'pause' | 'name';
+
+export type ImportDateFormat = 'ymd' | 'dmy' | 'mdy';
+
+// Column index per field, or null when the file has no such column
+export type ImportMapping = Record<ImportField, number | null>;
+
+export const IMPORT_FIELDS: { id: ImportField; label: string; required: boolean }[] = [
+  { id: 'startDate', label: 'Date', required: true },
+  { id: 'startTime', label: 'Start time', required: true },
+  { id: 'endDate', label: 'End date', required: false },
+  { id: 'endTime', label: 'End time', required: true },
+  { id: 'pause', label: 'Pause', required: false },
+  { id: 'name', label: 'Description', required: false },
+];
+
+export const IMPORT_DATE_FORMATS: { value: ImportDateFormat; label: string }[] = [
+  { value: 'ymd', label: 'YYYY-MM-DD' },
+  { value: 'dmy', label: 'DD.MM.YYYY' },
+  { value: 'mdy', label: 'MM/DD/YYYY' },
+];
+
+// Header names per field, compared after normalizing case and punctuation
+const GENERIC_HEADERS: Record<ImportField, string[]> = {
+  startDate: ['date', 'day', 'start date', 'datum'],
+  startTime: ['start time', 'start', 'check in', 'begin', 'from', 'von'],
+  endDate: ['end date'],
+  endTime: ['end time', 'end', 'check out', 'finish', 'to', 'bis'],
+  pause: ['pause', 'break', 'breaks', 'paused'],
+  name: ['description', 'name', 'note', 'notes', 'task', 'project'],
+};
+
+export const IMPORT_SOURCES: { value: ImportSource; label: string; dateFormat: ImportDateFormat }[] = [
+  { value: 'csv', label: 'Spreadsheet (CSV)', dateFormat: 'ymd' },
+  // Toggl Track "Detailed report" CSV
+  { value: 'toggl', label: 'Toggl Track', dateFormat: 'ymd' },
+  // Clockify "Detailed report" CSV with US date format
+  { value: 'clockify', label: 'Clockify', dateFormat: 'mdy' },
+];
+
+export interface ImportRow {
+  line: number;
+  dateKey: string;
+  checkIn: Date;
+  checkOut: Date;
+  pauseMs: number;
+  name: string | null;
+}
+
+export interface ImportRowError {
+  line: number;
+  message: string;
+}
+
+export type ImportDayStatus = 'new' | 'duplicate' | 'invalid';
+
+// One workday built from all rows starting on it. Rows become the work
+// segments; gaps between them count as breaks.
+export interface ImportDay {
+  dateKey: string;
+  checkIn: Date;
+  checkOut: Date;
+  segments: { checkIn: Date; checkOut: Date }[];
+  gaps: { start: Date; end: Date }[];
+  // Pauses stated in the file, on top of the gaps
+  statedPauseMs: number;
+  pauseMs: number;
+  workedMs: number;
+  name: string | null;
+  lines: number[];
+  status: ImportDayStatus;
+  message: string | null;
+}
+
+export interface ImportSummary {
+  rowCount: number;
+  invalidRowCount: number;
+  newDayCount: number;
+  duplicateDayCount: number;
+  invalidDayCount: number;
+  newWorkedMs: number;
+}
+
+// Comma, semicolon or tab, whichever splits the first line the most
+const detectDelimiter = (text: string) => {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  return [',', ';', '\t'].reduce((best, delimiter) =>
+    firstLine.split(delimiter).length > firstLine.split(best).length ? delimiter : best
+  );
+};
+
+// RFC 4180 CSV with quoted fields, doubled quotes and line breaks in quotes
+export const parseCsv = (text: string) => {
+  const content = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(content);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+};
+
+const normalizeHeader = (header: string) => {
+  return header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+};
+
+export const guessImportMapping = (header: string[]): ImportMapping => {
+  const normalized = header.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping = {} as ImportMapping;
+
+  IMPORT_FIELDS.forEach(({ id }) => {
+    const index = GENERIC_HEADERS[id]
+      .map(name => normalized.findIndex((column, columnIndex) => column === name && !used.has(columnIndex)))
+      .find(columnIndex => columnIndex >= 0);
+    mapping[id] = index ?? null;
+    if (index !== undefined) used.add(index);
+  });
+
+  return mapping;
+};
+
+const isValidDate = (year: number, month: number, day: number) => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+// Date key from the start of a value; any time after the date is ignored
+export const parseImportDate = (value: string, format: ImportDateFormat) => {
+  const match = format === 'ymd'
+    ? value.trim().match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/)
+    : value.trim().match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})/);
+  if (!match) return null;
+
+  const [year, month, day] = format === 'ymd'
+    ? [match[1], match[2], match[3]].map(Number)
+    : format === 'dmy'
+      ? [match[3], match[2], match[1]].map(Number)
+      : [match[3], match[1], match[2]].map(Number);
+  if (!isValidDate(year, month, day)) return null;
+
+  return `${year}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`;
+};
+
+// "HH:MM" from a time or date-time value, 12-hour clock included; seconds are dropped
+export const parseImportTime = (value: string) => {
+  const match = value.match(/(\d{1,2}):(\d{2})(?::\d{2})?(?:\s*([ap])\.?m\.?)?/i);
+  if (!match) return null;
+
+  let hours = parseInt(match[1]);
+  const minutes = parseInt(match[2]);
+  const meridiem = match[3]?.toLowerCase();
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem === 'p' ? 12 : 0);
+  }
+  if (hours > 23 || minutes > 59) return null;
+
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+};
+
+// "H:MM", "H:MM:SS" or a number of minutes; empty means no pause
+export const parseImportDuration = (value: string) => {
+  const trimmed = value.trim();
+  if (!trimmed) return 0;
+
+  const clock = trimmed.match(/^(\d+):(\d{2})(?::(\d{2}))?$/);
+  if (clock) {
+    return ((parseInt(clock[1]) * 60 + parseInt(clock[2])) * 60 + parseInt(clock[3] ?? '0')) * 1000;
+  }
+  if (/^\d+([.,]\d+)?$/.test(trimmed)) {
+    return Math.round(parseFloat(trimmed.replace(',', '.')) * 60 * 1000);
+  }
+  return null;
+};
+
+// Turn the data rows (after the header) into check-in/check-out pairs, read
+// in the given timezone
+export const readImportRows = (
+  table: string[][],
+  mapping: ImportMapping,
+  dateFormat: ImportDateFormat,
+  timezone: string
+) => {
+  const rows: ImportRow[] = [];
+  const errors: ImportRowError[] = [];
+  const cell = (cells: string[], field: ImportField) => {
+    const index = mapping[field];
+    return index === null ? '' : (cells[index] ?? '').trim();
+  };
+
+  table.slice(1).forEach((cells, index) => {
+    const line = index + 2;
+    const dateKey = parseImportDate(cell(cells, 'startDate'), dateFormat);
+    const checkInTime = parseImportTime(cell(cells, 'startTime'));
+    const checkOutTime = parseImportTime(cell(cells, 'endTime'));
+    const pauseMs = parseImportDuration(cell(cells, 'pause'));
+
+    if (!dateKey) {
+      errors.push({ line, message: 'Missing or unreadable date.' });
+      return;
+    }
+    if (!checkInTime || !checkOutTime) {
+      errors.push({ line, message: 'Missing or unreadable start or end time.' });
+      return;
+    }
+    if (pauseMs === null) {
+      errors.push({ line, message: 'Unreadable pause.' });
+      return;
+    }
+
+    // Without an end date, an end before the start is on the next day
+    const endDateKey = mapping.endDate === null ? null : parseImportDate(cell(cells, 'endDate'), dateFormat);
+    const { checkIn, checkOut } = endDateKey
+      ? {
+          checkIn: fromZonedDateTime(dateKey, checkInTime, timezone),
+          checkOut: fromZonedDateTime(endDateKey, checkOutTime, timezone),
+        }
+      : resolveManualEntry({ dateKey, checkIn: checkInTime, checkOut: checkOutTime, pauseMs }, timezone);
+    if (checkOut.getTime() <= checkIn.getTime()) {
+      errors.push({ line, message: 'The end is not after the start.' });
+      return;
+    }
+
+    rows.push({ line, dateKey, checkIn, checkOut, pauseMs, name: cell(cells, 'name') || null });
+  });
+
+  return { rows, errors };
+};
+
+// Combine the rows of each day into one workday, oldest first. Overlapping
+// rows are merged into one segment.
+export const combineImportRows = (rows: ImportRow[]) => {
+  const byDay = new Map<string, ImportRow[]>();
+  rows.forEach(row => {
+    byDay.set(row.dateKey, [...(byDay.get(row.dateKey) ?? []), row]);
+  });
+
+  return Array.from(byDay.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([dateKey, dayRows]): ImportDay => {
+      const sorted = [...dayRows].sort((a, b) => a.checkIn.getTime() - b.checkIn.getTime());
+      const segments: ImportDay['segments'] = [];
+      sorted.forEach(row => {
+        const last = segments[segments.length - 1];
+        if (last && row.checkIn.getTime() <= last.checkOut.getTime()) {
+          last.checkOut = new Date(Math.max(last.checkOut.getTime(), row.checkOut.getTime()));
+        } else {
+          segments.push({ checkIn: row.checkIn, checkOut: row.checkOut });
+        }
+      });
+
+      const gaps = segments.slice(1).map((segment, index) => ({
+        start: segments[index].checkOut,
+        end: segment.checkIn,
+      }));
+      const gapMs = gaps.reduce((sum, gap) => sum + gap.end.getTime() - gap.start.getTime(), 0);
+      const statedPauseMs = sorted.reduce((sum, row) => sum + row.pauseMs, 0);
+      const checkIn = segments[0].checkIn;
+      const checkOut = segments[segments.length - 1].checkOut;
+      const pauseMs = gapMs + statedPauseMs;
+      const names = Array.from(new Set(sorted.map(row => row.name).filter((name): name is string => !!name)));
+
+      return {
+        dateKey,
+        checkIn,
+        checkOut,
+        segments,
+        gaps,
+        statedPauseMs,
+        pauseMs,
+        workedMs: getManualEntryTotals(checkIn, checkOut, pauseMs).total_worked_ms,
+        name: names.length > 0 ? names.join('; ') : null,
+        lines: sorted.map(row => row.line),
+        status: 'new',
+        message: null,
+      };
+    });
+};
+
+// Flag days that are invalid or overlap existing entries or an earlier day
+// of the import; those are skipped
+export const classifyImportDays = (days: ImportDay[], existing: EntryRange[], now: Date) => {
+  const accepted: EntryRange[] = [];
+
+  return days.map((day): ImportDay => {
+    const error = validateManualEntry(day.checkIn, day.checkOut, day.pauseMs, [], now);
+    if (error) {
+      return { ...day, status: 'invalid', message: error };
+    }
+    if (overlapsEntries(day.checkIn, day.checkOut, [...existing, ...accepted], now)) {
+      return { ...day, status: 'duplicate', message: 'Overlaps an existing entry.' };
+    }
+
+    accepted.push({ check_in: day.checkIn.toISOString(), check_out: day.checkOut.toISOString() });
+    return { ...day, status: 'new', message: null };
+  });
+};
+
+export const getImportSummary = (days: ImportDay[], rowCount: number, errors: ImportRowError[]): ImportSummary => {
+  const newDays = days.filter(day => day.status === 'new');
+  return {
+    rowCount,
+    invalidRowCount: errors.length,
+    newDayCount: newDays.length,
+    duplicateDayCount: days.filter(day => day.status === 'duplicate').length,
+    invalidDayCount: days.filter(day => day.status === 'invalid').length,
+    newWorkedMs: newDays.reduce((sum, day) => sum + day.workedMs, 0),
+  };
+};
@@ -0,0 +1,140 @@
+// Local-only storage for people who decline cloud storage: the same rows the
+// database would hold for sessions, entries, segments and breaks, kept in
+// IndexedDB on this device until they are moved to an account. The same
+// database holds the offline outbox of signed-in users (see outbox.ts).
+
+import type { Tables, TablesInsert } from '@/integrations/supabase/types';
+
+export const LOCAL_TABLES = ['work_sessions', 'work_entries', 'work_segments', 'work_breaks'] as const;
+
+export type LocalTable = typeof LOCAL_TABLES[number];
+
+// Owner of rows that do not belong to an account yet
+export const LOCAL_USER_ID = 'local';
+
+// Stores used by the offline outbox of signed-in users
+export const OUTBOX_STORE = 'outbox';
+export const CACHE_STORE = 'cache';
+
+const DB_NAME = 'workday-tracker';
+const DB_VERSION = 2;
+
+// Column defaults the database would fill in
+const COLUMN_DEFAULTS: { [T in LocalTable]: Partial<Tables<T>> } = {
+  work_sessions: {
+    required_work_hours: 8,
+    required_work_minutes: 0,
+    is_active: false,
+    is_running: false,
+    is_paused: false,
+    start_time: null,
+    current_session_start: null,
+    pause_start_time: null,
+    total_worked_ms: 0,
+    total_paused_ms: 0,
+  },
+  work_entries: {
+    check_out: null,
+    name: null,
+    deleted_at: null,
+    total_worked_ms: 0,
+    total_paused_ms: 0,
+  },
+  work_segments: {
+    check_out: null,
+  },
+  work_breaks: {
+    end_time: null,
+    type: 'personal',
+  },
+};
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        [...LOCAL_TABLES, OUTBOX_STORE].forEach(store => {
+          if (!request.result.objectStoreNames.contains(store)) {
+            request.result.createObjectStore(store, { keyPath: 'id' });
+          }
+        });
+        if (!request.result.objectStoreNames.contains(CACHE_STORE)) {
+          request.result.createObjectStore(CACHE_STORE, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return databasePromise;
+};
+
+// Run one request in its own transaction and resolve once it is committed
+export const runRequest = async <R>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest<R>
+) => {
+  const database = await openDatabase();
+  return new Promise<R>((resolve, reject) => {
+    const transaction = database.transaction(storeName, mode);
+    const request = createRequest(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const listLocalRows = <T extends LocalTable>(table: T) => {
+  return runRequest(table, 'readonly', store => store.getAll() as IDBRequest<Tables<T>[]>);
+};
+
+// The row the database would create from these values
+export const buildRow = <T extends LocalTable>(table: T, values: Omit<TablesInsert<T>, 'user_id'>, userId: string) => {
+  const now = new Date().toISOString();
+  return {
+    ...COLUMN_DEFAULTS[table],
+    id: crypto.randomUUID(),
+    created_at: now,
+    updated_at: now,
+    ...values,
+    user_id: userId,
+  } as Tables<T>;
+};
+
+export const insertLocalRow = async <T extends LocalTable>(table: T, values: Omit<TablesInsert<T>, 'user_id'>) => {
+  const row = buildRow(table, values, LOCAL_USER_ID);
+  await runRequest(table, 'readwrite', store => store.put(row));
+  return row;
+};
+
+export const updateLocalRow = async <T extends LocalTable>(table: T, id: string, updates: Partial<Tables<T>>) => {
+  const row = await runRequest(table, 'readonly', store => store.get(id) as IDBRequest<Tables<T> | undefined>);
+  if (!row) {
+    throw new Error(`No local ${table} row ${id}`);
+  }
+
+  const updated = { ...row, ...updates, id, updated_at: new Date().toISOString() };
+  await runRequest(table, 'readwrite', store => store.put(updated));
+  return updated;
+};
+
+export const deleteLocalRow = async (table: LocalTable, id: string) => {
+  await runRequest(table, 'readwrite', store => store.delete(id));
+};
+
+export const clearLocalRows = async () => {
+  await Promise.all(LOCAL_TABLES.map(table => runRequest(table, 'readwrite', store => store.clear())));
+};
+
+// Result in the shape of a Supabase response, so callers handle both alike
+export const toLocalResult = async <R>(operation: () => Promise<R>) => {
+  try {
+    return { data: await operation(), error: null };
+  } catch (error) {
+    return { data: null, error: error as Error };
+  }
+};
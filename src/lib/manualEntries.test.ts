@@ -0,0 +1,175 @@
+import { describe, expect, it } from 'vitest';
+import { fitSegments, getManualEntryTotals, reconcileBreaks, resolveManualEntry, validateManualEntry } from './manualEntries';
+
+const HOUR_MS = 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+const now = new Date('2025-03-20T12:00:00.000Z');
+
+describe('resolveManualEntry', () => {
+  it('reads the times in the given timezone', () => {
+    const { checkIn, checkOut } = resolveManualEntry(
+      { dateKey: '2025-03-10', checkIn: '08:00', checkOut: '16:30', pauseMs: 0 },
+      'Europe/Berlin'
+    );
+
+    expect(checkIn.toISOString()).toBe('2025-03-10T07:00:00.000Z');
+    expect(checkOut.toISOString()).toBe('2025-03-10T15:30:00.000Z');
+  });
+
+  it('puts a check-out before the check-in on the next day', () => {
+    const { checkIn, checkOut } = resolveManualEntry(
+      { dateKey: '2025-03-10', checkIn: '22:00', checkOut: '06:00', pauseMs: 0 },
+      'Europe/Berlin'
+    );
+
+    expect(checkOut.getTime() - checkIn.getTime()).toBe(8 * HOUR_MS);
+  });
+
+  it('counts real hours for a night shift across a DST switch', () => {
+    const { checkIn, checkOut } = resolveManualEntry(
+      { dateKey: '2025-03-29', checkIn: '22:00', checkOut: '06:00', pauseMs: 0 },
+      'Europe/Berlin'
+    );
+
+    expect(checkOut.getTime() - checkIn.getTime()).toBe(7 * HOUR_MS);
+  });
+
+  it('gives invalid dates for unreadable input', () => {
+    const { checkIn } = resolveManualEntry({ dateKey: '', checkIn: '', checkOut: '', pauseMs: 0 }, 'Europe/Berlin');
+
+    expect(isNaN(checkIn.getTime())).toBe(true);
+  });
+});
+
+describe('getManualEntryTotals', () => {
+  it('subtracts the pause from the time between check-in and check-out', () => {
+    const totals = getManualEntryTotals(
+      new Date('2025-03-10T08:00:00.000Z'),
+      new Date('2025-03-10T16:30:00.000Z'),
+      30 * MINUTE_MS
+    );
+
+    expect(totals).toEqual({ total_worked_ms: 8 * HOUR_MS, total_paused_ms: 30 * MINUTE_MS });
+  });
+});
+
+describe('validateManualEntry', () => {
+  const checkIn = new Date('2025-03-10T08:00:00.000Z');
+  const checkOut = new Date('2025-03-10T16:00:00.000Z');
+
+  it('accepts an entry that fits into the history', () => {
+    expect(validateManualEntry(checkIn, checkOut, 30 * MINUTE_MS, [], now)).toBeNull();
+  });
+
+  it('rejects invalid, future, overlong pauses and overlapping entries', () => {
+    expect(validateManualEntry(new Date(NaN), checkOut, 0, [], now)).toMatch(/valid date/);
+    expect(validateManualEntry(checkIn, new Date('2025-03-21T08:00:00.000Z'), 0, [], now)).toMatch(/future/);
+    expect(validateManualEntry(checkIn, checkOut, 8 * HOUR_MS, [], now)).toMatch(/pause/);
+    expect(validateManualEntry(checkIn, checkOut, 0, [
+      { check_in: '2025-03-10T15:00:00.000Z', check_out: '2025-03-10T18:00:00.000Z' },
+    ], now)).toMatch(/overlaps/);
+  });
+
+  it('treats a running entry as lasting until now', () => {
+    expect(validateManualEntry(checkIn, checkOut, 0, [
+      { check_in: '2025-03-10T07:00:00.000Z', check_out: null },
+    ], now)).toMatch(/overlaps/);
+  });
+});
+
+describe('reconcileBreaks', () => {
+  const checkIn = new Date('2025-03-10T08:00:00.000Z');
+  const checkOut = new Date('2025-03-10T16:00:00.000Z');
+  const lunch = {
+    id: 'lunch',
+    type: 'lunch',
+    start_time: '2025-03-10T12:00:00.000Z',
+    end_time: '2025-03-10T12:30:00.000Z',
+  };
+  const manual = {
+    id: 'manual',
+    type: 'manual',
+    start_time: '2025-03-10T15:50:00.000Z',
+    end_time: '2025-03-10T16:00:00.000Z',
+  };
+
+  it('keeps timed breaks that fit and adds the rest as one manual break', () => {
+    const { deleteIds, manualBreak } = reconcileBreaks([lunch, manual], checkIn, checkOut, 45 * MINUTE_MS);
+
+    expect(deleteIds).toEqual(['manual']);
+    expect(manualBreak).toEqual({
+      start_time: '2025-03-10T15:45:00.000Z',
+      end_time: '2025-03-10T16:00:00.000Z',
+    });
+  });
+
+  it('replaces all breaks when the pause is shorter than the timed ones', () => {
+    const { deleteIds, manualBreak } = reconcileBreaks([lunch], checkIn, checkOut, 15 * MINUTE_MS);
+
+    expect(deleteIds).toEqual(['lunch']);
+    expect(manualBreak?.start_time).toBe('2025-03-10T15:45:00.000Z');
+  });
+
+  it('adds nothing when the timed breaks make up the pause', () => {
+    expect(reconcileBreaks([lunch], checkIn, checkOut, 30 * MINUTE_MS)).toEqual({ deleteIds: [], manualBreak: null });
+  });
+});
+
+describe('fitSegments', () => {
+  const morning = { id: 'morning', check_in: '2025-03-10T08:00:00.000Z', check_out: '2025-03-10T12:00:00.000Z' };
+  const afternoon = { id: 'afternoon', check_in: '2025-03-10T13:00:00.000Z', check_out: '2025-03-10T17:00:00.000Z' };
+
+  it('stretches the outer segments to the new range', () => {
+    const { updates, deleteIds } = fitSegments(
+      [afternoon, morning],
+      new Date('2025-03-10T07:30:00.000Z'),
+      new Date('2025-03-10T17:30:00.000Z')
+    );
+
+    expect(updates).toEqual([
+      { id: 'morning', check_in: '2025-03-10T07:30:00.000Z', check_out: '2025-03-10T12:00:00.000Z' },
+      { id: 'afternoon', check_in: '2025-03-10T13:00:00.000Z', check_out: '2025-03-10T17:30:00.000Z' },
+    ]);
+    expect(deleteIds).toEqual([]);
+  });
+
+  it('deletes segments left empty and clips the ones that remain', () => {
+    const { updates, deleteIds } = fitSegments(
+      [morning, afternoon],
+      new Date('2025-03-10T09:00:00.000Z'),
+      new Date('2025-03-10T11:00:00.000Z')
+    );
+
+    expect(updates).toEqual([
+      { id: 'morning', check_in: '2025-03-10T09:00:00.000Z', check_out: '2025-03-10T11:00:00.000Z' },
+    ]);
+    expect(deleteIds).toEqual(['afternoon']);
+  });
+
+  it('moves the first segment when none overlaps the new range', () => {
+    const { updates, deleteIds } = fitSegments(
+      [morning, afternoon],
+      new Date('2025-03-11T08:00:00.000Z'),
+      new Date('2025-03-11T16:00:00.000Z')
+    );
+
+    expect(updates).toEqual([
+      { id: 'morning', check_in: '2025-03-11T08:00:00.000Z', check_out: '2025-03-11T16:00:00.000Z' },
+    ]);
+    expect(deleteIds).toEqual(['afternoon']);
+  });
+
+  it('closes an open segment and leaves unchanged ones alone', () => {
+    const open = { ...afternoon, check_in: '2025-03-10T13:00:00+00:00', check_out: null };
+    const { updates } = fitSegments(
+      [{ ...morning, check_in: '2025-03-10T08:00:00+00:00' }, open],
+      new Date('2025-03-10T08:00:00.000Z'),
+      new Date('2025-03-10T16:00:00.000Z')
+    );
+
+    expect(updates).toEqual([
+      { id: 'afternoon', check_in: '2025-03-10T13:00:00.000Z', check_out: '2025-03-10T16:00:00.000Z' },
+    ]);
+  });
+});
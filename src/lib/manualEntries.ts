@@ -0,0 +1,139 @@
+// Entries added or corrected by hand after the fact: turning the form input
+// into instants, validating it against the rest of the history and fitting
+// the recorded segments and breaks to the new times.
+
+import { fromZonedDateTime, shiftDateKey } from './datetime';
+import { getBreakDurationMs, sortSegments, type BreakSnapshot } from './timeEngine';
+
+export interface ManualEntryInput {
+  dateKey: string;
+  // "HH:MM" in the user's timezone; a check-out before the check-in is on the next day
+  checkIn: string;
+  checkOut: string;
+  pauseMs: number;
+}
+
+export interface EntryRange {
+  check_in: string;
+  check_out: string | null;
+}
+
+export const resolveManualEntry = (input: ManualEntryInput, timezone: string) => {
+  const checkIn = fromZonedDateTime(input.dateKey, input.checkIn, timezone);
+  let checkOut = fromZonedDateTime(input.dateKey, input.checkOut, timezone);
+  if (checkOut.getTime() <= checkIn.getTime()) {
+    checkOut = fromZonedDateTime(shiftDateKey(input.dateKey, 1), input.checkOut, timezone);
+  }
+  return { checkIn, checkOut };
+};
+
+export const getManualEntryTotals = (checkIn: Date, checkOut: Date, pauseMs: number) => {
+  return {
+    total_worked_ms: Math.max(0, checkOut.getTime() - checkIn.getTime() - pauseMs),
+    total_paused_ms: pauseMs,
+  };
+};
+
+// Whether the range overlaps any of the entries; a running entry extends to now
+export const overlapsEntries = (checkIn: Date, checkOut: Date, others: EntryRange[], now: Date) => {
+  return others.some(other => {
+    const otherStart = new Date(other.check_in).getTime();
+    const otherEnd = other.check_out ? new Date(other.check_out).getTime() : now.getTime();
+    return checkIn.getTime() < otherEnd && otherStart < checkOut.getTime();
+  });
+};
+
+// Returns an error message, or null when the entry fits into the history
+export const validateManualEntry = (
+  checkIn: Date,
+  checkOut: Date,
+  pauseMs: number,
+  others: EntryRange[],
+  now: Date
+): string | null => {
+  if (isNaN(checkIn.getTime()) || isNaN(checkOut.getTime())) {
+    return 'Enter a valid date, check-in and check-out time.';
+  }
+  if (checkOut.getTime() > now.getTime()) {
+    return 'Check-out cannot be in the future.';
+  }
+  if (pauseMs < 0 || pauseMs >= checkOut.getTime() - checkIn.getTime()) {
+    return 'The pause must be shorter than the time between check-in and check-out.';
+  }
+
+  if (overlapsEntries(checkIn, checkOut, others, now)) {
+    return 'This entry overlaps another entry.';
+  }
+
+  return null;
+};
+
+// Fit the session's breaks to a corrected pause. Timed breaks are kept when
+// they still fit; the rest of the pause becomes one manual break ending at
+// check-out. A pause shorter than the timed breaks replaces all of them.
+export const reconcileBreaks = <T extends BreakSnapshot & { id: string; type: string }>(
+  breaks: T[],
+  checkIn: Date,
+  checkOut: Date,
+  pauseMs: number
+) => {
+  const timed = breaks.filter(workBreak =>
+    workBreak.type !== 'manual' &&
+    workBreak.end_time &&
+    new Date(workBreak.start_time).getTime() >= checkIn.getTime() &&
+    new Date(workBreak.end_time).getTime() <= checkOut.getTime()
+  );
+  const timedMs = timed.reduce((sum, workBreak) => sum + getBreakDurationMs(workBreak, checkOut), 0);
+  const keep = timedMs <= pauseMs ? timed : [];
+  const manualMs = pauseMs - (timedMs <= pauseMs ? timedMs : 0);
+
+  return {
+    deleteIds: breaks.filter(workBreak => !keep.includes(workBreak)).map(workBreak => workBreak.id),
+    manualBreak: manualMs > 0
+      ? {
+          start_time: new Date(checkOut.getTime() - manualMs).toISOString(),
+          end_time: checkOut.toISOString(),
+        }
+      : null,
+  };
+};
+
+// Fit the entry's segments to corrected check-in and check-out times. Every
+// segment is clipped to the new range and the ones left empty are deleted;
+// the first and last remaining segment are stretched to its edges. If no
+// segment overlaps the range, the first one is moved to cover all of it.
+export const fitSegments = <T extends EntryRange & { id: string }>(
+  segments: T[],
+  checkIn: Date,
+  checkOut: Date
+) => {
+  const clipped = sortSegments(segments).map(segment => ({
+    id: segment.id,
+    check_in: new Date(Math.max(new Date(segment.check_in).getTime(), checkIn.getTime())).toISOString(),
+    check_out: new Date(Math.min(
+      segment.check_out ? new Date(segment.check_out).getTime() : checkOut.getTime(),
+      checkOut.getTime()
+    )).toISOString(),
+  }));
+  const kept = clipped.filter(segment => segment.check_out > segment.check_in);
+  if (kept.length === 0 && clipped.length > 0) {
+    kept.push(clipped[0]);
+  }
+  if (kept.length > 0) {
+    kept[0].check_in = checkIn.toISOString();
+    kept[kept.length - 1].check_out = checkOut.toISOString();
+  }
+
+  return {
+    // Stored times may be formatted differently, so compare the instants
+    updates: kept.filter(segment => {
+      const original = segments.find(candidate => candidate.id === segment.id);
+      return new Date(original.check_in).getTime() !== new Date(segment.check_in).getTime() ||
+        !original.check_out ||
+        new Date(original.check_out).getTime() !== new Date(segment.check_out).getTime();
+    }),
+    deleteIds: segments
+      .filter(segment => !kept.some(candidate => candidate.id === segment.id))
+      .map(segment => segment.id),
+  };
+};
@@ -0,0 +1,87 @@
+import { describe, expect, it, vi } from 'vitest';
+import { applyPendingMutations, mergeMutation, type OutboxMutation } from './outbox';
+
+// The client needs browser storage; these tests never reach the network
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+const mutation = (overrides: Partial<OutboxMutation>): OutboxMutation => ({
+  id: 'entry-1',
+  user_id: 'user-1',
+  table: 'work_entries',
+  operation: 'update',
+  values: {},
+  sequence: 1,
+  base_updated_at: '2025-03-10T08:00:00.000Z',
+  ...overrides,
+});
+
+describe('mergeMutation', () => {
+  it('queues the first change of a row as is', () => {
+    const next = mutation({ values: { name: 'Office' } });
+
+    expect(mergeMutation(undefined, next)).toBe(next);
+  });
+
+  it('folds later values into the pending mutation and keeps its order and base version', () => {
+    const pending = mutation({ values: { name: 'Office' } });
+    const next = mutation({
+      values: { total_worked_ms: 1000 },
+      sequence: 2,
+      base_updated_at: '2025-03-10T09:00:00.000Z',
+    });
+
+    expect(mergeMutation(pending, next)).toEqual({
+      ...pending,
+      values: { name: 'Office', total_worked_ms: 1000 },
+    });
+  });
+
+  it('drops a row that is deleted before its insert was sent', () => {
+    const pending = mutation({ operation: 'insert', values: { id: 'entry-1' }, base_updated_at: null });
+
+    expect(mergeMutation(pending, mutation({ operation: 'delete', sequence: 2 }))).toBeNull();
+  });
+
+  it('turns a pending update into a delete of the same version', () => {
+    const pending = mutation({ values: { name: 'Office' } });
+    const merged = mergeMutation(pending, mutation({ operation: 'delete', sequence: 2, base_updated_at: '2025-03-10T09:00:00.000Z' }));
+
+    expect(merged).toEqual({ ...pending, operation: 'delete', values: {} });
+  });
+});
+
+describe('applyPendingMutations', () => {
+  const rows = [
+    { id: 'entry-1', name: 'Office' },
+    { id: 'entry-2', name: 'Home' },
+  ];
+
+  it('applies inserts, updates and deletes of the table in order', () => {
+    const result = applyPendingMutations(rows, 'work_entries', [
+      mutation({ id: 'entry-1', values: { name: 'Client' } }),
+      mutation({ id: 'entry-2', operation: 'delete' }),
+      mutation({ id: 'entry-3', operation: 'insert', values: { id: 'entry-3', name: 'Travel' }, base_updated_at: null }),
+    ]);
+
+    expect(result).toEqual([
+      { id: 'entry-1', name: 'Client' },
+      { id: 'entry-3', name: 'Travel' },
+    ]);
+  });
+
+  it('does not add an insert twice once the server returns the row', () => {
+    const result = applyPendingMutations(rows, 'work_entries', [
+      mutation({ id: 'entry-1', operation: 'insert', values: { id: 'entry-1', name: 'Client' } }),
+    ]);
+
+    expect(result).toEqual([{ id: 'entry-1', name: 'Client' }, rows[1]]);
+  });
+
+  it('ignores mutations of other tables', () => {
+    const result = applyPendingMutations(rows, 'work_entries', [
+      mutation({ id: 'entry-1', table: 'work_segments', operation: 'delete' }),
+    ]);
+
+    expect(result).toEqual(rows);
+  });
+});
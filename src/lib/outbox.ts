@@ -0,0 +1,257 @@
+// Offline support for signed-in users. Writes that cannot reach Supabase are
+// queued in an outbox in IndexedDB and replayed in order once the network is
+// back. Each row has at most one pending mutation: a later change to a row
+// that is still queued is folded into it. Loaded rows are cached, so the
+// timer can also be reopened while offline.
+//
+// Conflicts are resolved by version: a queued change is only applied if the
+// row's updated_at on the server is still the one the client last saw, so
+// the device's clock plays no part.
+
+import type { PostgrestError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert } from '@/integrations/supabase/types';
+import { buildRow, CACHE_STORE, OUTBOX_STORE, runRequest, type LocalTable } from './localStore';
+
+export type OutboxOperation = 'insert' | 'update' | 'delete';
+
+export interface OutboxMutation {
+  // Id of the row the mutation applies to
+  id: string;
+  user_id: string;
+  table: LocalTable;
+  operation: OutboxOperation;
+  values: Record<string, unknown>;
+  // Order in which the rows were first queued, so parents precede children
+  sequence: number;
+  // The row's updated_at as last loaded from the server; null for inserts
+  base_updated_at: string | null;
+}
+
+export interface ReplayResult {
+  replayed: number;
+  // Changes dropped because the row was changed elsewhere in the meantime
+  conflicts: number;
+  // Changes the server refused, e.g. because the row no longer passes a check
+  rejected: number;
+  // Whether everything was sent; false if the network dropped again
+  complete: boolean;
+}
+
+export type OutboxEvent = 'queued' | 'replayed';
+
+interface CachedRows {
+  key: string;
+  rows: unknown[];
+}
+
+const outboxListeners = new Set<(event: OutboxEvent) => void>();
+
+export const subscribeOutbox = (listener: (event: OutboxEvent) => void) => {
+  outboxListeners.add(listener);
+  return () => {
+    outboxListeners.delete(listener);
+  };
+};
+
+const notifyOutbox = (event: OutboxEvent) => {
+  outboxListeners.forEach(listener => listener(event));
+};
+
+// A request that never reached the server, as opposed to one it rejected
+export const isNetworkError = (error: { message: string } | null) => {
+  if (!error) return false;
+  return !navigator.onLine || /failed to fetch|networkerror|load failed|network request failed/i.test(error.message);
+};
+
+let lastSequence = 0;
+
+const nextSequence = () => {
+  lastSequence = Math.max(Date.now(), lastSequence + 1);
+  return lastSequence;
+};
+
+// Fold a change into the row's pending mutation, if there is one
+export const mergeMutation = (pending: OutboxMutation | undefined, next: OutboxMutation): OutboxMutation | null => {
+  if (!pending) return next;
+
+  if (next.operation === 'delete') {
+    // A row that never reached the server needs no delete either
+    return pending.operation === 'insert' ? null : { ...pending, operation: 'delete', values: {} };
+  }
+
+  // The version the first change was based on stays the one to compare with
+  return { ...pending, values: { ...pending.values, ...next.values } };
+};
+
+export const queueMutation = async (
+  userId: string,
+  table: LocalTable,
+  operation: OutboxOperation,
+  rowId: string,
+  values: Record<string, unknown>,
+  baseUpdatedAt: string | null
+) => {
+  const pending = await runRequest(OUTBOX_STORE, 'readonly', store => store.get(rowId) as IDBRequest<OutboxMutation | undefined>);
+  const merged = mergeMutation(pending, {
+    id: rowId,
+    user_id: userId,
+    table,
+    operation,
+    values,
+    sequence: nextSequence(),
+    base_updated_at: baseUpdatedAt,
+  });
+
+  await runRequest(OUTBOX_STORE, 'readwrite', store => merged ? store.put(merged) : store.delete(rowId));
+  notifyOutbox('queued');
+};
+
+export const listPendingMutations = async (userId: string) => {
+  const mutations = await runRequest(OUTBOX_STORE, 'readonly', store => store.getAll() as IDBRequest<OutboxMutation[]>);
+  return mutations
+    .filter(mutation => mutation.user_id === userId)
+    .sort((a, b) => a.sequence - b.sequence);
+};
+
+// Rows as they will be once the pending mutations are replayed
+export const applyPendingMutations = <R extends { id: string }>(rows: R[], table: LocalTable, mutations: OutboxMutation[]) => {
+  let result = [...rows];
+  mutations.filter(mutation => mutation.table === table).forEach(mutation => {
+    if (mutation.operation === 'delete') {
+      result = result.filter(row => row.id !== mutation.id);
+    } else if (mutation.operation === 'insert' && !result.some(row => row.id === mutation.id)) {
+      result.push(mutation.values as unknown as R);
+    } else {
+      result = result.map(row => row.id === mutation.id ? { ...row, ...mutation.values } : row);
+    }
+  });
+  return result;
+};
+
+// Run a write, or queue it when the network is unavailable. The row is what
+// the write is expected to return and stands in for the server's response;
+// without it the write cannot be queued and fails as before.
+export const writeOrQueue = async <T extends LocalTable, R extends { error: PostgrestError | null }>(
+  userId: string,
+  mutation: { table: T; operation: OutboxOperation; row?: Tables<T>; values?: Partial<Tables<T>> },
+  request: () => PromiseLike<R>
+): Promise<R | { data: Tables<T>; error: null }> => {
+  const { row } = mutation;
+  if (navigator.onLine || !row) {
+    const response = await request();
+    if (!row || !isNetworkError(response.error)) return response;
+  }
+
+  // An insert is replayed with the whole row, so it keeps its id; other
+  // changes are based on the version of the row the client has loaded
+  await queueMutation(
+    userId,
+    mutation.table,
+    mutation.operation,
+    row.id,
+    mutation.values ?? row,
+    mutation.operation === 'insert' ? null : row.updated_at
+  );
+  return { data: row, error: null };
+};
+
+// Insert with an id created here, so that a queued insert can be replayed
+// without creating the row twice
+export const insertOrQueue = <T extends LocalTable, R extends { error: PostgrestError | null }>(
+  userId: string,
+  table: T,
+  values: Omit<TablesInsert<T>, 'user_id'>,
+  request: (row: Tables<T>) => PromiseLike<R>
+) => {
+  const row = buildRow(table, values, userId);
+  return writeOrQueue(userId, { table, operation: 'insert', row }, () => request(row));
+};
+
+// Load rows, falling back to the last loaded copy when offline. Either way
+// the pending mutations are applied, so queued changes are not undone.
+export const readWithCache = async <T extends LocalTable>(
+  userId: string,
+  table: T,
+  key: string,
+  request: () => PromiseLike<{ data: Tables<T>[] | null; error: PostgrestError | null }>
+) => {
+  const cacheKey = `${userId}:${key}`;
+  const response = navigator.onLine ? await request() : null;
+
+  if (response && !isNetworkError(response.error)) {
+    if (response.error) return { data: null, error: response.error };
+    // The cache is a convenience; without IndexedDB the app still works online
+    try {
+      await runRequest(CACHE_STORE, 'readwrite', store => store.put({ key: cacheKey, rows: response.data || [] }));
+      return { data: applyPendingMutations(response.data || [], table, await listPendingMutations(userId)), error: null };
+    } catch (error) {
+      console.error('Error caching rows:', error);
+      return { data: response.data || [], error: null };
+    }
+  }
+
+  const cached = await runRequest(CACHE_STORE, 'readonly', store => store.get(cacheKey) as IDBRequest<CachedRows | undefined>);
+  const rows = (cached?.rows || []) as Tables<T>[];
+  return { data: applyPendingMutations(rows, table, await listPendingMutations(userId)), error: null };
+};
+
+const replayMutation = async (mutation: OutboxMutation) => {
+  // The stored values are plain objects, so the row type is not known here
+  const query = supabase.from(mutation.table);
+
+  if (mutation.operation === 'insert') {
+    // Ids are created on the client, so a replay of an insert that did
+    // reach the server leaves the row alone
+    const { error } = await query.upsert(mutation.values as never, { ignoreDuplicates: true });
+    return { error, applied: true };
+  }
+
+  const { data, error } = mutation.operation === 'update'
+    ? await query.update(mutation.values as never).eq('id', mutation.id).eq('updated_at', mutation.base_updated_at).select('id')
+    : await query.delete().eq('id', mutation.id).eq('updated_at', mutation.base_updated_at).select('id');
+  return { error, applied: !!data && data.length > 0 };
+};
+
+let replayInFlight: Promise<ReplayResult> | null = null;
+
+const replayPending = async (userId: string): Promise<ReplayResult> => {
+  const result: ReplayResult = { replayed: 0, conflicts: 0, rejected: 0, complete: true };
+  let processed = 0;
+
+  for (const mutation of await listPendingMutations(userId)) {
+    const { error, applied } = await replayMutation(mutation);
+    if (isNetworkError(error)) {
+      result.complete = false;
+      break;
+    }
+
+    if (error) {
+      // Rejected by the server; retrying would block everything queued after
+      // it, so it is dropped and reported instead
+      console.error('Error replaying offline change:', error);
+      result.rejected++;
+    } else if (applied) {
+      result.replayed++;
+    } else {
+      result.conflicts++;
+    }
+    await runRequest(OUTBOX_STORE, 'readwrite', store => store.delete(mutation.id));
+    processed++;
+  }
+
+  if (processed > 0) {
+    notifyOutbox('replayed');
+  }
+  return result;
+};
+
+// Send the pending mutations; concurrent calls share one replay
+export const replayOutbox = (userId: string) => {
+  if (!replayInFlight) {
+    replayInFlight = replayPending(userId).finally(() => {
+      replayInFlight = null;
+    });
+  }
+  return replayInFlight;
+};
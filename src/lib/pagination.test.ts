@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { fetchAllRows } from './pagination';
+
+const pagedTable = (rowCount: number) => {
+  const rows = Array.from({ length: rowCount }, (_, index) => index);
+  const requested: [number, number][] = [];
+  const fetchPage = async (from: number, to: number) => {
+    requested.push([from, to]);
+    return { data: rows.slice(from, to + 1), error: null };
+  };
+  return { rows, requested, fetchPage };
+};
+
+describe('fetchAllRows', () => {
+  it('requests pages until one comes back short', async () => {
+    const { rows, requested, fetchPage } = pagedTable(2500);
+
+    expect(await fetchAllRows(fetchPage)).toEqual({ data: rows, error: null });
+    expect(requested).toEqual([[0, 999], [1000, 1999], [2000, 2999]]);
+  });
+
+  it('asks once more after a full last page', async () => {
+    const { requested, fetchPage } = pagedTable(1000);
+
+    expect((await fetchAllRows(fetchPage)).data).toHaveLength(1000);
+    expect(requested).toHaveLength(2);
+  });
+
+  it('stops at the first error', async () => {
+    const error = { message: 'Failed to fetch', details: '', hint: '', code: '', name: 'PostgrestError' };
+
+    expect(await fetchAllRows(async () => ({ data: null, error }))).toEqual({ data: null, error });
+  });
+});
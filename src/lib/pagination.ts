@@ -0,0 +1,18 @@
+import type { PostgrestError } from '@supabase/supabase-js';
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+// All rows of a query, requested in pages of PAGE_SIZE. The query needs a
+// stable order. Resolves like a single request, so it can stand in for one.
+export const fetchAllRows = async <T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: PostgrestError | null }>
+): Promise<{ data: T[] | null; error: PostgrestError | null }> => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) return { data: null, error };
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return { data: rows, error: null };
+  }
+};
@@ -0,0 +1,107 @@
+// Minimal PDF writer: A4 pages with text and lines in the standard Helvetica
+// and Courier fonts. Enough for printable reports without pulling in a PDF
+// library. The standard fonts only cover Latin-1 (WinAnsi); other characters
+// are replaced.
+
+export const PAGE_WIDTH = 595;
+export const PAGE_HEIGHT = 842;
+
+export type PdfFont = 'regular' | 'bold' | 'mono';
+
+export interface PdfPage {
+  operations: string[];
+}
+
+const FONT_RESOURCES: Record<PdfFont, string> = {
+  regular: 'F1',
+  bold: 'F2',
+  mono: 'F3',
+};
+
+// Courier advances every glyph by 600/1000 of the font size
+const MONO_ADVANCE = 0.6;
+
+const WIN_ANSI_REPLACEMENTS: Record<string, string> = {
+  '–': '\x96',
+  '—': '\x97',
+  '‘': '\x91',
+  '’': '\x92',
+  '“': '\x93',
+  '”': '\x94',
+  '•': '\x95',
+  '…': '\x85',
+  '€': '\x80',
+  // Narrow no-break spaces show up in some locales' time formats
+  '\u202f': '\xa0',
+};
+
+const toWinAnsi = (text: string) => {
+  return Array.from(text)
+    .map(char => WIN_ANSI_REPLACEMENTS[char] ?? (char.charCodeAt(0) <= 0xff ? char : '?'))
+    .join('');
+};
+
+const escapePdfString = (text: string) => {
+  return toWinAnsi(text).replace(/[\\()]/g, match => `\\${match}`).replace(/[\r\n]/g, ' ');
+};
+
+// Coordinates are in points from the top-left corner of the page
+export const createPdfPage = (): PdfPage => ({ operations: [] });
+
+export const drawText = (
+  page: PdfPage,
+  x: number,
+  y: number,
+  text: string,
+  size = 10,
+  font: PdfFont = 'regular'
+) => {
+  page.operations.push(
+    `BT /${FONT_RESOURCES[font]} ${size} Tf ${x} ${PAGE_HEIGHT - y} Td (${escapePdfString(text)}) Tj ET`
+  );
+};
+
+// Monospaced text ending at x, for columns of numbers
+export const drawTextRight = (page: PdfPage, x: number, y: number, text: string, size = 10) => {
+  drawText(page, x - Array.from(text).length * size * MONO_ADVANCE, y, text, size, 'mono');
+};
+
+export const drawLine = (page: PdfPage, x1: number, y1: number, x2: number, y2: number, width = 0.5) => {
+  page.operations.push(`${width} w ${x1} ${PAGE_HEIGHT - y1} m ${x2} ${PAGE_HEIGHT - y2} l S`);
+};
+
+export const buildPdf = (pages: PdfPage[]) => {
+  // Objects 1-5 are fixed; each page adds a page object and its content stream
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, index) => `${6 + index * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>',
+  ];
+
+  pages.forEach((page, index) => {
+    const content = page.operations.join('\n');
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R /F3 5 0 R >> >> /Contents ${7 + index * 2} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    );
+  });
+
+  // Every character is a single byte, so string offsets are byte offsets
+  let output = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = output.length;
+    output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  const bytes = Uint8Array.from(output, char => char.charCodeAt(0));
+  return new Blob([bytes], { type: 'application/pdf' });
+};
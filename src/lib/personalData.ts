@@ -0,0 +1,29 @@
+// Everything stored about a user, bundled into one archive for download:
+// the database rows as JSON and the uploaded avatar files as they are.
+
+import type { Tables } from '@/integrations/supabase/types';
+import { buildZip } from './zip';
+
+export interface PersonalData {
+  exported_at: string;
+  account: { id: string; email: string | null; created_at: string };
+  profile: Tables<'profiles'> | null;
+  work_sessions: Tables<'work_sessions'>[];
+  work_entries: Tables<'work_entries'>[];
+  work_segments: Tables<'work_segments'>[];
+  work_breaks: Tables<'work_breaks'>[];
+  absences: Tables<'absences'>[];
+  audit_log: Tables<'audit_log'>[];
+}
+
+export interface StoredFile {
+  name: string;
+  content: Uint8Array;
+}
+
+export const buildPersonalDataArchive = (data: PersonalData, avatars: StoredFile[]) => {
+  return buildZip([
+    { name: 'data.json', content: JSON.stringify(data, null, 2) },
+    ...avatars.map(avatar => ({ name: `avatars/${avatar.name}`, content: avatar.content })),
+  ]);
+};
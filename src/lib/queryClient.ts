@@ -0,0 +1,59 @@
+// Server state is kept in one TanStack Query cache. Every hook that reads the
+// same rows shares a cache key, so mounting a second consumer (the header and
+// the page both showing the profile) reuses the loaded data instead of
+// fetching it again.
+
+import { QueryCache, QueryClient } from '@tanstack/react-query';
+import { toast } from '@/hooks/use-toast';
+
+// Rows are cached per account; without one they come from this browser
+const scopeOf = (userId: string | undefined) => userId ?? 'local';
+
+export const queryKeys = {
+  profile: (userId: string | undefined) => ['profiles', scopeOf(userId)] as const,
+  sessions: (userId: string | undefined) => ['work_sessions', scopeOf(userId)] as const,
+  entries: (userId: string | undefined) => ['work_entries', scopeOf(userId)] as const,
+  segments: (userId: string | undefined) => ['work_segments', scopeOf(userId)] as const,
+  breaks: (userId: string | undefined) => ['work_breaks', scopeOf(userId)] as const,
+};
+
+// Data a second consumer can use without asking again. Realtime and the
+// hooks' own writes keep the cache current in the meantime; it is refetched
+// in the background when the window regains focus or the network returns.
+const STALE_TIME_MS = 30 * 1000;
+
+export const queryClient = new QueryClient({
+  // A query that still fails after its retries reports the message it
+  // carries in its meta
+  queryCache: new QueryCache({
+    onError: (error, query) => {
+      console.error(`Error loading ${query.queryKey[0]}:`, error);
+      if (typeof query.meta?.errorMessage === 'string') {
+        toast({
+          title: "Error",
+          description: query.meta.errorMessage,
+          variant: "destructive",
+        });
+      }
+    },
+  }),
+  defaultOptions: {
+    queries: {
+      staleTime: STALE_TIME_MS,
+      retry: 3,
+      refetchOnWindowFocus: true,
+      refetchOnReconnect: true,
+    },
+  },
+});
+
+// After rows were written past the hooks, e.g. by an import or by moving
+// local data into an account
+export const invalidateTimerData = (userId: string | undefined) => {
+  return Promise.all([
+    queryKeys.sessions(userId),
+    queryKeys.entries(userId),
+    queryKeys.segments(userId),
+    queryKeys.breaks(userId),
+  ].map(queryKey => queryClient.invalidateQueries({ queryKey })));
+};
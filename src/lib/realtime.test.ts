@@ -0,0 +1,60 @@
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { describe, expect, it, vi } from 'vitest';
+import { applyRowChange, pickLatest } from './realtime';
+
+// The client needs browser storage; these tests never subscribe
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+interface Row {
+  id: string;
+  updated_at: string;
+  name: string;
+}
+
+const change = (eventType: 'INSERT' | 'UPDATE' | 'DELETE', row: Partial<Row>) => {
+  return {
+    schema: 'public',
+    table: 'work_entries',
+    commit_timestamp: '2025-03-10T09:00:00.000Z',
+    errors: [],
+    eventType,
+    new: eventType === 'DELETE' ? {} : row,
+    old: eventType === 'DELETE' ? row : {},
+  } as RealtimePostgresChangesPayload<Row>;
+};
+
+const office: Row = { id: 'entry-1', updated_at: '2025-03-10T08:00:00.000Z', name: 'Office' };
+const home: Row = { id: 'entry-2', updated_at: '2025-03-10T08:00:00.000Z', name: 'Home' };
+
+describe('pickLatest', () => {
+  it('keeps the version changed last on the server', () => {
+    const newer = { ...office, updated_at: '2025-03-10T09:00:00.000Z', name: 'Client' };
+
+    expect(pickLatest(office, newer)).toBe(newer);
+    expect(pickLatest(newer, office)).toBe(newer);
+  });
+
+  it('takes the version received last on a tie', () => {
+    const renamed = { ...office, name: 'Client' };
+
+    expect(pickLatest(office, renamed)).toBe(renamed);
+  });
+});
+
+describe('applyRowChange', () => {
+  it('adds inserted rows', () => {
+    expect(applyRowChange([office], change('INSERT', home))).toEqual([office, home]);
+  });
+
+  it('replaces a row with a newer version and ignores an older one', () => {
+    const newer = { ...office, updated_at: '2025-03-10T09:00:00.000Z', name: 'Client' };
+    const older = { ...office, updated_at: '2025-03-10T07:00:00.000Z', name: 'Stale' };
+
+    expect(applyRowChange([office, home], change('UPDATE', newer))).toEqual([newer, home]);
+    expect(applyRowChange([newer, home], change('UPDATE', older))).toEqual([newer, home]);
+  });
+
+  it('removes deleted rows', () => {
+    expect(applyRowChange([office, home], change('DELETE', { id: 'entry-1' }))).toEqual([home]);
+  });
+});
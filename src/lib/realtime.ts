@@ -0,0 +1,50 @@
+// Live updates of the timer tables, so every open device shows pause, resume
+// and check-out made on another one.
+//
+// Concurrent edits resolve by the server's updated_at: of two versions of a
+// row the later one wins, and on a tie the one received last. Every device
+// sees the same versions, so all of them settle on the same row.
+
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { LocalTable } from './localStore';
+
+interface VersionedRow {
+  id: string;
+  updated_at: string;
+}
+
+// Channels are shared by topic, so each subscription gets its own
+let channelCount = 0;
+
+export const subscribeToRows = <R extends VersionedRow>(
+  table: LocalTable,
+  userId: string,
+  onChange: (payload: RealtimePostgresChangesPayload<R>) => void
+) => {
+  const channel = supabase
+    .channel(`${table}:${userId}:${++channelCount}`)
+    .on<R>('postgres_changes', { event: '*', schema: 'public', table, filter: `user_id=eq.${userId}` }, onChange)
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
+export const pickLatest = <R extends VersionedRow>(current: R, incoming: R) => {
+  return new Date(incoming.updated_at) >= new Date(current.updated_at) ? incoming : current;
+};
+
+// Apply a change to a list of rows
+export const applyRowChange = <R extends VersionedRow>(rows: R[], payload: RealtimePostgresChangesPayload<R>) => {
+  if (payload.eventType === 'DELETE') {
+    return rows.filter(row => row.id !== payload.old.id);
+  }
+
+  const incoming = payload.new;
+  if (!rows.some(row => row.id === incoming.id)) {
+    return [...rows, incoming];
+  }
+  return rows.map(row => row.id === incoming.id ? pickLatest(row, incoming) : row);
+};
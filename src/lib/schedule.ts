@@ -0,0 +1,37 @@
+// Weekly work schedule: the required work time per weekday, used to prefill
+// new sessions and as the target of the daily and weekly summaries.
+
+import { getDateKeyWeekday, type WeekStartsOn } from './datetime';
+
+// Required minutes per weekday, indexed like Date#getDay (0 = Sunday)
+export type WeeklySchedule = number[];
+
+export const DEFAULT_WEEKLY_SCHEDULE: WeeklySchedule = [0, 480, 480, 480, 480, 480, 0];
+
+const MINUTE_MS = 60 * 1000;
+
+interface ScheduleFields {
+  weekly_schedule_minutes: number[] | null;
+}
+
+export const getWeeklySchedule = (profile: ScheduleFields | null): WeeklySchedule => {
+  const minutes = profile?.weekly_schedule_minutes;
+  return minutes && minutes.length === 7 ? minutes : DEFAULT_WEEKLY_SCHEDULE;
+};
+
+export const getScheduledMinutes = (schedule: WeeklySchedule, dateKey: string) => {
+  return schedule[getDateKeyWeekday(dateKey)] ?? 0;
+};
+
+export const getScheduledMs = (schedule: WeeklySchedule, dateKey: string) => {
+  return getScheduledMinutes(schedule, dateKey) * MINUTE_MS;
+};
+
+export const getScheduledWeekMs = (schedule: WeeklySchedule) => {
+  return schedule.reduce((sum, minutes) => sum + minutes, 0) * MINUTE_MS;
+};
+
+// Weekdays in display order for the given first day of the week
+export const getOrderedWeekdays = (weekStartsOn: WeekStartsOn) => {
+  return Array.from({ length: 7 }, (_, offset) => (weekStartsOn + offset) % 7);
+};
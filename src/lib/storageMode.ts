@@ -0,0 +1,15 @@
+// Where timer data is kept, as decided in the consent banner: in the user's
+// account, or only in this browser.
+
+export type ConsentDecision = 'accepted' | 'declined';
+
+const CONSENT_STORAGE_KEY = 'workday-tracker-consent';
+
+export const getConsentDecision = (): ConsentDecision | null => {
+  const value = localStorage.getItem(CONSENT_STORAGE_KEY);
+  return value === 'accepted' || value === 'declined' ? value : null;
+};
+
+export const setConsentDecision = (decision: ConsentDecision) => {
+  localStorage.setItem(CONSENT_STORAGE_KEY, decision);
+};
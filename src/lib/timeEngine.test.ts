@@ -0,0 +1,211 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateSessionStats,
+  completionTransition,
+  createManualBreak,
+  getAutoCloseTime,
+  getSegmentTotals,
+  pauseTransition,
+  resolveArrival,
+  resumeTransition,
+  type BreakSnapshot,
+  type SessionSnapshot,
+} from './timeEngine';
+
+const HOUR_MS = 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+const clockAt = (iso: string) => () => new Date(iso);
+
+const session: SessionSnapshot = {
+  arrival_time: '08:00',
+  arrival_at: '2025-03-10T08:00:00.000Z',
+  required_work_hours: 8,
+  required_work_minutes: 0,
+};
+
+const lunch: BreakSnapshot = {
+  start_time: '2025-03-10T12:00:00.000Z',
+  end_time: '2025-03-10T12:30:00.000Z',
+};
+
+describe('calculateSessionStats', () => {
+  it('counts everything since arrival as worked without breaks', () => {
+    const stats = calculateSessionStats(session, clockAt('2025-03-10T12:00:00.000Z'));
+
+    expect(stats.totalWorkedMs).toBe(4 * HOUR_MS);
+    expect(stats.totalPausedMs).toBe(0);
+    expect(stats.remainingMs).toBe(4 * HOUR_MS);
+    expect(stats.leaveTime.toISOString()).toBe('2025-03-10T16:00:00.000Z');
+    expect(stats.progressPercentage).toBe(50);
+    expect(stats.isComplete).toBe(false);
+  });
+
+  it('moves the leave time back by the paused time, including an open break', () => {
+    const openBreak = { start_time: '2025-03-10T14:00:00.000Z', end_time: null };
+    const stats = calculateSessionStats(session, clockAt('2025-03-10T14:15:00.000Z'), [lunch, openBreak]);
+
+    expect(stats.totalPausedMs).toBe(45 * MINUTE_MS);
+    expect(stats.totalWorkedMs).toBe(5.5 * HOUR_MS);
+    expect(stats.leaveTime.toISOString()).toBe('2025-03-10T16:45:00.000Z');
+    expect(stats.originalLeaveTime.toISOString()).toBe('2025-03-10T16:00:00.000Z');
+  });
+
+  it('is complete once the required time is worked', () => {
+    const stats = calculateSessionStats(session, clockAt('2025-03-10T17:00:00.000Z'), [lunch]);
+
+    expect(stats.remainingMs).toBe(0);
+    expect(stats.progressPercentage).toBe(100);
+    expect(stats.isComplete).toBe(true);
+  });
+
+  it('runs across midnight for a night shift', () => {
+    const nightShift = { ...session, arrival_time: '22:00', arrival_at: '2025-03-10T21:00:00.000Z' };
+    const stats = calculateSessionStats(nightShift, clockAt('2025-03-11T03:00:00.000Z'));
+
+    expect(stats.totalWorkedMs).toBe(6 * HOUR_MS);
+    expect(stats.leaveTime.toISOString()).toBe('2025-03-11T05:00:00.000Z');
+  });
+
+  it('keeps real hours across a DST switch', () => {
+    // Midnight in Berlin on the night the clocks go forward
+    const dstShift = { ...session, arrival_time: '00:00', arrival_at: '2025-03-29T23:00:00.000Z' };
+    const stats = calculateSessionStats(dstShift, clockAt('2025-03-30T05:00:00.000Z'));
+
+    expect(stats.totalWorkedMs).toBe(6 * HOUR_MS);
+    expect(stats.leaveTime.toISOString()).toBe('2025-03-30T07:00:00.000Z');
+  });
+});
+
+describe('resolveArrival', () => {
+  it('resolves a time later than now to yesterday', () => {
+    const arrival = resolveArrival('22:00', new Date('2025-03-11T00:30:00.000Z'), 'Europe/Berlin');
+
+    expect(arrival.toISOString()).toBe('2025-03-10T21:00:00.000Z');
+  });
+
+  it('reads the time in the given timezone', () => {
+    const arrival = resolveArrival('09:00', new Date('2025-07-01T18:00:00.000Z'), 'America/New_York');
+
+    expect(arrival.toISOString()).toBe('2025-07-01T13:00:00.000Z');
+  });
+
+  it('uses the offset before a DST switch for a time before it', () => {
+    const arrival = resolveArrival('01:30', new Date('2025-03-30T08:00:00.000Z'), 'Europe/Berlin');
+
+    expect(arrival.toISOString()).toBe('2025-03-30T00:30:00.000Z');
+  });
+});
+
+describe('getSegmentTotals', () => {
+  it('sums the segments and treats the gaps between them as breaks', () => {
+    const segments = [
+      { check_in: '2025-03-10T12:30:00.000Z', check_out: null },
+      { check_in: '2025-03-10T08:00:00.000Z', check_out: '2025-03-10T12:00:00.000Z' },
+    ];
+    const totals = getSegmentTotals(segments, new Date('2025-03-10T14:00:00.000Z'));
+
+    expect(totals.workedMs).toBe(5.5 * HOUR_MS);
+    expect(totals.breakMs).toBe(30 * MINUTE_MS);
+    expect(totals.gaps).toEqual([
+      {
+        start: new Date('2025-03-10T12:00:00.000Z'),
+        end: new Date('2025-03-10T12:30:00.000Z'),
+        durationMs: 30 * MINUTE_MS,
+      },
+    ]);
+  });
+});
+
+describe('createManualBreak', () => {
+  it('ends at the given instant', () => {
+    const workBreak = createManualBreak(15 * MINUTE_MS, new Date('2025-03-10T12:00:00.000Z'));
+
+    expect(workBreak).toEqual({
+      start_time: '2025-03-10T11:45:00.000Z',
+      end_time: '2025-03-10T12:00:00.000Z',
+      type: 'manual',
+    });
+  });
+
+  it('treats a negative duration as none', () => {
+    const workBreak = createManualBreak(-MINUTE_MS, new Date('2025-03-10T12:00:00.000Z'));
+
+    expect(workBreak.start_time).toBe(workBreak.end_time);
+  });
+});
+
+describe('timer transitions', () => {
+  it('pauses with the totals up to now', () => {
+    const updates = pauseTransition(session, [lunch], clockAt('2025-03-10T14:00:00.000Z'));
+
+    expect(updates).toEqual({
+      is_running: false,
+      is_paused: true,
+      total_worked_ms: 5.5 * HOUR_MS,
+      total_paused_ms: 30 * MINUTE_MS,
+      current_session_start: null,
+      pause_start_time: '2025-03-10T14:00:00.000Z',
+    });
+  });
+
+  it('resumes with the open break closed at the same instant', () => {
+    const openBreak = { start_time: '2025-03-10T14:00:00.000Z', end_time: null };
+    const updates = resumeTransition(session, [lunch, openBreak], clockAt('2025-03-10T14:20:00.000Z'));
+
+    expect(updates).toEqual({
+      is_running: true,
+      is_paused: false,
+      total_paused_ms: 50 * MINUTE_MS,
+      current_session_start: '2025-03-10T14:20:00.000Z',
+      pause_start_time: null,
+    });
+  });
+
+  it('adds a manual pause to the totals like any other break', () => {
+    const manualBreak = createManualBreak(20 * MINUTE_MS, new Date('2025-03-10T15:00:00.000Z'));
+    const updates = pauseTransition(session, [lunch, manualBreak], clockAt('2025-03-10T15:00:00.000Z'));
+
+    expect(updates.total_paused_ms).toBe(50 * MINUTE_MS);
+    expect(updates.total_worked_ms).toBe(6 * HOUR_MS + 10 * MINUTE_MS);
+  });
+
+  it('completes with the check-out and final totals', () => {
+    const openBreak = { start_time: '2025-03-10T16:00:00.000Z', end_time: null };
+    const updates = completionTransition(session, [lunch, openBreak], clockAt('2025-03-10T16:30:00.000Z'));
+
+    expect(updates).toEqual({
+      check_out: '2025-03-10T16:30:00.000Z',
+      total_worked_ms: 7.5 * HOUR_MS,
+      total_paused_ms: HOUR_MS,
+    });
+  });
+});
+
+describe('getAutoCloseTime', () => {
+  const runningSession = { ...session, is_paused: false, pause_start_time: null };
+
+  it('closes a paused session when its pause began', () => {
+    const pausedSession = { ...session, is_paused: true, pause_start_time: '2025-03-10T15:00:00.000Z' };
+
+    expect(getAutoCloseTime(pausedSession, [], new Date('2025-03-11T09:00:00.000Z')).toISOString())
+      .toBe('2025-03-10T15:00:00.000Z');
+  });
+
+  it('closes a running session once the required time was worked', () => {
+    expect(getAutoCloseTime(runningSession, [lunch], new Date('2025-03-11T09:00:00.000Z')).toISOString())
+      .toBe('2025-03-10T16:30:00.000Z');
+  });
+
+  it('does not close before the last break ended', () => {
+    const lateBreak = { start_time: '2025-03-10T17:00:00.000Z', end_time: '2025-03-10T17:10:00.000Z' };
+
+    expect(getAutoCloseTime(runningSession, [lateBreak], new Date('2025-03-11T09:00:00.000Z')).toISOString())
+      .toBe('2025-03-10T17:10:00.000Z');
+  });
+
+  it('does not close after now', () => {
+    expect(getAutoCloseTime(runningSession, [], new Date('2025-03-10T12:00:00.000Z')).toISOString())
+      .toBe('2025-03-10T12:00:00.000Z');
+  });
+});
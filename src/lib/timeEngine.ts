@@ -0,0 +1,276 @@
+// Pure leave-time calculations shared by the tracker, summaries and anything
+// else that needs the session numbers without mounting a component.
+
+import { fromZonedDateTime, getBrowserTimezone, shiftDateKey, toZonedDateKey } from './datetime';
+
+export type Clock = () => Date;
+
+export const systemClock: Clock = () => new Date();
+
+export interface SessionSnapshot {
+  arrival_time: string;
+  arrival_at: string | null;
+  required_work_hours: number;
+  required_work_minutes: number;
+}
+
+export type BreakType = 'lunch' | 'personal' | 'manual';
+
+export interface BreakSnapshot {
+  start_time: string;
+  end_time: string | null;
+}
+
+export interface SegmentSnapshot {
+  check_in: string;
+  check_out: string | null;
+}
+
+export interface SegmentGap {
+  start: Date;
+  end: Date;
+  durationMs: number;
+}
+
+export interface SessionStats {
+  arrival: Date;
+  totalWorkedMs: number;
+  totalPausedMs: number;
+  remainingMs: number;
+  requiredMs: number;
+  leaveTime: Date;
+  originalLeaveTime: Date;
+  progressPercentage: number;
+  isComplete: boolean;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+export const toDurationMs = (hours: number, minutes: number) => {
+  return (hours * 60 + minutes) * MINUTE_MS;
+};
+
+export const getRequiredMs = (session: Pick<SessionSnapshot, 'required_work_hours' | 'required_work_minutes'>) => {
+  return toDurationMs(session.required_work_hours, session.required_work_minutes);
+};
+
+// Resolve an "HH:MM" arrival time in the given timezone to the most recent
+// matching instant. If the time lies in the future it is assumed to have
+// been yesterday.
+export const resolveArrival = (arrivalTime: string, now: Date, timezone = getBrowserTimezone()) => {
+  const todayKey = toZonedDateKey(now, timezone);
+  const arrival = fromZonedDateTime(todayKey, arrivalTime, timezone);
+  return arrival > now ? fromZonedDateTime(shiftDateKey(todayKey, -1), arrivalTime, timezone) : arrival;
+};
+
+// Sessions store the zoned arrival instant, so overnight shifts and DST
+// switches need no guessing. Rows without one fall back to the wall-clock time.
+export const getSessionArrival = (session: Pick<SessionSnapshot, 'arrival_time' | 'arrival_at'>, now: Date) => {
+  return session.arrival_at ? new Date(session.arrival_at) : resolveArrival(session.arrival_time, now);
+};
+
+export const sortSegments = <T extends SegmentSnapshot>(segments: T[]) => {
+  return [...segments].sort(
+    (a, b) => new Date(a.check_in).getTime() - new Date(b.check_in).getTime()
+  );
+};
+
+// Worked time is the sum of the segments (an open one runs until now) and
+// breaks are the gaps between consecutive segments
+export const getSegmentTotals = (segments: SegmentSnapshot[], now: Date) => {
+  const sorted = sortSegments(segments);
+  const gaps: SegmentGap[] = [];
+  let workedMs = 0;
+
+  sorted.forEach((segment, index) => {
+    const checkIn = new Date(segment.check_in);
+    const checkOut = segment.check_out ? new Date(segment.check_out) : now;
+    workedMs += Math.max(0, checkOut.getTime() - checkIn.getTime());
+
+    const next = sorted[index + 1];
+    if (next && segment.check_out) {
+      const nextCheckIn = new Date(next.check_in);
+      gaps.push({
+        start: checkOut,
+        end: nextCheckIn,
+        durationMs: Math.max(0, nextCheckIn.getTime() - checkOut.getTime()),
+      });
+    }
+  });
+
+  return {
+    workedMs,
+    breakMs: gaps.reduce((sum, gap) => sum + gap.durationMs, 0),
+    gaps,
+  };
+};
+
+export const sortBreaks = <T extends BreakSnapshot>(breaks: T[]) => {
+  return [...breaks].sort(
+    (a, b) => new Date(a.start_time).getTime() - new Date(b.start_time).getTime()
+  );
+};
+
+// Duration of a break; an open break runs until now
+export const getBreakDurationMs = (workBreak: BreakSnapshot, now: Date) => {
+  const end = workBreak.end_time ? new Date(workBreak.end_time) : now;
+  return Math.max(0, end.getTime() - new Date(workBreak.start_time).getTime());
+};
+
+// Paused time is the sum of the session's break records, including the
+// break that is currently in progress
+export const getTotalPausedMs = (breaks: BreakSnapshot[], now: Date) => {
+  return breaks.reduce((sum, workBreak) => sum + getBreakDurationMs(workBreak, now), 0);
+};
+
+export const calculateSessionStats = (
+  session: SessionSnapshot,
+  clock: Clock = systemClock,
+  breaks: BreakSnapshot[] = []
+): SessionStats => {
+  const now = clock();
+  const arrival = getSessionArrival(session, now);
+  const requiredMs = getRequiredMs(session);
+  const totalPausedMs = getTotalPausedMs(breaks, now);
+
+  // Time worked = time since arrival minus paused time
+  const totalWorkedMs = Math.max(0, now.getTime() - arrival.getTime() - totalPausedMs);
+  const remainingMs = Math.max(0, requiredMs - totalWorkedMs);
+
+  // Leave time: arrival + required work + total paused time. Adding absolute
+  // milliseconds keeps the result correct across midnight and DST switches.
+  const leaveTime = new Date(arrival.getTime() + requiredMs + totalPausedMs);
+  const originalLeaveTime = new Date(arrival.getTime() + requiredMs);
+
+  return {
+    arrival,
+    totalWorkedMs,
+    totalPausedMs,
+    remainingMs,
+    requiredMs,
+    leaveTime,
+    originalLeaveTime,
+    progressPercentage: requiredMs > 0 ? Math.min(100, (totalWorkedMs / requiredMs) * 100) : 100,
+    isComplete: totalWorkedMs >= requiredMs,
+  };
+};
+
+// Returns a message describing why a break cannot be saved, or null
+export const validateBreak = (
+  candidate: BreakSnapshot,
+  otherBreaks: BreakSnapshot[],
+  arrival: Date,
+  now: Date
+) => {
+  const start = new Date(candidate.start_time);
+  const end = candidate.end_time ? new Date(candidate.end_time) : now;
+
+  if (end < start) return 'A break cannot end before it starts.';
+  if (start < arrival) return 'A break cannot start before your arrival.';
+  if (end > now) return 'A break cannot end in the future.';
+
+  const overlaps = otherBreaks.some(other => {
+    const otherStart = new Date(other.start_time);
+    const otherEnd = other.end_time ? new Date(other.end_time) : now;
+    return start < otherEnd && otherStart < end;
+  });
+  if (overlaps) return 'This break overlaps with another break.';
+
+  return null;
+};
+
+// A forgotten break of the given length, ending at the given instant
+export const createManualBreak = (durationMs: number, end: Date) => {
+  return {
+    start_time: new Date(end.getTime() - Math.max(0, durationMs)).toISOString(),
+    end_time: end.toISOString(),
+    type: 'manual' as BreakType,
+  };
+};
+
+// Session field updates for each timer transition. The returned worked/paused
+// totals are cached on the session and its entry for history views; the
+// break records remain the source of truth.
+
+const closeBreaksAt = (breaks: BreakSnapshot[], now: Date) => {
+  return breaks.map(workBreak =>
+    workBreak.end_time ? workBreak : { ...workBreak, end_time: now.toISOString() }
+  );
+};
+
+// Cached totals to write back after breaks were added, edited or removed
+export const getSessionTotals = (
+  session: SessionSnapshot,
+  breaks: BreakSnapshot[],
+  clock: Clock = systemClock
+) => {
+  const { totalWorkedMs, totalPausedMs } = calculateSessionStats(session, clock, breaks);
+
+  return {
+    total_worked_ms: totalWorkedMs,
+    total_paused_ms: totalPausedMs,
+  };
+};
+
+export const pauseTransition = (
+  session: SessionSnapshot,
+  breaks: BreakSnapshot[],
+  clock: Clock = systemClock
+) => {
+  const now = clock();
+
+  return {
+    is_running: false,
+    is_paused: true,
+    ...getSessionTotals(session, breaks, () => now),
+    current_session_start: null,
+    pause_start_time: now.toISOString(),
+  };
+};
+
+export const resumeTransition = (
+  session: SessionSnapshot,
+  breaks: BreakSnapshot[],
+  clock: Clock = systemClock
+) => {
+  const now = clock();
+
+  return {
+    is_running: true,
+    is_paused: false,
+    // The open break is closed at the same instant
+    total_paused_ms: getTotalPausedMs(closeBreaksAt(breaks, now), now),
+    current_session_start: now.toISOString(),
+    pause_start_time: null,
+  };
+};
+
+// When a session nobody checked out of most likely ended: when its pause
+// began, or else once the required time was worked, though not before the
+// last break ended nor after now
+export const getAutoCloseTime = (
+  session: SessionSnapshot & { is_paused: boolean; pause_start_time: string | null },
+  breaks: BreakSnapshot[],
+  now: Date
+) => {
+  if (session.is_paused && session.pause_start_time) {
+    return new Date(session.pause_start_time);
+  }
+
+  const { leaveTime } = calculateSessionStats(session, () => now, breaks);
+  const lastBreakEnd = Math.max(0, ...breaks.map(workBreak => workBreak.end_time ? new Date(workBreak.end_time).getTime() : 0));
+  return new Date(Math.min(Math.max(leaveTime.getTime(), lastBreakEnd), now.getTime()));
+};
+
+export const completionTransition = (
+  session: SessionSnapshot,
+  breaks: BreakSnapshot[],
+  clock: Clock = systemClock
+) => {
+  const now = clock();
+
+  return {
+    check_out: now.toISOString(),
+    ...getSessionTotals(session, closeBreaksAt(breaks, now), () => now),
+  };
+};
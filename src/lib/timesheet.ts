@@ -0,0 +1,259 @@
+// Monthly timesheet: every day of a month with worked time against its
+// target, weekly subtotals and the flextime balance, laid out as a PDF with
+// signature lines for employee and manager.
+
+import {
+  formatDateKey,
+  formatTimeOfDay,
+  getWeekStartKey,
+  shiftDateKey,
+  type DisplayPreferences,
+} from './datetime';
+import { type AbsenceSnapshot } from './absences';
+import { createEmptyDaySummary, getDayOffLabel, groupEntriesByDay, type DaySummary } from './dailySummary';
+import { formatSignedDuration, getBalanceBefore, type DailyTotal, type FlextimeDay, type FlextimeSettings } from './flextime';
+import {
+  PAGE_HEIGHT,
+  PAGE_WIDTH,
+  buildPdf,
+  createPdfPage,
+  drawLine,
+  drawText,
+  drawTextRight,
+  type PdfPage,
+} from './pdf';
+
+export interface TimesheetDay extends DaySummary {
+  targetMs: number;
+  dayOff: string;
+}
+
+export interface TimesheetWeek {
+  weekStartKey: string;
+  days: TimesheetDay[];
+  workedMs: number;
+  targetMs: number;
+}
+
+export interface MonthlyTimesheet {
+  monthKey: string;
+  weeks: TimesheetWeek[];
+  workedMs: number;
+  pausedMs: number;
+  targetMs: number;
+  // Flextime balance carried into the month and left after it
+  balanceStartMs: number;
+  balanceEndMs: number;
+}
+
+interface TimesheetEntry {
+  date: string;
+  check_in: string;
+  check_out: string | null;
+  total_worked_ms: number;
+  total_paused_ms: number;
+}
+
+interface TimesheetInput {
+  // yyyy-MM
+  monthKey: string;
+  entries: TimesheetEntry[];
+  preferences: DisplayPreferences;
+  absences: AbsenceSnapshot[];
+  holidays: Record<string, string>;
+  // The days the flextime ledger was built from, so the month's target and
+  // its change in balance agree
+  dailyTotals: DailyTotal[];
+  ledger: FlextimeDay[];
+  flextimeSettings: FlextimeSettings;
+}
+
+// First and last day of a month
+export const getMonthRange = (monthKey: string) => {
+  const [year, month] = monthKey.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return {
+    fromKey: `${monthKey}-01`,
+    toKey: `${monthKey}-${lastDay.toString().padStart(2, '0')}`,
+  };
+};
+
+export const buildMonthlyTimesheet = ({
+  monthKey,
+  entries,
+  preferences,
+  absences,
+  holidays,
+  dailyTotals,
+  ledger,
+  flextimeSettings,
+}: TimesheetInput): MonthlyTimesheet => {
+  const { fromKey, toKey } = getMonthRange(monthKey);
+  const summaries = groupEntriesByDay(entries, preferences.timezone);
+  // Days the ledger does not cover (later than today, or before the account
+  // starts) have no target
+  const targets = new Map(dailyTotals.map(day => [day.dateKey, day.targetMs]));
+  const weeks: TimesheetWeek[] = [];
+
+  for (let dateKey = fromKey; dateKey <= toKey; dateKey = shiftDateKey(dateKey, 1)) {
+    const weekStartKey = getWeekStartKey(dateKey, preferences.weekStartsOn);
+    let week = weeks[weeks.length - 1];
+    if (!week || week.weekStartKey !== weekStartKey) {
+      week = { weekStartKey, days: [], workedMs: 0, targetMs: 0 };
+      weeks.push(week);
+    }
+
+    const day: TimesheetDay = {
+      ...(summaries[dateKey] ?? createEmptyDaySummary(dateKey)),
+      targetMs: targets.get(dateKey) ?? 0,
+      dayOff: getDayOffLabel(dateKey, absences, holidays),
+    };
+    week.days.push(day);
+    week.workedMs += day.totalWorked;
+    week.targetMs += day.targetMs;
+  }
+
+  const days = weeks.flatMap(week => week.days);
+
+  return {
+    monthKey,
+    weeks,
+    workedMs: days.reduce((sum, day) => sum + day.totalWorked, 0),
+    pausedMs: days.reduce((sum, day) => sum + day.totalPaused, 0),
+    targetMs: days.reduce((sum, day) => sum + day.targetMs, 0),
+    balanceStartMs: getBalanceBefore(ledger, flextimeSettings, fromKey),
+    balanceEndMs: getBalanceBefore(ledger, flextimeSettings, shiftDateKey(toKey, 1)),
+  };
+};
+
+const formatDuration = (ms: number) => {
+  const totalMinutes = Math.floor(ms / (1000 * 60));
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return `${hours}:${minutes.toString().padStart(2, '0')}`;
+};
+
+const MARGIN = 40;
+const ROW_HEIGHT = 13;
+const SIGNATURE_BLOCK_HEIGHT = 90;
+
+// Column positions; durations are right-aligned at their x
+const COLUMNS = {
+  date: MARGIN,
+  checkIn: 150,
+  checkOut: 205,
+  paused: 285,
+  worked: 335,
+  target: 385,
+  difference: 440,
+  note: 452,
+};
+
+const NOTE_MAX_LENGTH = 20;
+
+export const renderTimesheetPdf = (
+  timesheet: MonthlyTimesheet,
+  employeeName: string,
+  preferences: DisplayPreferences
+) => {
+  const pages: PdfPage[] = [];
+  const monthLabel = formatDateKey(`${timesheet.monthKey}-01`, preferences, { month: 'long', year: 'numeric' });
+  let page: PdfPage = createPdfPage();
+  let y = 0;
+
+  const drawTableHeader = () => {
+    drawText(page, COLUMNS.date, y, 'Date', 9, 'bold');
+    drawText(page, COLUMNS.checkIn, y, 'In', 9, 'bold');
+    drawText(page, COLUMNS.checkOut, y, 'Out', 9, 'bold');
+    drawTextRight(page, COLUMNS.paused, y, 'Pause', 9);
+    drawTextRight(page, COLUMNS.worked, y, 'Worked', 9);
+    drawTextRight(page, COLUMNS.target, y, 'Target', 9);
+    drawTextRight(page, COLUMNS.difference, y, 'Diff', 9);
+    drawText(page, COLUMNS.note, y, 'Note', 9, 'bold');
+    drawLine(page, MARGIN, y + 4, PAGE_WIDTH - MARGIN, y + 4);
+    y += ROW_HEIGHT + 2;
+  };
+
+  const startPage = () => {
+    page = createPdfPage();
+    pages.push(page);
+    y = MARGIN + 10;
+    drawText(page, MARGIN, y, `Timesheet ${monthLabel}`, 16, 'bold');
+    y += 18;
+    drawText(page, MARGIN, y, employeeName, 10);
+    y += 24;
+    drawTableHeader();
+  };
+
+  // Continue on a new page when the next block does not fit
+  const ensureSpace = (height: number) => {
+    if (y + height > PAGE_HEIGHT - MARGIN) {
+      startPage();
+    }
+  };
+
+  startPage();
+
+  timesheet.weeks.forEach(week => {
+    week.days.forEach(day => {
+      ensureSpace(ROW_HEIGHT);
+      const dateLabel = formatDateKey(day.date, preferences, { weekday: 'short', day: 'numeric', month: 'short' });
+      drawText(page, COLUMNS.date, y, dateLabel, 9);
+      if (day.firstCheckIn) drawText(page, COLUMNS.checkIn, y, formatTimeOfDay(day.firstCheckIn, preferences), 9);
+      if (day.lastCheckOut) drawText(page, COLUMNS.checkOut, y, formatTimeOfDay(day.lastCheckOut, preferences), 9);
+      if (day.totalPaused > 0) drawTextRight(page, COLUMNS.paused, y, formatDuration(day.totalPaused), 9);
+      if (day.sessions > 0) drawTextRight(page, COLUMNS.worked, y, formatDuration(day.totalWorked), 9);
+      if (day.targetMs > 0) drawTextRight(page, COLUMNS.target, y, formatDuration(day.targetMs), 9);
+      if (day.sessions > 0 || day.targetMs > 0) {
+        drawTextRight(page, COLUMNS.difference, y, formatSignedDuration(day.totalWorked - day.targetMs), 9);
+      }
+      if (day.dayOff) {
+        const note = day.dayOff.length > NOTE_MAX_LENGTH ? `${day.dayOff.slice(0, NOTE_MAX_LENGTH - 1)}…` : day.dayOff;
+        drawText(page, COLUMNS.note, y, note, 9);
+      }
+      y += ROW_HEIGHT;
+    });
+
+    ensureSpace(ROW_HEIGHT + 4);
+    drawLine(page, MARGIN, y - 10, PAGE_WIDTH - MARGIN, y - 10, 0.25);
+    const weekLabel = formatDateKey(week.weekStartKey, preferences, { day: 'numeric', month: 'short' });
+    drawText(page, COLUMNS.date, y, `Week of ${weekLabel}`, 9, 'bold');
+    drawTextRight(page, COLUMNS.worked, y, formatDuration(week.workedMs), 9);
+    drawTextRight(page, COLUMNS.target, y, formatDuration(week.targetMs), 9);
+    drawTextRight(page, COLUMNS.difference, y, formatSignedDuration(week.workedMs - week.targetMs), 9);
+    y += ROW_HEIGHT + 4;
+  });
+
+  // Month totals and flextime balance
+  const summaryRows: [string, string][] = [
+    ['Worked', formatDuration(timesheet.workedMs)],
+    ['Target', formatDuration(timesheet.targetMs)],
+    ['Difference', formatSignedDuration(timesheet.workedMs - timesheet.targetMs)],
+    ['Breaks', formatDuration(timesheet.pausedMs)],
+    ['Flextime balance at start of month', formatSignedDuration(timesheet.balanceStartMs)],
+    ['Flextime balance at end of month', formatSignedDuration(timesheet.balanceEndMs)],
+  ];
+  // Keep totals and signatures together
+  ensureSpace(8 + summaryRows.length * ROW_HEIGHT + SIGNATURE_BLOCK_HEIGHT);
+  drawLine(page, MARGIN, y - 6, PAGE_WIDTH - MARGIN, y - 6);
+  y += 8;
+  summaryRows.forEach(([label, value]) => {
+    drawText(page, COLUMNS.date, y, label, 10, 'bold');
+    drawTextRight(page, COLUMNS.target, y, value, 10);
+    y += ROW_HEIGHT;
+  });
+
+  // Signature lines for employee and manager
+  y += 50;
+  const columnWidth = (PAGE_WIDTH - MARGIN * 2 - 40) / 2;
+  const signatures = [
+    { label: 'Date, signature employee', x: MARGIN },
+    { label: 'Date, signature manager', x: MARGIN + columnWidth + 40 },
+  ];
+  signatures.forEach(({ label, x }) => {
+    drawLine(page, x, y, x + columnWidth, y);
+    drawText(page, x, y + 12, label, 8);
+  });
+
+  return buildPdf(pages);
+};
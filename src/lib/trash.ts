@@ -0,0 +1,16 @@
+// Deleted entries are kept in the trash for a retention period, after which
+// they are purged for good.
+
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Entries deleted before this instant are due for purging
+export const getPurgeCutoff = (now: Date) => {
+  return new Date(now.getTime() - TRASH_RETENTION_DAYS * DAY_MS);
+};
+
+export const getDaysUntilPurge = (deletedAt: string, now: Date) => {
+  const purgeAt = new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * DAY_MS;
+  return Math.max(0, Math.ceil((purgeAt - now.getTime()) / DAY_MS));
+};
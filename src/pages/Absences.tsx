@@ -0,0 +1,309 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { useProfile } from '@/hooks/useProfile';
+import { useAbsences } from '@/hooks/useAbsences';
+import { toast } from '@/hooks/use-toast';
+import { BurgerMenu } from '@/components/BurgerMenu';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, Palmtree, Plus, Trash2, CalendarDays } from 'lucide-react';
+import { formatDateKey, getDisplayPreferences, toZonedDateKey } from '@/lib/datetime';
+import { getWeeklySchedule } from '@/lib/schedule';
+import { getHolidayCalendar, getHolidayMap, getHolidays } from '@/lib/holidays';
+import {
+  ABSENCE_TYPES,
+  getAbsenceLabel,
+  getVacationSummary,
+  getWorkingDaysInRange,
+  type AbsenceType,
+} from '@/lib/absences';
+
+const Absences = () => {
+  const { user, loading } = useAuth();
+  const { profile } = useProfile();
+  const { absences, loading: absencesLoading, createAbsences, deleteAbsence } = useAbsences();
+  const navigate = useNavigate();
+
+  const preferences = getDisplayPreferences(profile);
+  const todayKey = toZonedDateKey(new Date(), preferences.timezone);
+  const [startDate, setStartDate] = useState(todayKey);
+  const [endDate, setEndDate] = useState(todayKey);
+  const [type, setType] = useState<AbsenceType>('vacation');
+  const [halfDay, setHalfDay] = useState(false);
+  const [note, setNote] = useState('');
+  const [isBooking, setIsBooking] = useState(false);
+
+  useEffect(() => {
+    if (!loading && !user) {
+      navigate('/auth');
+    }
+  }, [user, loading, navigate]);
+
+  if (loading || absencesLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  const year = parseInt(todayKey.slice(0, 4));
+  const schedule = getWeeklySchedule(profile);
+  const calendar = getHolidayCalendar(profile?.holiday_calendar);
+  const holidays = getHolidayMap(calendar, [year - 1, year, year + 1]);
+  const vacation = getVacationSummary(absences, profile?.vacation_days_per_year ?? 25, year, todayKey);
+  const bookingDays = startDate && endDate && startDate <= endDate
+    ? getWorkingDaysInRange(startDate, endDate, schedule, holidays)
+    : [];
+  const yearAbsences = absences.filter(absence => absence.date.startsWith(`${year}-`)).reverse();
+
+  const formatDate = (dateKey: string) => {
+    return formatDateKey(dateKey, preferences, {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    });
+  };
+
+  const formatDays = (days: number) => {
+    return Number.isInteger(days) ? days.toString() : days.toFixed(1);
+  };
+
+  const handleBook = async () => {
+    if (bookingDays.length === 0) {
+      toast({
+        title: "No working days",
+        description: "The selected range contains no scheduled working days.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsBooking(true);
+    const created = await createAbsences(bookingDays, {
+      type,
+      half_day: halfDay,
+      note: note.trim() || null,
+    });
+    setIsBooking(false);
+
+    if (created.length > 0) {
+      setNote('');
+      toast({
+        title: "Absence Booked",
+        description: `${getAbsenceLabel(type)} booked for ${created.length} day${created.length === 1 ? '' : 's'}.`,
+      });
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center p-4 border-b">
+        <h1 className="text-xl font-semibold">Absences</h1>
+        <BurgerMenu />
+      </div>
+      <div className="min-h-screen bg-background p-4">
+        <div className="max-w-4xl mx-auto space-y-6">
+          <Button variant="ghost" onClick={() => navigate('/')}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Timer
+          </Button>
+
+          <Card className="shadow-lg">
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Palmtree className="h-5 w-5 text-primary" />
+                Vacation {year}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+                <div>
+                  <div className="text-2xl font-mono font-bold">{formatDays(vacation.allowanceDays)}</div>
+                  <div className="text-sm text-muted-foreground mt-1">Allowance</div>
+                </div>
+                <div>
+                  <div className="text-2xl font-mono font-bold">{formatDays(vacation.takenDays)}</div>
+                  <div className="text-sm text-muted-foreground mt-1">Taken</div>
+                </div>
+                <div>
+                  <div className="text-2xl font-mono font-bold">{formatDays(vacation.plannedDays)}</div>
+                  <div className="text-sm text-muted-foreground mt-1">Planned</div>
+                </div>
+                <div>
+                  <div className={`text-2xl font-mono font-bold ${vacation.remainingDays < 0 ? 'text-destructive' : 'text-accent'}`}>
+                    {formatDays(vacation.remainingDays)}
+                  </div>
+                  <div className="text-sm text-muted-foreground mt-1">Remaining</div>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-lg">
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Plus className="h-5 w-5 text-primary" />
+                Book Absence
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="absenceStart">From</Label>
+                  <Input
+                    id="absenceStart"
+                    type="date"
+                    value={startDate}
+                    onChange={(e) => {
+                      setStartDate(e.target.value);
+                      if (e.target.value > endDate) setEndDate(e.target.value);
+                    }}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="absenceEnd">To</Label>
+                  <Input
+                    id="absenceEnd"
+                    type="date"
+                    min={startDate}
+                    value={endDate}
+                    onChange={(e) => setEndDate(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Type</Label>
+                  <Select value={type} onValueChange={(value) => setType(value as AbsenceType)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ABSENCE_TYPES.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="absenceNote">Note</Label>
+                  <Input
+                    id="absenceNote"
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    placeholder="Optional"
+                  />
+                </div>
+              </div>
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="absenceHalfDay">Half days</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Book only half of each day
+                  </p>
+                </div>
+                <Switch id="absenceHalfDay" checked={halfDay} onCheckedChange={setHalfDay} />
+              </div>
+              <Button onClick={handleBook} disabled={isBooking} className="w-full">
+                {isBooking
+                  ? 'Booking...'
+                  : `Book ${formatDays(bookingDays.length * (halfDay ? 0.5 : 1))} working day${bookingDays.length === 1 && !halfDay ? '' : 's'}`}
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-lg">
+            <CardHeader>
+              <CardTitle className="text-lg">Absences {year}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {yearAbsences.length === 0 ? (
+                <p className="text-muted-foreground text-center py-4">
+                  No absences booked this year.
+                </p>
+              ) : (
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Type</TableHead>
+                        <TableHead>Note</TableHead>
+                        <TableHead className="w-12"></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {yearAbsences.map((absence) => (
+                        <TableRow key={absence.id}>
+                          <TableCell className="font-medium">{formatDate(absence.date)}</TableCell>
+                          <TableCell>
+                            {getAbsenceLabel(absence.type)}
+                            {absence.half_day && <span className="text-muted-foreground"> (half day)</span>}
+                          </TableCell>
+                          <TableCell className="text-muted-foreground">{absence.note}</TableCell>
+                          <TableCell>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => deleteAbsence(absence.id)}
+                              className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-lg">
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <CalendarDays className="h-5 w-5 text-primary" />
+                Public Holidays {year}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {!calendar ? (
+                <p className="text-muted-foreground text-center py-4">
+                  No holiday calendar selected. Choose your region in the profile settings.
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  <p className="text-sm text-muted-foreground">{calendar.label}</p>
+                  {getHolidays(calendar, year).map((holiday) => (
+                    <div
+                      key={holiday.dateKey}
+                      className={`flex justify-between text-sm ${holiday.dateKey < todayKey ? 'text-muted-foreground' : ''}`}
+                    >
+                      <span>{holiday.name}</span>
+                      <span className="font-mono">{formatDate(holiday.dateKey)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Absences;
@@ -5,7 +5,9 @@ import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
 import { useNavigate } from 'react-router-dom';
+import CookieConsent from '@/components/CookieConsent';
 
 const Auth = () => {
   const [isSignUp, setIsSignUp] = useState(false);
@@ -13,6 +15,7 @@ const Auth = () => {
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
   const { toast } = useToast();
+  const { setLocalMode } = useAuth();
   const navigate = useNavigate();
 
   useEffect(() => {
@@ -64,7 +67,8 @@ const Auth = () => {
         });
         
         if (error) throw error;
-        
+
+        setLocalMode(false);
         toast({
           title: "Welcome back!",
           description: "You have been signed in successfully.",
@@ -81,8 +85,14 @@ const Auth = () => {
     }
   };
 
+  const continueWithoutAccount = () => {
+    setLocalMode(true);
+    navigate('/');
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <CookieConsent onAccept={() => setLocalMode(false)} onDecline={continueWithoutAccount} />
       <Card className="w-full max-w-md">
         <CardHeader className="text-center">
           <CardTitle className="text-2xl font-bold">
@@ -142,6 +152,19 @@ const Auth = () => {
               }
             </Button>
           </div>
+
+          <div className="mt-2 text-center">
+            <Button
+              variant="link"
+              onClick={continueWithoutAccount}
+              className="text-sm text-muted-foreground"
+            >
+              Continue without an account
+            </Button>
+            <p className="text-xs text-muted-foreground">
+              Your timer data stays in this browser only.
+            </p>
+          </div>
         </CardContent>
       </Card>
     </div>
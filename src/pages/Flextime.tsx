@@ -0,0 +1,169 @@
+import { useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { useProfile } from '@/hooks/useProfile';
+import { useWorkEntries } from '@/hooks/useWorkEntries';
+import { useAbsences } from '@/hooks/useAbsences';
+import { BurgerMenu } from '@/components/BurgerMenu';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, Scale } from 'lucide-react';
+import { formatDateKey, getDisplayPreferences, toZonedDateKey } from '@/lib/datetime';
+import { getHolidayCalendar, getHolidayMap, getYearsToCover } from '@/lib/holidays';
+import { getOffDayFractions } from '@/lib/absences';
+import { getWeeklySchedule } from '@/lib/schedule';
+import {
+  buildDailyTotals,
+  buildFlextimeLedger,
+  formatSignedDuration,
+  getFlextimeSettings,
+} from '@/lib/flextime';
+
+const Flextime = () => {
+  const { user, loading } = useAuth();
+  const { profile } = useProfile();
+  const { entries, loading: entriesLoading } = useWorkEntries();
+  const { absences, loading: absencesLoading } = useAbsences();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (!loading && !user) {
+      navigate('/auth');
+    }
+  }, [user, loading, navigate]);
+
+  if (loading || entriesLoading || absencesLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  const preferences = getDisplayPreferences(profile);
+  const settings = getFlextimeSettings(profile);
+  const todayKey = toZonedDateKey(new Date(), preferences.timezone);
+  const holidays = getHolidayMap(
+    getHolidayCalendar(profile?.holiday_calendar),
+    getYearsToCover([...entries.map(entry => entry.date.slice(0, 10)), settings.carryOverDateKey].filter(Boolean), todayKey)
+  );
+  const ledger = buildFlextimeLedger(
+    buildDailyTotals(
+      entries,
+      getWeeklySchedule(profile),
+      preferences.timezone,
+      getOffDayFractions(absences, holidays),
+      settings,
+      todayKey
+    ),
+    settings
+  );
+
+  const formatDuration = (ms: number) => {
+    const totalMinutes = Math.floor(ms / (1000 * 60));
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+    return `${hours}:${minutes.toString().padStart(2, '0')}`;
+  };
+
+  const getBalanceColor = (ms: number) => {
+    return ms < 0 ? 'text-destructive' : 'text-accent';
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center p-4 border-b">
+        <h1 className="text-xl font-semibold">Flextime Ledger</h1>
+        <BurgerMenu />
+      </div>
+      <div className="min-h-screen bg-background p-4">
+        <div className="max-w-4xl mx-auto space-y-6">
+          <Button variant="ghost" onClick={() => navigate('/')}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Timer
+          </Button>
+
+          <Card className="shadow-lg">
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Scale className="h-5 w-5 text-primary" />
+                Current Balance
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className={`text-4xl font-mono font-bold ${getBalanceColor(ledger.balanceMs)}`}>
+                {formatSignedDuration(ledger.balanceMs)}
+              </div>
+              <p className="text-sm text-muted-foreground mt-2">
+                Starting balance {formatSignedDuration(settings.startingBalanceMs)}
+                {settings.carryOverDateKey && (
+                  <> carried over on {formatDateKey(settings.carryOverDateKey, preferences, {
+                    year: 'numeric',
+                    month: 'short',
+                    day: 'numeric'
+                  })}</>
+                )}
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-lg">
+            <CardHeader>
+              <CardTitle className="text-lg">Daily Ledger</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {ledger.days.length === 0 ? (
+                <p className="text-muted-foreground text-center py-4">
+                  No tracked days yet.
+                </p>
+              ) : (
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Worked</TableHead>
+                        <TableHead>Target</TableHead>
+                        <TableHead>Difference</TableHead>
+                        <TableHead>Balance</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {[...ledger.days].reverse().map((day) => (
+                        <TableRow key={day.dateKey}>
+                          <TableCell className="font-medium">
+                            {formatDateKey(day.dateKey, preferences, {
+                              weekday: 'short',
+                              month: 'short',
+                              day: 'numeric',
+                              year: 'numeric'
+                            })}
+                          </TableCell>
+                          <TableCell className="font-mono">{formatDuration(day.workedMs)}</TableCell>
+                          <TableCell className="font-mono">{formatDuration(day.targetMs)}</TableCell>
+                          <TableCell className={`font-mono ${getBalanceColor(day.deltaMs)}`}>
+                            {formatSignedDuration(day.deltaMs)}
+                          </TableCell>
+                          <TableCell className={`font-mono font-semibold ${getBalanceColor(day.balanceMs)}`}>
+                            {formatSignedDuration(day.balanceMs)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Flextime;
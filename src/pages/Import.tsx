@@ -0,0 +1,467 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { useProfile } from '@/hooks/useProfile';
+import { useAbsences } from '@/hooks/useAbsences';
+import { useEntryImport } from '@/hooks/useEntryImport';
+import { toast } from '@/hooks/use-toast';
+import { BurgerMenu } from '@/components/BurgerMenu';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, Upload, FileSearch } from 'lucide-react';
+import { formatDateKey, formatTimeOfDay, getDisplayPreferences, toZonedDateKey } from '@/lib/datetime';
+import { getWeeklySchedule } from '@/lib/schedule';
+import { getHolidayCalendar, getHolidayMap, getYearsToCover } from '@/lib/holidays';
+import { getOffDayFractions, getTargetMs } from '@/lib/absences';
+import {
+  IMPORT_DATE_FORMATS,
+  IMPORT_FIELDS,
+  IMPORT_SOURCES,
+  classifyImportDays,
+  combineImportRows,
+  getImportSummary,
+  guessImportMapping,
+  parseCsv,
+  readImportRows,
+  type ImportDateFormat,
+  type ImportDayStatus,
+  type ImportMapping,
+  type ImportSource,
+} from '@/lib/import';
+import type { EntryRange } from '@/lib/manualEntries';
+
+type ImportStep = 'upload' | 'mapping' | 'review';
+
+// Days listed in the preview; the summary covers all of them
+const PREVIEW_LIMIT = 100;
+
+const STATUS_LABELS: Record<ImportDayStatus, string> = {
+  new: 'New',
+  duplicate: 'Duplicate',
+  invalid: 'Invalid',
+};
+
+const Import = () => {
+  const { user, loading } = useAuth();
+  const { profile } = useProfile();
+  const { absences, loading: absencesLoading } = useAbsences();
+  const { importing, loadExistingEntries, importDays } = useEntryImport();
+  const navigate = useNavigate();
+
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [source, setSource] = useState<ImportSource>('csv');
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ImportMapping | null>(null);
+  const [dateFormat, setDateFormat] = useState<ImportDateFormat>('ymd');
+  // Entries the file's days are checked against; null while loading
+  const [existing, setExisting] = useState<EntryRange[] | null>(null);
+
+  useEffect(() => {
+    if (!loading && !user) {
+      navigate('/auth');
+    }
+  }, [user, loading, navigate]);
+
+  const preferences = getDisplayPreferences(profile);
+
+  const parsed = useMemo(() => {
+    if (step !== 'review' || !mapping) return null;
+
+    // Times in the file are wall-clock times of the user's timezone
+    const { rows, errors } = readImportRows(table, mapping, dateFormat, preferences.timezone);
+    return { days: combineImportRows(rows), errors };
+  }, [step, table, mapping, dateFormat, preferences.timezone]);
+
+  // Duplicates are looked up on the server over the range the file covers
+  useEffect(() => {
+    setExisting(null);
+    if (!parsed) return;
+    if (parsed.days.length === 0) {
+      setExisting([]);
+      return;
+    }
+
+    let cancelled = false;
+    const start = new Date(Math.min(...parsed.days.map(day => day.checkIn.getTime())));
+    const end = new Date(Math.max(...parsed.days.map(day => day.checkOut.getTime())));
+    loadExistingEntries(start, end).then(entries => {
+      if (cancelled) return;
+      if (entries) {
+        setExisting(entries);
+      } else {
+        setStep('mapping');
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [parsed]);
+
+  // Dry run: everything the import would do, without writing anything
+  const review = useMemo(() => {
+    if (!parsed || !existing) return null;
+
+    const days = classifyImportDays(parsed.days, existing, new Date());
+    return {
+      days,
+      errors: parsed.errors,
+      summary: getImportSummary(days, table.length - 1, parsed.errors),
+    };
+  }, [parsed, existing, table.length]);
+
+  if (loading || absencesLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  const header = table[0] ?? [];
+  const sample = table[1] ?? [];
+  const isMappingComplete = !!mapping && IMPORT_FIELDS.every(field => !field.required || mapping[field.id] !== null);
+
+  const formatDuration = (ms: number) => {
+    const totalMinutes = Math.floor(ms / (1000 * 60));
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+    return `${hours}:${minutes.toString().padStart(2, '0')}`;
+  };
+
+  const formatDate = (dateKey: string) => {
+    return formatDateKey(dateKey, preferences, {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    });
+  };
+
+  const getStatusVariant = (status: ImportDayStatus) => {
+    if (status === 'new') return 'default';
+    return status === 'duplicate' ? 'secondary' : 'destructive';
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    const parsed = parseCsv(await file.text());
+    if (parsed.length < 2) {
+      toast({
+        title: "Nothing to Import",
+        description: "The file needs a header row and at least one row of data.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setFileName(file.name);
+    setTable(parsed);
+    setMapping(guessImportMapping(parsed[0]));
+    setDateFormat(IMPORT_SOURCES.find(option => option.value === source)?.dateFormat ?? 'ymd');
+    setStep('mapping');
+  };
+
+  const handleImport = async () => {
+    if (!review) return;
+
+    const todayKey = toZonedDateKey(new Date(), preferences.timezone);
+    const newDays = review.days.filter(day => day.status === 'new');
+    const holidays = getHolidayMap(
+      getHolidayCalendar(profile?.holiday_calendar),
+      getYearsToCover(newDays.map(day => day.dateKey), todayKey)
+    );
+    const offFractions = getOffDayFractions(absences, holidays);
+    const schedule = getWeeklySchedule(profile);
+
+    const result = await importDays(newDays.map(day => ({
+      ...day,
+      targetMs: getTargetMs(schedule, day.dateKey, offFractions),
+    })));
+
+    if (result.complete) {
+      const skipped = result.skipped > 0
+        ? ` ${result.skipped} ${result.skipped === 1 ? 'day was' : 'days were'} skipped as they overlap entries recorded meanwhile.`
+        : '';
+      toast({
+        title: "Import Complete",
+        description: `${result.imported} ${result.imported === 1 ? 'day' : 'days'} added to your history.${skipped}`,
+      });
+      setStep('upload');
+      setTable([]);
+      setMapping(null);
+      setFileName('');
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center p-4 border-b">
+        <h1 className="text-xl font-semibold">Import</h1>
+        <BurgerMenu />
+      </div>
+      <div className="min-h-screen bg-background p-4">
+        <div className="max-w-4xl mx-auto space-y-6">
+          <Button variant="ghost" onClick={() => navigate('/')}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Timer
+          </Button>
+
+          {step === 'upload' && (
+            <Card className="shadow-lg">
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <Upload className="h-5 w-5 text-primary" />
+                  Import History
+                </CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  Bring in past work from a spreadsheet or a detailed report exported from Toggl Track or Clockify.
+                  Rows of the same day are combined into one entry; gaps between them count as breaks.
+                </p>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label>Source</Label>
+                  <Select value={source} onValueChange={(value) => setSource(value as ImportSource)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {IMPORT_SOURCES.map(option => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="importFile">CSV file</Label>
+                  <Input
+                    id="importFile"
+                    type="file"
+                    accept=".csv,.txt,text/csv"
+                    onChange={(e) => handleFile(e.target.files?.[0])}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {step === 'mapping' && mapping && (
+            <Card className="shadow-lg">
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <Upload className="h-5 w-5 text-primary" />
+                  Map Columns
+                </CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  {fileName}: {table.length - 1} rows. Choose which column holds each value.
+                </p>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {IMPORT_FIELDS.map(field => {
+                  const columnIndex = mapping[field.id];
+                  return (
+                    <div key={field.id} className="grid grid-cols-[8rem_1fr] items-center gap-4">
+                      <Label>
+                        {field.label}
+                        {field.required && <span className="text-destructive"> *</span>}
+                      </Label>
+                      <div className="space-y-1">
+                        <Select
+                          value={columnIndex === null ? 'none' : columnIndex.toString()}
+                          onValueChange={(value) => setMapping({
+                            ...mapping,
+                            [field.id]: value === 'none' ? null : parseInt(value),
+                          })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">Not in file</SelectItem>
+                            {header.map((column, index) => (
+                              <SelectItem key={index} value={index.toString()}>
+                                {column || `Column ${index + 1}`}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {columnIndex !== null && sample[columnIndex] && (
+                          <p className="text-xs text-muted-foreground">e.g. {sample[columnIndex]}</p>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+
+                <div className="grid grid-cols-[8rem_1fr] items-center gap-4">
+                  <Label>Date format</Label>
+                  <Select value={dateFormat} onValueChange={(value) => setDateFormat(value as ImportDateFormat)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {IMPORT_DATE_FORMATS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="flex justify-between">
+                  <Button variant="outline" onClick={() => setStep('upload')}>
+                    Back
+                  </Button>
+                  <Button onClick={() => setStep('review')} disabled={!isMappingComplete}>
+                    <FileSearch className="mr-2 h-4 w-4" />
+                    Preview
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {step === 'review' && !review && (
+            <div className="text-center text-muted-foreground py-8">Checking against your history...</div>
+          )}
+
+          {step === 'review' && review && (
+            <>
+              <Card className="shadow-lg">
+                <CardHeader>
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <FileSearch className="h-5 w-5 text-primary" />
+                    Dry Run
+                  </CardTitle>
+                  <p className="text-sm text-muted-foreground">
+                    Nothing has been saved yet. This is what the import would do.
+                  </p>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+                    <div>
+                      <p className="text-sm text-muted-foreground">Rows read</p>
+                      <p className="text-2xl font-bold">{review.summary.rowCount}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Days to create</p>
+                      <p className="text-2xl font-bold text-accent">{review.summary.newDayCount}</p>
+                      <p className="text-xs text-muted-foreground">{formatDuration(review.summary.newWorkedMs)} worked</p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Duplicates skipped</p>
+                      <p className="text-2xl font-bold">{review.summary.duplicateDayCount}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Invalid, skipped</p>
+                      <p className="text-2xl font-bold text-destructive">
+                        {review.summary.invalidRowCount + review.summary.invalidDayCount}
+                      </p>
+                    </div>
+                  </div>
+
+                  {review.errors.length > 0 && (
+                    <div className="rounded-md border border-destructive/50 p-3 text-sm space-y-1">
+                      {review.errors.slice(0, 10).map(error => (
+                        <p key={error.line}>
+                          <span className="font-mono">Line {error.line}:</span> {error.message}
+                        </p>
+                      ))}
+                      {review.errors.length > 10 && (
+                        <p className="text-muted-foreground">and {review.errors.length - 10} more rows</p>
+                      )}
+                    </div>
+                  )}
+
+                  <div className="flex justify-between">
+                    <Button variant="outline" onClick={() => setStep('mapping')} disabled={importing}>
+                      Back
+                    </Button>
+                    <Button onClick={handleImport} disabled={importing || review.summary.newDayCount === 0}>
+                      <Upload className="mr-2 h-4 w-4" />
+                      {importing
+                        ? 'Importing...'
+                        : `Import ${review.summary.newDayCount} ${review.summary.newDayCount === 1 ? 'day' : 'days'}`}
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card className="shadow-lg">
+                <CardHeader>
+                  <CardTitle className="text-lg">Preview</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {review.days.length === 0 ? (
+                    <p className="text-muted-foreground text-center py-4">
+                      No importable rows found. Check the column mapping and date format.
+                    </p>
+                  ) : (
+                    <div className="rounded-md border">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Date</TableHead>
+                            <TableHead>In / Out</TableHead>
+                            <TableHead>Pause</TableHead>
+                            <TableHead>Worked</TableHead>
+                            <TableHead>Status</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {review.days.slice(0, PREVIEW_LIMIT).map(day => (
+                            <TableRow key={day.dateKey}>
+                              <TableCell>
+                                <div className="font-medium">{formatDate(day.dateKey)}</div>
+                                {day.name && (
+                                  <div className="text-xs text-muted-foreground truncate max-w-[16rem]">{day.name}</div>
+                                )}
+                              </TableCell>
+                              <TableCell className="font-mono text-sm">
+                                {formatTimeOfDay(day.checkIn, preferences)} – {formatTimeOfDay(day.checkOut, preferences)}
+                              </TableCell>
+                              <TableCell className="font-mono">{formatDuration(day.pauseMs)}</TableCell>
+                              <TableCell className="font-mono font-semibold">{formatDuration(day.workedMs)}</TableCell>
+                              <TableCell>
+                                <Badge variant={getStatusVariant(day.status)}>{STATUS_LABELS[day.status]}</Badge>
+                                {day.message && (
+                                  <div className="text-xs text-muted-foreground mt-1">{day.message}</div>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  )}
+                  {review.days.length > PREVIEW_LIMIT && (
+                    <p className="text-xs text-muted-foreground text-center mt-4">
+                      Showing the first {PREVIEW_LIMIT} of {review.days.length} days
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Import;
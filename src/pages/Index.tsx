@@ -1,20 +1,24 @@
-import { useEffect } from 'react';
+import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { useProfile } from '@/hooks/useProfile';
 import WorkdayTracker from '@/components/WorkdayTracker';
 import { BurgerMenu } from '@/components/BurgerMenu';
+import { LocalDataPrompt } from '@/components/LocalDataPrompt';
+import { SyncIndicator } from '@/components/SyncIndicator';
 
 const Index = () => {
-  const { user, loading, signOut } = useAuth();
+  const { user, loading, isLocalMode } = useAuth();
   const { profile } = useProfile();
   const navigate = useNavigate();
+  // Remounts the tracker so it reloads after local data was moved in
+  const [trackerKey, setTrackerKey] = useState(0);
 
   useEffect(() => {
-    if (!loading && !user) {
+    if (!loading && !user && !isLocalMode) {
       navigate('/auth');
     }
-  }, [user, loading, navigate]);
+  }, [user, loading, isLocalMode, navigate]);
 
   if (loading) {
     return (
@@ -24,7 +28,7 @@ const Index = () => {
     );
   }
 
-  if (!user) {
+  if (!user && !isLocalMode) {
     return null;
   }
 
@@ -34,9 +38,13 @@ const Index = () => {
         <h1 className="text-xl font-semibold">
           {profile?.display_name ? `Welcome ${profile.display_name}` : 'Workday Tracker'}
         </h1>
-        <BurgerMenu />
+        <div className="flex items-center gap-4">
+          {user && <SyncIndicator />}
+          <BurgerMenu />
+        </div>
       </div>
-      <WorkdayTracker />
+      {user && <LocalDataPrompt onMoved={() => setTrackerKey(key => key + 1)} />}
+      <WorkdayTracker key={trackerKey} />
     </div>
   );
 };
@@ -0,0 +1,197 @@
+import { useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { useProfile } from '@/hooks/useProfile';
+import { useEntryTrash } from '@/hooks/useEntryTrash';
+import { toast } from '@/hooks/use-toast';
+import { BurgerMenu } from '@/components/BurgerMenu';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { ArrowLeft, Trash2, Undo2 } from 'lucide-react';
+import { formatDisplayDate, getDisplayPreferences } from '@/lib/datetime';
+import { TRASH_RETENTION_DAYS, getDaysUntilPurge } from '@/lib/trash';
+
+const Trash = () => {
+  const { user, loading, isLocalMode } = useAuth();
+  const { profile } = useProfile();
+  const { deletedEntries, loading: trashLoading, restoreEntry, purgeEntry } = useEntryTrash();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (!loading && !user && !isLocalMode) {
+      navigate('/auth');
+    }
+  }, [user, loading, isLocalMode, navigate]);
+
+  if (loading || trashLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!user && !isLocalMode) {
+    return null;
+  }
+
+  const preferences = getDisplayPreferences(profile);
+  const now = new Date();
+
+  const formatDuration = (ms: number) => {
+    const totalMinutes = Math.floor(ms / (1000 * 60));
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+    return `${hours}:${minutes.toString().padStart(2, '0')}`;
+  };
+
+  const formatDate = (dateString: string) => {
+    return formatDisplayDate(dateString, preferences, {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    });
+  };
+
+  const handleRestore = async (entryId: string) => {
+    const success = await restoreEntry(entryId);
+    if (success) {
+      toast({
+        title: "Entry Restored",
+        description: "Work session is back in your history.",
+      });
+    }
+  };
+
+  const handlePurge = async (entryId: string) => {
+    const success = await purgeEntry(entryId);
+    if (success) {
+      toast({
+        title: "Entry Purged",
+        description: "Work session permanently deleted.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center p-4 border-b">
+        <h1 className="text-xl font-semibold">Trash</h1>
+        <BurgerMenu />
+      </div>
+      <div className="min-h-screen bg-background p-4">
+        <div className="max-w-4xl mx-auto space-y-6">
+          <Button variant="ghost" onClick={() => navigate('/')}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Timer
+          </Button>
+
+          <Card className="shadow-lg">
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Trash2 className="h-5 w-5 text-primary" />
+                Deleted Entries
+              </CardTitle>
+              <p className="text-sm text-muted-foreground">
+                Deleted entries are kept for {TRASH_RETENTION_DAYS} days before they are purged permanently.
+              </p>
+            </CardHeader>
+            <CardContent>
+              {deletedEntries.length === 0 ? (
+                <p className="text-muted-foreground text-center py-4">
+                  The trash is empty.
+                </p>
+              ) : (
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Name/Date</TableHead>
+                        <TableHead>Duration</TableHead>
+                        <TableHead>Deleted</TableHead>
+                        <TableHead>Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {deletedEntries.map((entry) => (
+                        <TableRow key={entry.id}>
+                          <TableCell className="font-medium">
+                            <div>{entry.name || `Session ${formatDate(entry.date)}`}</div>
+                            <div className="text-sm text-muted-foreground">{formatDate(entry.date)}</div>
+                          </TableCell>
+                          <TableCell className="font-mono font-semibold">
+                            {formatDuration(entry.total_worked_ms)}
+                          </TableCell>
+                          <TableCell>
+                            <div className="text-sm">{formatDate(entry.deleted_at!)}</div>
+                            <div className="text-xs text-muted-foreground">
+                              Purged in {getDaysUntilPurge(entry.deleted_at!, now)} days
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex gap-1">
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => handleRestore(entry.id)}
+                                className="h-8 px-2"
+                              >
+                                <Undo2 className="mr-1 h-4 w-4" />
+                                Restore
+                              </Button>
+                              <AlertDialog>
+                                <AlertDialogTrigger asChild>
+                                  <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                                  >
+                                    <Trash2 className="h-4 w-4" />
+                                  </Button>
+                                </AlertDialogTrigger>
+                                <AlertDialogContent>
+                                  <AlertDialogHeader>
+                                    <AlertDialogTitle>Delete permanently?</AlertDialogTitle>
+                                    <AlertDialogDescription>
+                                      This work session cannot be restored afterwards.
+                                    </AlertDialogDescription>
+                                  </AlertDialogHeader>
+                                  <AlertDialogFooter>
+                                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                    <AlertDialogAction onClick={() => handlePurge(entry.id)}>
+                                      Delete
+                                    </AlertDialogAction>
+                                  </AlertDialogFooter>
+                                </AlertDialogContent>
+                              </AlertDialog>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Trash;
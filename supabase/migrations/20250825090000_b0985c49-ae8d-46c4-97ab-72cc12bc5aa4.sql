@@ -0,0 +1,24 @@
+-- Store the full zoned arrival instant so overnight shifts and DST switches
+-- no longer depend on guessing the day of a bare TIME value
+ALTER TABLE public.work_sessions ADD COLUMN arrival_at TIMESTAMPTZ;
+
+-- Backfill from the check-in of the session's entry, which was always written
+-- as the exact arrival instant
+UPDATE public.work_sessions s
+SET arrival_at = e.check_in
+FROM (
+  SELECT session_id, MIN(check_in) AS check_in
+  FROM public.work_entries
+  GROUP BY session_id
+) e
+WHERE e.session_id = s.id
+  AND s.arrival_at IS NULL;
+
+-- Sessions without an entry: best effort from the stored date and time
+UPDATE public.work_sessions
+SET arrival_at = (date + arrival_time) AT TIME ZONE 'UTC'
+WHERE arrival_at IS NULL;
+
+ALTER TABLE public.work_sessions ALTER COLUMN arrival_at SET NOT NULL;
+
+CREATE INDEX idx_work_sessions_arrival_at ON public.work_sessions(arrival_at);
@@ -0,0 +1,6 @@
+-- Per-user display preferences. A NULL timezone means "use the browser's".
+ALTER TABLE public.profiles
+  ADD COLUMN timezone TEXT,
+  ADD COLUMN locale TEXT NOT NULL DEFAULT 'en-US',
+  ADD COLUMN hour12 BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN week_starts_on SMALLINT NOT NULL DEFAULT 1 CHECK (week_starts_on BETWEEN 0 AND 6);
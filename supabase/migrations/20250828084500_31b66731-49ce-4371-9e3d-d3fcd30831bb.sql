@@ -0,0 +1,65 @@
+-- Check-in/check-out segments: every resume opens a new segment, so a workday
+-- is a list of worked intervals and the gaps between them are breaks
+CREATE TABLE public.work_segments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  session_id UUID REFERENCES public.work_sessions(id) ON DELETE CASCADE NOT NULL,
+  entry_id UUID REFERENCES public.work_entries(id) ON DELETE CASCADE NOT NULL,
+  check_in TIMESTAMPTZ NOT NULL,
+  check_out TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (check_out IS NULL OR check_out >= check_in)
+);
+
+-- Pause time added by hand ("forgotten pause") cannot be expressed as a gap
+-- between segments, so it is kept separately on the session
+ALTER TABLE public.work_sessions ADD COLUMN manual_paused_ms BIGINT NOT NULL DEFAULT 0;
+
+-- Enable Row Level Security
+ALTER TABLE public.work_segments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own work segments" 
+ON public.work_segments 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own work segments" 
+ON public.work_segments 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own work segments" 
+ON public.work_segments 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own work segments" 
+ON public.work_segments 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_work_segments_updated_at
+  BEFORE UPDATE ON public.work_segments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_work_segments_user_id ON public.work_segments(user_id);
+CREATE INDEX idx_work_segments_session_id ON public.work_segments(session_id);
+CREATE INDEX idx_work_segments_entry_id ON public.work_segments(entry_id);
+
+-- Sessions still in progress get a single segment covering the time so far.
+-- Their earlier pauses have no timestamps, so they carry over as manual pause.
+INSERT INTO public.work_segments (user_id, session_id, entry_id, check_in, check_out)
+SELECT e.user_id, e.session_id, e.id, e.check_in,
+       CASE WHEN s.is_paused THEN s.pause_start_time END
+FROM public.work_entries e
+JOIN public.work_sessions s ON s.id = e.session_id
+WHERE s.is_active AND e.status IN ('active', 'paused');
+
+UPDATE public.work_sessions
+SET manual_paused_ms = total_paused_ms
+WHERE is_active;
+
+ALTER TABLE public.work_segments REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.work_segments;
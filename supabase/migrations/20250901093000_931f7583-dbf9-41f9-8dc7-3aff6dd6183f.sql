@@ -0,0 +1,71 @@
+-- First-class break records replace the opaque total_paused_ms counter.
+-- total_paused_ms/total_worked_ms stay as cached totals for history views.
+CREATE TABLE public.work_breaks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  session_id UUID REFERENCES public.work_sessions(id) ON DELETE CASCADE NOT NULL,
+  start_time TIMESTAMPTZ NOT NULL,
+  end_time TIMESTAMPTZ,
+  type TEXT NOT NULL DEFAULT 'personal' CHECK (type IN ('lunch', 'personal', 'manual')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (end_time IS NULL OR end_time >= start_time)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.work_breaks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own work breaks" 
+ON public.work_breaks 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own work breaks" 
+ON public.work_breaks 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own work breaks" 
+ON public.work_breaks 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own work breaks" 
+ON public.work_breaks 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_work_breaks_updated_at
+  BEFORE UPDATE ON public.work_breaks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_work_breaks_user_id ON public.work_breaks(user_id);
+CREATE INDEX idx_work_breaks_session_id ON public.work_breaks(session_id);
+
+-- Backfill every session that has segments: the gaps between consecutive
+-- segments become breaks, and a trailing open pause becomes an open break
+INSERT INTO public.work_breaks (user_id, session_id, start_time, end_time, type)
+SELECT user_id, session_id, check_out, next_check_in, 'personal'
+FROM (
+  SELECT user_id, session_id, check_out,
+         LEAD(check_in) OVER (PARTITION BY session_id ORDER BY check_in) AS next_check_in
+  FROM public.work_segments
+) gaps
+WHERE check_out IS NOT NULL AND next_check_in IS NOT NULL;
+
+INSERT INTO public.work_breaks (user_id, session_id, start_time, end_time, type)
+SELECT user_id, id, pause_start_time, NULL, 'personal'
+FROM public.work_sessions
+WHERE is_active AND is_paused AND pause_start_time IS NOT NULL;
+
+-- Manually added pause time has no timestamps; anchor it at arrival
+INSERT INTO public.work_breaks (user_id, session_id, start_time, end_time, type)
+SELECT user_id, id, arrival_at, arrival_at + manual_paused_ms * INTERVAL '1 millisecond', 'manual'
+FROM public.work_sessions
+WHERE manual_paused_ms > 0;
+
+ALTER TABLE public.work_sessions DROP COLUMN manual_paused_ms;
+
+ALTER TABLE public.work_breaks REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.work_breaks;
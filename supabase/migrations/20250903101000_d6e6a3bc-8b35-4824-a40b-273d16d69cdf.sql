@@ -0,0 +1,4 @@
+-- Statutory break rule set evaluated against the user's sessions
+ALTER TABLE public.profiles
+  ADD COLUMN break_rule_set TEXT NOT NULL DEFAULT 'none'
+  CHECK (break_rule_set IN ('none', 'de-arbzg', 'at-azg'));
@@ -0,0 +1,5 @@
+-- Flextime account settings: the balance carried over from before tracking
+-- started, and the date from which days count towards the balance
+ALTER TABLE public.profiles
+  ADD COLUMN flextime_start_balance_ms BIGINT NOT NULL DEFAULT 0,
+  ADD COLUMN flextime_carry_over_date DATE;
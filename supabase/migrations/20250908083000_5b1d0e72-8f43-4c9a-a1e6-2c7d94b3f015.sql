@@ -0,0 +1,6 @@
+-- Weekly work schedule: required minutes per weekday, indexed like
+-- JavaScript's Date#getDay (0 = Sunday). Defaults to 8 hours Monday to Friday.
+ALTER TABLE public.profiles
+  ADD COLUMN weekly_schedule_minutes INTEGER[] NOT NULL DEFAULT '{0,480,480,480,480,480,0}',
+  ADD CONSTRAINT profiles_weekly_schedule_minutes_check
+    CHECK (array_length(weekly_schedule_minutes, 1) = 7);
@@ -0,0 +1,48 @@
+-- Absence days (vacation, sick leave, manually booked public holidays). Each
+-- row covers one calendar day, optionally only half of it.
+CREATE TABLE public.absences (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  date DATE NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('vacation', 'sick', 'holiday')),
+  half_day BOOLEAN NOT NULL DEFAULT false,
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, date, type)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.absences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own absences" 
+ON public.absences 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own absences" 
+ON public.absences 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own absences" 
+ON public.absences 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own absences" 
+ON public.absences 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_absences_updated_at
+  BEFORE UPDATE ON public.absences
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_absences_user_id_date ON public.absences(user_id, date);
+
+-- Yearly vacation allowance in days and the bundled holiday calendar to apply
+ALTER TABLE public.profiles
+  ADD COLUMN vacation_days_per_year NUMERIC(4,1) NOT NULL DEFAULT 25,
+  ADD COLUMN holiday_calendar TEXT;
@@ -0,0 +1,159 @@
+-- Append-only, tamper-evident history of every change to sessions and
+-- entries. Rows are written by triggers only; each row hashes its content
+-- together with the previous row of the same user, so editing or removing a
+-- row breaks the chain.
+CREATE TABLE public.audit_log (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  -- Who made the change; NULL for the service role and scheduled jobs
+  actor_id UUID,
+  table_name TEXT NOT NULL,
+  record_id UUID NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('INSERT', 'UPDATE', 'DELETE')),
+  changed_fields TEXT[] NOT NULL DEFAULT '{}',
+  old_data JSONB,
+  new_data JSONB,
+  previous_hash TEXT,
+  hash TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security; there are no insert, update or delete policies
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own audit log" 
+ON public.audit_log 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_audit_log_user_id ON public.audit_log(user_id, id);
+CREATE INDEX idx_audit_log_record ON public.audit_log(table_name, record_id);
+
+CREATE OR REPLACE FUNCTION public.audit_log_hash(
+  _previous_hash TEXT,
+  _table_name TEXT,
+  _record_id UUID,
+  _action TEXT,
+  _old_data JSONB,
+  _new_data JSONB,
+  _created_at TIMESTAMPTZ
+)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT encode(sha256(convert_to(
+    concat_ws('|', coalesce(_previous_hash, ''), _table_name, _record_id::text, _action,
+              coalesce(_old_data::text, ''), coalesce(_new_data::text, ''),
+              to_char(_created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US')),
+    'UTF8'
+  )), 'hex');
+$$;
+
+-- Trigger arguments name columns whose changes alone are not worth a log row,
+-- such as the running totals the timer keeps writing
+CREATE OR REPLACE FUNCTION public.log_audit_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _old JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  _new JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  _user_id UUID := coalesce((_new ->> 'user_id')::uuid, (_old ->> 'user_id')::uuid);
+  _changed TEXT[] := '{}';
+  _previous_hash TEXT;
+  _created_at TIMESTAMPTZ := now();
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    SELECT coalesce(array_agg(key ORDER BY key), '{}') INTO _changed
+    FROM jsonb_each(_new) AS n(key, value)
+    WHERE n.value IS DISTINCT FROM _old -> n.key
+      AND n.key <> 'updated_at';
+
+    IF NOT EXISTS (SELECT 1 FROM unnest(_changed) AS c(key) WHERE c.key <> ALL (TG_ARGV)) THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  -- Serialise writers per user so the chain stays linear
+  PERFORM pg_advisory_xact_lock(hashtext(_user_id::text));
+
+  SELECT hash INTO _previous_hash
+  FROM public.audit_log
+  WHERE user_id = _user_id
+  ORDER BY id DESC
+  LIMIT 1;
+
+  INSERT INTO public.audit_log (
+    user_id, actor_id, table_name, record_id, action, changed_fields,
+    old_data, new_data, previous_hash, hash, created_at
+  )
+  VALUES (
+    _user_id, auth.uid(), TG_TABLE_NAME, coalesce((_new ->> 'id')::uuid, (_old ->> 'id')::uuid), TG_OP, _changed,
+    _old, _new, _previous_hash,
+    public.audit_log_hash(_previous_hash, TG_TABLE_NAME, coalesce((_new ->> 'id')::uuid, (_old ->> 'id')::uuid),
+                          TG_OP, _old, _new, _created_at),
+    _created_at
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER audit_work_sessions
+  AFTER INSERT OR UPDATE OR DELETE ON public.work_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_audit_change('total_worked_ms', 'total_paused_ms');
+
+CREATE TRIGGER audit_work_entries
+  AFTER INSERT OR UPDATE OR DELETE ON public.work_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_audit_change('total_worked_ms', 'total_paused_ms');
+
+-- Append-only: no updates, and deletes only while the owning account is being
+-- removed (the cascade runs after the user row is gone)
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND NOT EXISTS (SELECT 1 FROM auth.users WHERE id = OLD.user_id) THEN
+    RETURN OLD;
+  END IF;
+  RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$;
+
+CREATE TRIGGER prevent_audit_log_changes
+  BEFORE UPDATE OR DELETE ON public.audit_log
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+-- Recompute the calling user's chain; returns the id of the first row that
+-- does not match, or NULL when the history is intact
+CREATE OR REPLACE FUNCTION public.verify_audit_log()
+RETURNS BIGINT
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _row public.audit_log%ROWTYPE;
+  _previous_hash TEXT;
+BEGIN
+  FOR _row IN
+    SELECT * FROM public.audit_log WHERE user_id = auth.uid() ORDER BY id
+  LOOP
+    IF _row.previous_hash IS DISTINCT FROM _previous_hash
+       OR _row.hash <> public.audit_log_hash(_row.previous_hash, _row.table_name, _row.record_id,
+                                             _row.action, _row.old_data, _row.new_data, _row.created_at) THEN
+      RETURN _row.id;
+    END IF;
+    _previous_hash := _row.hash;
+  END LOOP;
+  RETURN NULL;
+END;
+$$;
@@ -0,0 +1,5 @@
+-- Soft delete: deleted entries stay in the trash until restored or purged
+ALTER TABLE public.work_entries
+  ADD COLUMN deleted_at TIMESTAMPTZ;
+
+CREATE INDEX idx_work_entries_deleted_at ON public.work_entries(user_id, deleted_at);
@@ -0,0 +1,79 @@
+-- Account deletion: users can remove their own account. Deleting the auth
+-- user cascades to profiles, sessions, entries, segments, breaks, absences
+-- and the audit log; avatar files are removed by the client beforehand.
+
+-- The audit triggers fire while sessions and entries cascade away, after the
+-- user row is gone; skip logging then instead of violating the foreign key
+CREATE OR REPLACE FUNCTION public.log_audit_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _old JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  _new JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  _user_id UUID := coalesce((_new ->> 'user_id')::uuid, (_old ->> 'user_id')::uuid);
+  _changed TEXT[] := '{}';
+  _previous_hash TEXT;
+  _created_at TIMESTAMPTZ := now();
+BEGIN
+  -- Rows removed along with their account leave nothing to audit; the log
+  -- itself is deleted by the same cascade
+  IF NOT EXISTS (SELECT 1 FROM auth.users WHERE id = _user_id) THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT coalesce(array_agg(key ORDER BY key), '{}') INTO _changed
+    FROM jsonb_each(_new) AS n(key, value)
+    WHERE n.value IS DISTINCT FROM _old -> n.key
+      AND n.key <> 'updated_at';
+
+    IF NOT EXISTS (SELECT 1 FROM unnest(_changed) AS c(key) WHERE c.key <> ALL (TG_ARGV)) THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  -- Serialise writers per user so the chain stays linear
+  PERFORM pg_advisory_xact_lock(hashtext(_user_id::text));
+
+  SELECT hash INTO _previous_hash
+  FROM public.audit_log
+  WHERE user_id = _user_id
+  ORDER BY id DESC
+  LIMIT 1;
+
+  INSERT INTO public.audit_log (
+    user_id, actor_id, table_name, record_id, action, changed_fields,
+    old_data, new_data, previous_hash, hash, created_at
+  )
+  VALUES (
+    _user_id, auth.uid(), TG_TABLE_NAME, coalesce((_new ->> 'id')::uuid, (_old ->> 'id')::uuid), TG_OP, _changed,
+    _old, _new, _previous_hash,
+    public.audit_log_hash(_previous_hash, TG_TABLE_NAME, coalesce((_new ->> 'id')::uuid, (_old ->> 'id')::uuid),
+                          TG_OP, _old, _new, _created_at),
+    _created_at
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.delete_own_account()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  DELETE FROM auth.users WHERE id = auth.uid();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.delete_own_account() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.delete_own_account() TO authenticated;
@@ -0,0 +1,257 @@
+-- Timer transitions run in the database: the server's clock decides the
+-- instants, illegal transitions (pausing twice, resuming a running session,
+-- completing one that is over) are rejected, and the session, its entry,
+-- segments and breaks change in one transaction. The functions run as the
+-- caller, so row level security still applies.
+
+-- Worked and paused time of a session at the given instant, as the client
+-- computes them: breaks are the paused time (an open one runs until then)
+-- and everything else since arrival is worked time
+CREATE OR REPLACE FUNCTION public.session_totals(
+  _session public.work_sessions,
+  _at TIMESTAMPTZ,
+  OUT total_worked_ms BIGINT,
+  OUT total_paused_ms BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    GREATEST(0, (extract(epoch FROM _at - _session.arrival_at) * 1000)::BIGINT - paused.ms),
+    paused.ms
+  FROM (
+    SELECT coalesce(sum(GREATEST(0, extract(epoch FROM coalesce(end_time, _at) - start_time) * 1000)), 0)::BIGINT AS ms
+    FROM public.work_breaks
+    WHERE session_id = _session.id
+  ) paused;
+$$;
+
+-- The caller's session, locked until the transaction ends so concurrent
+-- transitions (a double click, a second device) run one after the other
+CREATE OR REPLACE FUNCTION public.lock_own_session(_session_id UUID)
+RETURNS public.work_sessions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _session public.work_sessions;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _session
+  FROM public.work_sessions
+  WHERE id = _session_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Work session not found';
+  END IF;
+
+  RETURN _session;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.start_session(
+  p_arrival_at TIMESTAMPTZ,
+  p_date DATE,
+  p_arrival_time TIME,
+  p_required_work_hours INTEGER,
+  p_required_work_minutes INTEGER
+)
+RETURNS public.work_sessions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _now TIMESTAMPTZ := now();
+  _worked_ms BIGINT;
+  _session public.work_sessions;
+  _entry_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_arrival_at > _now THEN
+    RAISE EXCEPTION 'Arrival cannot be in the future';
+  END IF;
+
+  _worked_ms := (extract(epoch FROM _now - p_arrival_at) * 1000)::BIGINT;
+
+  INSERT INTO public.work_sessions (
+    user_id, date, arrival_time, arrival_at, required_work_hours, required_work_minutes,
+    is_active, is_running, is_paused, start_time, current_session_start,
+    total_worked_ms, total_paused_ms
+  )
+  VALUES (
+    auth.uid(), p_date, p_arrival_time, p_arrival_at, p_required_work_hours, p_required_work_minutes,
+    true, true, false, _now, _now,
+    _worked_ms, 0
+  )
+  RETURNING * INTO _session;
+
+  INSERT INTO public.work_entries (user_id, session_id, date, check_in, total_worked_ms, total_paused_ms, status)
+  VALUES (auth.uid(), _session.id, p_arrival_at, p_arrival_at, _worked_ms, 0, 'active')
+  RETURNING id INTO _entry_id;
+
+  INSERT INTO public.work_segments (user_id, session_id, entry_id, check_in)
+  VALUES (auth.uid(), _session.id, _entry_id, p_arrival_at);
+
+  RETURN _session;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.pause_session(p_session_id UUID)
+RETURNS public.work_sessions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _now TIMESTAMPTZ := now();
+  _session public.work_sessions := public.lock_own_session(p_session_id);
+  _totals RECORD;
+BEGIN
+  IF NOT _session.is_active OR NOT _session.is_running THEN
+    RAISE EXCEPTION 'The workday is not running';
+  END IF;
+
+  UPDATE public.work_segments
+  SET check_out = _now
+  WHERE session_id = _session.id AND check_out IS NULL;
+
+  INSERT INTO public.work_breaks (user_id, session_id, start_time, type)
+  VALUES (_session.user_id, _session.id, _now, 'personal');
+
+  _totals := public.session_totals(_session, _now);
+
+  UPDATE public.work_sessions
+  SET is_running = false,
+      is_paused = true,
+      current_session_start = NULL,
+      pause_start_time = _now,
+      total_worked_ms = _totals.total_worked_ms,
+      total_paused_ms = _totals.total_paused_ms
+  WHERE id = _session.id
+  RETURNING * INTO _session;
+
+  UPDATE public.work_entries
+  SET status = 'paused',
+      total_worked_ms = _totals.total_worked_ms,
+      total_paused_ms = _totals.total_paused_ms
+  WHERE session_id = _session.id AND status IN ('active', 'paused') AND deleted_at IS NULL;
+
+  RETURN _session;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.resume_session(p_session_id UUID)
+RETURNS public.work_sessions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _now TIMESTAMPTZ := now();
+  _session public.work_sessions := public.lock_own_session(p_session_id);
+  _totals RECORD;
+  _entry_id UUID;
+BEGIN
+  IF NOT _session.is_active OR NOT _session.is_paused THEN
+    RAISE EXCEPTION 'The workday is not paused';
+  END IF;
+
+  UPDATE public.work_breaks
+  SET end_time = _now
+  WHERE session_id = _session.id AND end_time IS NULL;
+
+  _totals := public.session_totals(_session, _now);
+
+  UPDATE public.work_sessions
+  SET is_running = true,
+      is_paused = false,
+      current_session_start = _now,
+      pause_start_time = NULL,
+      total_paused_ms = _totals.total_paused_ms
+  WHERE id = _session.id
+  RETURNING * INTO _session;
+
+  UPDATE public.work_entries
+  SET status = 'active',
+      total_paused_ms = _totals.total_paused_ms
+  WHERE session_id = _session.id AND status IN ('active', 'paused') AND deleted_at IS NULL;
+
+  SELECT id INTO _entry_id
+  FROM public.work_entries
+  WHERE session_id = _session.id AND status = 'active' AND deleted_at IS NULL
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF _entry_id IS NOT NULL THEN
+    INSERT INTO public.work_segments (user_id, session_id, entry_id, check_in)
+    VALUES (_session.user_id, _session.id, _entry_id, _now);
+  END IF;
+
+  RETURN _session;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.complete_session(p_session_id UUID)
+RETURNS public.work_sessions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _now TIMESTAMPTZ := now();
+  _session public.work_sessions := public.lock_own_session(p_session_id);
+  _totals RECORD;
+BEGIN
+  IF NOT _session.is_active THEN
+    RAISE EXCEPTION 'The workday is already complete';
+  END IF;
+
+  UPDATE public.work_segments
+  SET check_out = _now
+  WHERE session_id = _session.id AND check_out IS NULL;
+
+  UPDATE public.work_breaks
+  SET end_time = _now
+  WHERE session_id = _session.id AND end_time IS NULL;
+
+  _totals := public.session_totals(_session, _now);
+
+  UPDATE public.work_sessions
+  SET is_active = false,
+      is_running = false,
+      is_paused = false,
+      current_session_start = NULL,
+      pause_start_time = NULL,
+      total_worked_ms = _totals.total_worked_ms,
+      total_paused_ms = _totals.total_paused_ms
+  WHERE id = _session.id
+  RETURNING * INTO _session;
+
+  UPDATE public.work_entries
+  SET status = 'completed',
+      check_out = _now,
+      total_worked_ms = _totals.total_worked_ms,
+      total_paused_ms = _totals.total_paused_ms
+  WHERE session_id = _session.id AND status IN ('active', 'paused') AND deleted_at IS NULL;
+
+  RETURN _session;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.session_totals(public.work_sessions, TIMESTAMPTZ) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.lock_own_session(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.start_session(TIMESTAMPTZ, DATE, TIME, INTEGER, INTEGER) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.pause_session(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.resume_session(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.complete_session(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.session_totals(public.work_sessions, TIMESTAMPTZ) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.lock_own_session(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.start_session(TIMESTAMPTZ, DATE, TIME, INTEGER, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.pause_session(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.resume_session(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_session(UUID) TO authenticated;
@@ -0,0 +1,148 @@
+-- At most one active session per user and day. Duplicates came from a
+-- double click on "Start Work Timer" or two open tabs; they are merged
+-- before the constraint is added, and session creation no longer makes them.
+
+-- Merge the user's duplicate active sessions of a day into the one that
+-- started first. Breaks recorded in a duplicate move over where they do not
+-- overlap the kept ones; the duplicate's entries go to the trash, so
+-- nothing is lost for good, and the duplicate itself is closed.
+CREATE OR REPLACE FUNCTION public.merge_active_sessions(_user_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _duplicate RECORD;
+  _merged INTEGER := 0;
+BEGIN
+  FOR _duplicate IN
+    SELECT id, kept_id
+    FROM (
+      SELECT id,
+             first_value(id) OVER (PARTITION BY date ORDER BY arrival_at, created_at, id) AS kept_id
+      FROM public.work_sessions
+      WHERE user_id = _user_id AND is_active
+    ) ranked
+    WHERE id <> kept_id
+  LOOP
+    UPDATE public.work_breaks b
+    SET session_id = _duplicate.kept_id
+    WHERE b.session_id = _duplicate.id
+      AND NOT EXISTS (
+        SELECT 1
+        FROM public.work_breaks k
+        WHERE k.session_id = _duplicate.kept_id
+          AND k.start_time < coalesce(b.end_time, 'infinity')
+          AND b.start_time < coalesce(k.end_time, 'infinity')
+      );
+
+    UPDATE public.work_entries
+    SET deleted_at = now()
+    WHERE session_id = _duplicate.id AND deleted_at IS NULL;
+
+    UPDATE public.work_sessions
+    SET is_active = false,
+        is_running = false,
+        is_paused = false,
+        current_session_start = NULL,
+        pause_start_time = NULL
+    WHERE id = _duplicate.id;
+
+    _merged := _merged + 1;
+  END LOOP;
+
+  RETURN _merged;
+END;
+$$;
+
+-- Repair path for the client, should it ever find more than one
+CREATE OR REPLACE FUNCTION public.repair_active_sessions()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  RETURN public.merge_active_sessions(auth.uid());
+END;
+$$;
+
+SELECT public.merge_active_sessions(user_id)
+FROM public.work_sessions
+WHERE is_active
+GROUP BY user_id, date
+HAVING count(*) > 1;
+
+CREATE UNIQUE INDEX idx_work_sessions_one_active_per_day
+  ON public.work_sessions(user_id, date)
+  WHERE is_active;
+
+-- Starting a workday twice returns the session that is already running.
+-- Starts are serialised per user, so two tabs cannot both create one.
+CREATE OR REPLACE FUNCTION public.start_session(
+  p_arrival_at TIMESTAMPTZ,
+  p_date DATE,
+  p_arrival_time TIME,
+  p_required_work_hours INTEGER,
+  p_required_work_minutes INTEGER
+)
+RETURNS public.work_sessions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _now TIMESTAMPTZ := now();
+  _worked_ms BIGINT;
+  _session public.work_sessions;
+  _entry_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_arrival_at > _now THEN
+    RAISE EXCEPTION 'Arrival cannot be in the future';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('start_session:' || auth.uid()::text));
+
+  SELECT * INTO _session
+  FROM public.work_sessions
+  WHERE user_id = auth.uid() AND date = p_date AND is_active;
+
+  IF FOUND THEN
+    RETURN _session;
+  END IF;
+
+  _worked_ms := (extract(epoch FROM _now - p_arrival_at) * 1000)::BIGINT;
+
+  INSERT INTO public.work_sessions (
+    user_id, date, arrival_time, arrival_at, required_work_hours, required_work_minutes,
+    is_active, is_running, is_paused, start_time, current_session_start,
+    total_worked_ms, total_paused_ms
+  )
+  VALUES (
+    auth.uid(), p_date, p_arrival_time, p_arrival_at, p_required_work_hours, p_required_work_minutes,
+    true, true, false, _now, _now,
+    _worked_ms, 0
+  )
+  RETURNING * INTO _session;
+
+  INSERT INTO public.work_entries (user_id, session_id, date, check_in, total_worked_ms, total_paused_ms, status)
+  VALUES (auth.uid(), _session.id, p_arrival_at, p_arrival_at, _worked_ms, 0, 'active')
+  RETURNING id INTO _entry_id;
+
+  INSERT INTO public.work_segments (user_id, session_id, entry_id, check_in)
+  VALUES (auth.uid(), _session.id, _entry_id, p_arrival_at);
+
+  RETURN _session;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.merge_active_sessions(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.repair_active_sessions() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.repair_active_sessions() TO authenticated;
@@ -0,0 +1,137 @@
+-- Sessions nobody checked out of. Once a session has been active for longer
+-- than a shift can last, it is closed at the time it most likely ended and
+-- its entry is marked 'auto-closed' until the user confirms the real
+-- check-out. An hourly job closes them for everyone; the client closes its
+-- own on load, so nobody has to wait for the job.
+
+ALTER TABLE public.work_entries DROP CONSTRAINT work_entries_status_check;
+ALTER TABLE public.work_entries
+  ADD CONSTRAINT work_entries_status_check
+  CHECK (status IN ('active', 'completed', 'paused', 'auto-closed'));
+
+-- Close one forgotten session. A paused session ended when the pause began;
+-- a running one once the required time was worked, though not before the
+-- last break ended nor after now.
+CREATE OR REPLACE FUNCTION public.auto_close_session(_session public.work_sessions)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _close_at TIMESTAMPTZ;
+  _totals RECORD;
+BEGIN
+  IF _session.is_paused AND _session.pause_start_time IS NOT NULL THEN
+    _close_at := _session.pause_start_time;
+  ELSE
+    _totals := public.session_totals(_session, now());
+
+    SELECT LEAST(
+      GREATEST(
+        _session.arrival_at
+          + make_interval(hours => _session.required_work_hours, mins => _session.required_work_minutes)
+          + _totals.total_paused_ms * INTERVAL '1 millisecond',
+        max(end_time)
+      ),
+      now()
+    )
+    INTO _close_at
+    FROM public.work_breaks
+    WHERE session_id = _session.id;
+  END IF;
+
+  UPDATE public.work_segments
+  SET check_out = GREATEST(check_in, _close_at)
+  WHERE session_id = _session.id AND check_out IS NULL;
+
+  UPDATE public.work_breaks
+  SET end_time = GREATEST(start_time, _close_at)
+  WHERE session_id = _session.id AND end_time IS NULL;
+
+  _totals := public.session_totals(_session, _close_at);
+
+  UPDATE public.work_sessions
+  SET is_active = false,
+      is_running = false,
+      is_paused = false,
+      current_session_start = NULL,
+      pause_start_time = NULL,
+      total_worked_ms = _totals.total_worked_ms,
+      total_paused_ms = _totals.total_paused_ms
+  WHERE id = _session.id;
+
+  UPDATE public.work_entries
+  SET status = 'auto-closed',
+      check_out = _close_at,
+      total_worked_ms = _totals.total_worked_ms,
+      total_paused_ms = _totals.total_paused_ms
+  WHERE session_id = _session.id AND status IN ('active', 'paused') AND deleted_at IS NULL;
+END;
+$$;
+
+-- The scheduled job, across all users. Sessions a transition is holding
+-- are left for the next run.
+CREATE OR REPLACE FUNCTION public.auto_close_stale_sessions()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _session public.work_sessions;
+  _closed INTEGER := 0;
+BEGIN
+  FOR _session IN
+    SELECT *
+    FROM public.work_sessions
+    WHERE is_active AND arrival_at < now() - INTERVAL '24 hours'
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    PERFORM public.auto_close_session(_session);
+    _closed := _closed + 1;
+  END LOOP;
+
+  RETURN _closed;
+END;
+$$;
+
+-- The caller's own forgotten sessions, checked by the client on load
+CREATE OR REPLACE FUNCTION public.close_own_stale_sessions()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _session public.work_sessions;
+  _closed INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  FOR _session IN
+    SELECT *
+    FROM public.work_sessions
+    WHERE user_id = auth.uid() AND is_active AND arrival_at < now() - INTERVAL '24 hours'
+    FOR UPDATE
+  LOOP
+    PERFORM public.auto_close_session(_session);
+    _closed := _closed + 1;
+  END LOOP;
+
+  RETURN _closed;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.auto_close_session(public.work_sessions) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.auto_close_stale_sessions() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.close_own_stale_sessions() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.auto_close_session(public.work_sessions) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.close_own_stale_sessions() TO authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'auto-close-stale-sessions',
+  '5 * * * *',
+  $$SELECT public.auto_close_stale_sessions()$$
+);
@@ -0,0 +1,16 @@
+-- The totals are no longer written on every timer tick, and they are what
+-- timesheets and exports report, so a change to them alone is logged too.
+-- Without trigger arguments only updates that change nothing but
+-- updated_at are skipped.
+DROP TRIGGER audit_work_sessions ON public.work_sessions;
+DROP TRIGGER audit_work_entries ON public.work_entries;
+
+CREATE TRIGGER audit_work_sessions
+  AFTER INSERT OR UPDATE OR DELETE ON public.work_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_audit_change();
+
+CREATE TRIGGER audit_work_entries
+  AFTER INSERT OR UPDATE OR DELETE ON public.work_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_audit_change();
@@ -0,0 +1,65 @@
+-- A session counts as forgotten once its workday is over, not 24 hours
+-- after arrival: at 06:00 on the morning after its date, in the user's
+-- timezone. Night shifts that run past midnight keep running until then.
+-- Profiles without a timezone are judged in UTC.
+
+CREATE OR REPLACE FUNCTION public.session_day_over_at(_date DATE, _timezone TEXT)
+RETURNS TIMESTAMPTZ
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT ((_date + 1) + TIME '06:00') AT TIME ZONE COALESCE(_timezone, 'UTC');
+$$;
+
+CREATE OR REPLACE FUNCTION public.auto_close_stale_sessions()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _session public.work_sessions;
+  _closed INTEGER := 0;
+BEGIN
+  FOR _session IN
+    SELECT s.*
+    FROM public.work_sessions s
+    LEFT JOIN public.profiles p ON p.user_id = s.user_id
+    WHERE s.is_active AND public.session_day_over_at(s.date, p.timezone) <= now()
+    FOR UPDATE OF s SKIP LOCKED
+  LOOP
+    PERFORM public.auto_close_session(_session);
+    _closed := _closed + 1;
+  END LOOP;
+
+  RETURN _closed;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.close_own_stale_sessions()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _session public.work_sessions;
+  _closed INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  FOR _session IN
+    SELECT s.*
+    FROM public.work_sessions s
+    LEFT JOIN public.profiles p ON p.user_id = s.user_id
+    WHERE s.user_id = auth.uid() AND s.is_active AND public.session_day_over_at(s.date, p.timezone) <= now()
+    FOR UPDATE OF s
+  LOOP
+    PERFORM public.auto_close_session(_session);
+    _closed := _closed + 1;
+  END LOOP;
+
+  RETURN _closed;
+END;
+$$;
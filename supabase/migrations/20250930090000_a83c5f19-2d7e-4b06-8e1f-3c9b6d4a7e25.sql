@@ -0,0 +1,73 @@
+-- Imported days are written in one transaction per call: each day's
+-- session, entry, segments and breaks either all exist or none do, so a
+-- failed import leaves no completed sessions without an entry behind.
+-- The function runs as the caller, so row level security still applies.
+
+CREATE OR REPLACE FUNCTION public.import_days(p_days JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _day JSONB;
+  _session_id UUID;
+  _entry_id UUID;
+  _imported INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  FOR _day IN SELECT * FROM jsonb_array_elements(p_days)
+  LOOP
+    INSERT INTO public.work_sessions (
+      user_id, date, arrival_time, arrival_at, required_work_hours, required_work_minutes,
+      is_active, is_running, is_paused, start_time, total_worked_ms, total_paused_ms
+    )
+    VALUES (
+      auth.uid(),
+      (_day->>'date')::DATE,
+      (_day->>'arrival_time')::TIME,
+      (_day->>'arrival_at')::TIMESTAMPTZ,
+      (_day->>'required_work_hours')::INTEGER,
+      (_day->>'required_work_minutes')::INTEGER,
+      false, false, false,
+      (_day->>'arrival_at')::TIMESTAMPTZ,
+      (_day->>'total_worked_ms')::BIGINT,
+      (_day->>'total_paused_ms')::BIGINT
+    )
+    RETURNING id INTO _session_id;
+
+    INSERT INTO public.work_entries (
+      user_id, session_id, date, check_in, check_out, total_worked_ms, total_paused_ms, name, status
+    )
+    VALUES (
+      auth.uid(),
+      _session_id,
+      (_day->>'arrival_at')::TIMESTAMPTZ,
+      (_day->>'arrival_at')::TIMESTAMPTZ,
+      (_day->>'check_out')::TIMESTAMPTZ,
+      (_day->>'total_worked_ms')::BIGINT,
+      (_day->>'total_paused_ms')::BIGINT,
+      _day->>'name',
+      'completed'
+    )
+    RETURNING id INTO _entry_id;
+
+    INSERT INTO public.work_segments (user_id, session_id, entry_id, check_in, check_out)
+    SELECT auth.uid(), _session_id, _entry_id, segment.check_in, segment.check_out
+    FROM jsonb_to_recordset(_day->'segments') AS segment(check_in TIMESTAMPTZ, check_out TIMESTAMPTZ);
+
+    INSERT INTO public.work_breaks (user_id, session_id, start_time, end_time, type)
+    SELECT auth.uid(), _session_id, work_break.start_time, work_break.end_time, 'manual'
+    FROM jsonb_to_recordset(_day->'breaks') AS work_break(start_time TIMESTAMPTZ, end_time TIMESTAMPTZ);
+
+    _imported := _imported + 1;
+  END LOOP;
+
+  RETURN _imported;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.import_days(JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.import_days(JSONB) TO authenticated;
@@ -0,0 +1,80 @@
+-- Merging duplicate active sessions closes what is still open in the
+-- duplicate first: an open break moved into the kept session would pause it
+-- until the end of the day, and an open segment of a trashed entry would
+-- never be checked out. The kept session's totals are recomputed from its
+-- breaks afterwards, as the moved ones add to its paused time.
+CREATE OR REPLACE FUNCTION public.merge_active_sessions(_user_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _now TIMESTAMPTZ := now();
+  _duplicate RECORD;
+  _kept public.work_sessions;
+  _totals RECORD;
+  _merged INTEGER := 0;
+BEGIN
+  FOR _duplicate IN
+    SELECT id, kept_id
+    FROM (
+      SELECT id,
+             first_value(id) OVER (PARTITION BY date ORDER BY arrival_at, created_at, id) AS kept_id
+      FROM public.work_sessions
+      WHERE user_id = _user_id AND is_active
+    ) ranked
+    WHERE id <> kept_id
+  LOOP
+    UPDATE public.work_breaks
+    SET end_time = GREATEST(start_time, _now)
+    WHERE session_id = _duplicate.id AND end_time IS NULL;
+
+    UPDATE public.work_segments
+    SET check_out = GREATEST(check_in, _now)
+    WHERE session_id = _duplicate.id AND check_out IS NULL;
+
+    UPDATE public.work_breaks b
+    SET session_id = _duplicate.kept_id
+    WHERE b.session_id = _duplicate.id
+      AND NOT EXISTS (
+        SELECT 1
+        FROM public.work_breaks k
+        WHERE k.session_id = _duplicate.kept_id
+          AND k.start_time < b.end_time
+          AND b.start_time < coalesce(k.end_time, 'infinity')
+      );
+
+    UPDATE public.work_entries
+    SET deleted_at = _now
+    WHERE session_id = _duplicate.id AND deleted_at IS NULL;
+
+    UPDATE public.work_sessions
+    SET is_active = false,
+        is_running = false,
+        is_paused = false,
+        current_session_start = NULL,
+        pause_start_time = NULL
+    WHERE id = _duplicate.id;
+
+    SELECT * INTO _kept
+    FROM public.work_sessions
+    WHERE id = _duplicate.kept_id;
+
+    _totals := public.session_totals(_kept, _now);
+
+    UPDATE public.work_sessions
+    SET total_worked_ms = _totals.total_worked_ms,
+        total_paused_ms = _totals.total_paused_ms
+    WHERE id = _kept.id;
+
+    UPDATE public.work_entries
+    SET total_worked_ms = _totals.total_worked_ms,
+        total_paused_ms = _totals.total_paused_ms
+    WHERE session_id = _kept.id AND status IN ('active', 'paused') AND deleted_at IS NULL;
+
+    _merged := _merged + 1;
+  END LOOP;
+
+  RETURN _merged;
+END;
+$$;
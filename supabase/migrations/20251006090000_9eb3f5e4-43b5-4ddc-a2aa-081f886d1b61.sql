@@ -0,0 +1,62 @@
+-- Purging an entry from the trash takes its session with it, and through the
+-- session's cascade its breaks and segments, so nothing is left behind that
+-- no entry refers to. A session that still has an entry outside the trash
+-- only loses the purged one.
+CREATE OR REPLACE FUNCTION public.purge_trashed_entries(_entry_ids UUID[])
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _session_ids UUID[];
+  _purged INTEGER;
+BEGIN
+  WITH purged AS (
+    DELETE FROM public.work_entries
+    WHERE id = ANY(_entry_ids) AND deleted_at IS NOT NULL
+    RETURNING session_id
+  )
+  SELECT array_agg(DISTINCT session_id), count(*)
+  INTO _session_ids, _purged
+  FROM purged;
+
+  DELETE FROM public.work_sessions
+  WHERE id = ANY(_session_ids)
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.work_entries
+      WHERE work_entries.session_id = work_sessions.id
+    );
+
+  RETURN _purged;
+END;
+$$;
+
+-- The scheduled job, across all users. The retention period matches
+-- TRASH_RETENTION_DAYS in src/lib/trash.ts; the client purges its own
+-- expired entries when it loads the trash, so nobody has to wait for the job.
+CREATE OR REPLACE FUNCTION public.purge_expired_entries()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RETURN public.purge_trashed_entries(ARRAY(
+    SELECT id
+    FROM public.work_entries
+    WHERE deleted_at < now() - INTERVAL '30 days'
+  ));
+END;
+$$;
+
+-- Clients call the purge with their own rights, so row level security keeps
+-- them to their own entries
+REVOKE EXECUTE ON FUNCTION public.purge_trashed_entries(UUID[]) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.purge_expired_entries() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.purge_trashed_entries(UUID[]) TO authenticated;
+
+SELECT cron.schedule(
+  'purge-expired-entries',
+  '15 3 * * *',
+  $$SELECT public.purge_expired_entries()$$
+);